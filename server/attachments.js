@@ -0,0 +1,107 @@
+// Images and text files attached to a user message. The client sends each
+// one base64-encoded; images may also carry a small data-URL thumbnail, which
+// is all run history keeps of them.
+const attachmentTypes = ['image', 'file'];
+export const imageMimeTypes = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+// Any text/* type is accepted as a file, plus these structured text formats
+const textMimeTypes = ['application/json', 'application/xml', 'application/x-yaml', 'application/yaml'];
+
+const MAX_ATTACHMENTS = 8;
+const MAX_NAME_LENGTH = 255;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_FILE_CHARACTERS = 100000;
+const MAX_THUMBNAIL_LENGTH = 50000;
+// Stays under the 10mb JSON body limit once base64 overhead is added
+export const MAX_TOTAL_ATTACHMENT_BYTES = 7 * 1024 * 1024;
+
+const base64Pattern = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const isTextMimeType = (mimeType) => mimeType.startsWith('text/') || textMimeTypes.includes(mimeType);
+
+export const attachmentBytes = (attachment) => Buffer.byteLength(attachment.data, 'base64');
+
+export const decodeText = (attachment) => Buffer.from(attachment.data, 'base64').toString('utf8');
+
+// Returns an error message, or null when a message's attachments are acceptable
+export const validateAttachments = (attachments) => {
+  if (!Array.isArray(attachments) || attachments.length > MAX_ATTACHMENTS) {
+    return `Attachments must be an array of at most ${MAX_ATTACHMENTS} entries`;
+  }
+
+  for (const [index, attachment] of attachments.entries()) {
+    const label = `Attachment ${index + 1}`;
+
+    if (!attachment || typeof attachment !== 'object' || !attachmentTypes.includes(attachment.type)) {
+      return `${label} must have a type of ${attachmentTypes.join(' or ')}`;
+    }
+
+    const { type, name, mimeType, data, thumbnail } = attachment;
+
+    if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+      return `${label} needs a name with max ${MAX_NAME_LENGTH} characters`;
+    }
+
+    if (typeof mimeType !== 'string') {
+      return `${name}: MIME type must be a string`;
+    }
+
+    if (typeof data !== 'string' || !data || !base64Pattern.test(data)) {
+      return `${name}: data must be base64-encoded`;
+    }
+
+    if (type === 'image') {
+      if (!imageMimeTypes.includes(mimeType)) {
+        return `${name}: images must be one of ${imageMimeTypes.join(', ')}`;
+      }
+
+      if (attachmentBytes(attachment) > MAX_IMAGE_BYTES) {
+        return `${name}: images may be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB`;
+      }
+
+      if (thumbnail !== undefined &&
+          (typeof thumbnail !== 'string' || !thumbnail.startsWith('data:image/') || thumbnail.length > MAX_THUMBNAIL_LENGTH)) {
+        return `${name}: thumbnail must be an image data URL of max ${MAX_THUMBNAIL_LENGTH} characters`;
+      }
+    } else {
+      if (!isTextMimeType(mimeType)) {
+        return `${name}: only text files can be attached (got ${mimeType || 'an unknown type'})`;
+      }
+
+      if (decodeText(attachment).length > MAX_FILE_CHARACTERS) {
+        return `${name}: text files may be at most ${MAX_FILE_CHARACTERS.toLocaleString()} characters`;
+      }
+    }
+  }
+
+  return null;
+};
+
+export const hasImages = (attachments) => !!attachments?.some(({ type }) => type === 'image');
+
+// Upstream message content: text files are folded into the text, and images
+// turn the content into the multi-part form vision models take
+export const toMessageContent = (text, attachments = []) => {
+  const files = attachments
+    .filter(({ type }) => type === 'file')
+    .map((attachment) => `--- ${attachment.name} ---\n${decodeText(attachment)}`);
+  const fullText = [text, ...files].filter(Boolean).join('\n\n');
+
+  const images = attachments.filter(({ type }) => type === 'image');
+  if (images.length === 0) {
+    return fullText;
+  }
+
+  return [
+    ...(fullText ? [{ type: 'text', text: fullText }] : []),
+    ...images.map(({ mimeType, data }) => ({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } }))
+  ];
+};
+
+// What run history records of an attachment: never the data itself
+export const summarizeAttachment = (attachment) => ({
+  type: attachment.type,
+  name: attachment.name,
+  mimeType: attachment.mimeType,
+  size: attachmentBytes(attachment),
+  ...(attachment.thumbnail && { thumbnail: attachment.thumbnail })
+});
@@ -0,0 +1,227 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomUUID } from 'crypto';
+import path from 'path';
+import { createJsonFileStore, dataDirectory } from './jsonStore.js';
+import { logger } from './logger.js';
+
+const TOKEN_PREFIX = 'pp_';
+const MAX_NAME_LENGTH = 100;
+
+// With AUTH_REQUIRED unset the playground stays open and every client is an
+// anonymous user keyed by IP, which is how the server behaved before accounts
+export const authRequired = process.env.AUTH_REQUIRED === 'true';
+
+// Stored provider keys are sealed with AES-256-GCM; bring-your-own-key is
+// unavailable until a secret is configured
+const encryptionKey = process.env.KEY_ENCRYPTION_SECRET
+  ? createHash('sha256').update(process.env.KEY_ENCRYPTION_SECRET).digest()
+  : null;
+
+export const byokEnabled = !!encryptionKey;
+
+const parseLimit = (value) => {
+  const limit = parseInt(value, 10);
+  return Number.isInteger(limit) && limit > 0 ? limit : null;
+};
+
+// Users without their own limits get these. `rateLimit` is requests per
+// 15 minutes; `dailyTokens` is null for no token quota.
+export const defaultLimits = {
+  rateLimit: parseLimit(process.env.USER_RATE_LIMIT) || (process.env.NODE_ENV !== 'production' ? 100 : 20),
+  dailyTokens: parseLimit(process.env.USER_DAILY_TOKENS)
+};
+
+// Reloaded when changed so users added or revoked with `npm run users` apply without a restart
+const store = createJsonFileStore(
+  process.env.USERS_FILE || path.join(dataDirectory, 'users.json'),
+  () => [],
+  Array.isArray,
+  { reloadOnChange: true }
+);
+
+// Only a hash of each token is stored, so a leaked users file grants no access
+const hashToken = (token) => createHash('sha256').update(token).digest('hex');
+
+const generateToken = () => `${TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+const encrypt = (text) => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey, iv);
+  const data = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+};
+
+const decrypt = ({ iv, tag, data }) => {
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+};
+
+// What clients and the CLI may see of a user: never the token hash or keys
+export const toPublicUser = ({ id, name, role, createdAt, limits, apiKeys }) => ({
+  id,
+  name,
+  role,
+  createdAt,
+  limits: { ...defaultLimits, ...limits },
+  keys: Object.keys(apiKeys || {})
+});
+
+// The user attached to each request, with provider keys decrypted for use
+const toRequestUser = (user) => {
+  const apiKeys = {};
+  for (const [providerId, sealed] of Object.entries(user.apiKeys || {})) {
+    try {
+      apiKeys[providerId] = decrypt(sealed);
+    } catch {
+      // Happens when KEY_ENCRYPTION_SECRET changed; the user can store the key again
+      logger.warn('Could not decrypt a stored API key', { userId: user.id, provider: providerId });
+    }
+  }
+
+  return { ...toPublicUser(user), apiKeys };
+};
+
+const anonymousUser = (req) => ({
+  id: `ip:${req.ip}`,
+  name: 'Anonymous',
+  role: 'anonymous',
+  limits: defaultLimits,
+  keys: [],
+  apiKeys: {}
+});
+
+export const validateLimits = (limits) => {
+  if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+    return 'Limits must be an object';
+  }
+
+  for (const field of ['rateLimit', 'dailyTokens']) {
+    const value = limits[field];
+    if (value !== undefined && value !== null && !(Number.isInteger(value) && value > 0)) {
+      return `${field} must be a positive integer or null`;
+    }
+  }
+
+  return null;
+};
+
+export const listUsers = async () => (await store.load()).map(toPublicUser);
+
+// Returns the new user together with their token, which is shown only once
+export const createUser = async ({ name, role = 'user', limits = {} }) => {
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+    throw new Error(`Name is required and must be a string with max ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const token = generateToken();
+  const user = {
+    id: randomUUID(),
+    name: name.trim(),
+    role,
+    createdAt: new Date().toISOString(),
+    tokenHash: hashToken(token),
+    limits,
+    apiKeys: {}
+  };
+
+  const users = await store.load();
+  users.push(user);
+  await store.save(users);
+  return { user: toPublicUser(user), token };
+};
+
+// Applies `update` to the stored user; resolves with the updated user, or null if not found
+const updateUser = async (id, update) => {
+  const users = await store.load();
+  const user = users.find((candidate) => candidate.id === id);
+  if (!user) {
+    return null;
+  }
+
+  update(user);
+  await store.save(users);
+  return user;
+};
+
+export const deleteUser = async (id) => {
+  const users = await store.load();
+  const remaining = users.filter((user) => user.id !== id);
+  if (remaining.length === users.length) {
+    return false;
+  }
+
+  await store.save(remaining);
+  return true;
+};
+
+// Issues a new token; the old one stops working immediately
+export const rotateToken = async (id) => {
+  const token = generateToken();
+  const user = await updateUser(id, (user) => {
+    user.tokenHash = hashToken(token);
+  });
+  return user ? token : null;
+};
+
+// A null limit removes the user's own value so the server default applies
+export const setUserLimits = async (id, limits) => {
+  const user = await updateUser(id, (user) => {
+    user.limits = Object.fromEntries(
+      Object.entries({ ...user.limits, ...limits }).filter(([, value]) => value !== null)
+    );
+  });
+  return user ? toPublicUser(user) : null;
+};
+
+// Stores (or with a null key, removes) the user's own key for a provider
+export const setUserApiKey = async (id, providerId, apiKey) => {
+  const user = await updateUser(id, (user) => {
+    user.apiKeys = { ...user.apiKeys };
+    if (apiKey) {
+      user.apiKeys[providerId] = encrypt(apiKey);
+    } else {
+      delete user.apiKeys[providerId];
+    }
+  });
+  return user ? toPublicUser(user) : null;
+};
+
+const publicPaths = ['/health', '/api/auth'];
+
+// Resolves `req.user` from a bearer token. Without one, requests run as an
+// anonymous per-IP user unless AUTH_REQUIRED is set.
+export const authenticate = async (req, res, next) => {
+  if (req.method === 'OPTIONS') {
+    return next();
+  }
+
+  const token = req.get('Authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+
+  if (token) {
+    const tokenHash = hashToken(token);
+    const user = (await store.load()).find((candidate) => candidate.tokenHash === tokenHash);
+    if (!user) {
+      return res.status(401).json({
+        error: 'Invalid API token',
+        type: 'authentication_error'
+      });
+    }
+
+    req.user = toRequestUser(user);
+    return next();
+  }
+
+  if (authRequired && !publicPaths.includes(req.path)) {
+    return res.status(401).json({
+      error: 'Sign in with your API token to use the playground',
+      type: 'authentication_required'
+    });
+  }
+
+  req.user = anonymousUser(req);
+  next();
+};
@@ -0,0 +1,92 @@
+import { createHash } from 'crypto';
+
+const parsePositiveInt = (value, fallback) => {
+  const parsed = parseInt(value, 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Opt-in: with RESPONSE_CACHE unset every run goes to the provider
+export const cacheSettings = {
+  enabled: process.env.RESPONSE_CACHE === 'true',
+  ttlSeconds: parsePositiveInt(process.env.RESPONSE_CACHE_TTL_SECONDS, 3600),
+  maxEntries: parsePositiveInt(process.env.RESPONSE_CACHE_MAX_ENTRIES, 500)
+};
+
+// In memory on purpose: a restart clears it, and entries never outlive the TTL anyway.
+// Map keeps insertion order, so re-inserting on every hit makes the first key the least recently used.
+const entries = new Map();
+const stats = { hits: 0, misses: 0 };
+
+// Only runs that would give the same answer again are worth replaying
+export const isCacheable = (requestBody) =>
+  cacheSettings.enabled && (requestBody.temperature === 0 || requestBody.seed !== undefined);
+
+// The upstream request body already carries the model, messages and every sampling
+// parameter, so hashing it with the provider id identifies the request exactly.
+// `userId` keeps replies paid for with a user's own key to that user.
+export const getCacheKey = (providerId, requestBody, userId = null) =>
+  createHash('sha256').update(JSON.stringify({ provider: providerId, ...(userId && { userId }), ...requestBody })).digest('hex');
+
+const isExpired = (entry) => Date.now() >= entry.expiresAt;
+
+// Returns the cached response for `key`, or null; counts the lookup as a hit or miss
+export const getCachedResponse = (key) => {
+  const entry = entries.get(key);
+  if (!entry || isExpired(entry)) {
+    entries.delete(key);
+    stats.misses++;
+    return null;
+  }
+
+  entries.delete(key);
+  entries.set(key, entry);
+  entry.hits++;
+  stats.hits++;
+  return entry.response;
+};
+
+export const setCachedResponse = (key, { provider, response }) => {
+  entries.delete(key);
+  const createdAt = Date.now();
+  entries.set(key, {
+    provider,
+    response,
+    hits: 0,
+    createdAt,
+    expiresAt: createdAt + cacheSettings.ttlSeconds * 1000
+  });
+
+  while (entries.size > cacheSettings.maxEntries) {
+    entries.delete(entries.keys().next().value);
+  }
+};
+
+// What `/api/cache` shows: settings, hit rate and one line per live entry, newest first
+export const getCacheStats = () => {
+  for (const [key, entry] of entries) {
+    if (isExpired(entry)) entries.delete(key);
+  }
+
+  return {
+    ...cacheSettings,
+    size: entries.size,
+    ...stats,
+    entries: [...entries].reverse().map(([key, entry]) => ({
+      key,
+      provider: entry.provider,
+      model: entry.response.model,
+      hits: entry.hits,
+      createdAt: new Date(entry.createdAt).toISOString(),
+      expiresAt: new Date(entry.expiresAt).toISOString()
+    }))
+  };
+};
+
+// Returns the number of entries removed
+export const clearCache = () => {
+  const removed = entries.size;
+  entries.clear();
+  stats.hits = 0;
+  stats.misses = 0;
+  return removed;
+};
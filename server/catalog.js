@@ -0,0 +1,135 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { logger } from './logger.js';
+
+const catalogFile = process.env.MODEL_CATALOG_FILE
+  || path.join(path.dirname(fileURLToPath(import.meta.url)), 'models.json');
+
+// Limits assumed for models that are configured but missing from the catalog
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+
+const isPositiveInteger = (value) => Number.isInteger(value) && value > 0;
+const isPrice = (value) => typeof value === 'number' && value >= 0;
+
+const normalizeEntry = (entry, index) => {
+  if (!entry || typeof entry.id !== 'string' || typeof entry.provider !== 'string') {
+    throw new Error(`Model ${index + 1} needs a string id and provider`);
+  }
+
+  if (!isPositiveInteger(entry.contextWindow) || !isPositiveInteger(entry.maxOutputTokens)) {
+    throw new Error(`Model ${entry.id} needs positive integer contextWindow and maxOutputTokens`);
+  }
+
+  if (!isPrice(entry.pricing?.input) || !isPrice(entry.pricing?.output)) {
+    throw new Error(`Model ${entry.id} needs non-negative pricing.input and pricing.output`);
+  }
+
+  return {
+    id: entry.id,
+    name: typeof entry.name === 'string' ? entry.name : entry.id,
+    provider: entry.provider,
+    contextWindow: entry.contextWindow,
+    maxOutputTokens: entry.maxOutputTokens,
+    // Whether the model accepts image attachments
+    vision: entry.vision === true,
+    pricing: {
+      input: entry.pricing.input,
+      output: entry.pricing.output
+    }
+  };
+};
+
+const loadCatalog = () => {
+  try {
+    const { models } = JSON.parse(fs.readFileSync(catalogFile, 'utf8'));
+    if (!Array.isArray(models)) {
+      throw new Error('Expected a "models" array');
+    }
+    return models.map(normalizeEntry);
+  } catch (error) {
+    logger.error('Failed to load model catalog', {
+      message: error.message,
+      file: catalogFile
+    });
+    process.exit(1);
+  }
+};
+
+const catalog = loadCatalog();
+
+// Catalog entries for a provider, in catalog order. Extra model ids (e.g. from
+// OPENAI_COMPATIBLE_MODELS) that the catalog does not describe get default limits
+// and zero pricing.
+export const getCatalogModels = (providerId, extraModelIds = []) => {
+  const models = catalog.filter((entry) => entry.provider === providerId);
+
+  for (const id of extraModelIds) {
+    if (!models.some((entry) => entry.id === id)) {
+      models.push({
+        id,
+        name: id,
+        provider: providerId,
+        contextWindow: DEFAULT_CONTEXT_WINDOW,
+        maxOutputTokens: DEFAULT_MAX_OUTPUT_TOKENS,
+        vision: false,
+        pricing: { input: 0, output: 0 }
+      });
+    }
+  }
+
+  return models;
+};
+
+const findPricing = (providerId, modelId) => {
+  if (typeof modelId !== 'string') {
+    return null;
+  }
+
+  const models = catalog.filter((entry) => entry.provider === providerId);
+  const exact = models.find((entry) => entry.id === modelId);
+  if (exact) {
+    return exact.pricing;
+  }
+
+  // Providers often answer with a dated snapshot (gpt-4o-mini-2024-07-18),
+  // so fall back to the longest catalog id the returned model starts with
+  const prefixed = models
+    .filter((entry) => modelId.startsWith(`${entry.id}-`))
+    .sort((a, b) => b.id.length - a.id.length)[0];
+  return prefixed?.pricing || null;
+};
+
+// Cost in USD of a completion, priced by the first of `modelIds` the catalog
+// knows (the model that answered, then the one requested). Null when unknown.
+export const calculateCost = (providerId, modelIds, usage) => {
+  if (!usage) {
+    return null;
+  }
+
+  const pricing = modelIds.map((modelId) => findPricing(providerId, modelId)).find(Boolean);
+  if (!pricing) {
+    return null;
+  }
+
+  const cost = (usage.prompt_tokens * pricing.input + usage.completion_tokens * pricing.output) / 1_000_000;
+  return Math.round(cost * 1e8) / 1e8;
+};
+
+// Rough usage for a stream that ended before the provider reported any: about
+// four characters per token plus a few per message, like the client's estimate.
+// Image parts aren't counted.
+export const estimateUsage = (messages, output) => {
+  const textOf = (content) => typeof content === 'string'
+    ? content
+    : content.filter(({ type }) => type === 'text').map(({ text }) => text).join('\n');
+  const promptTokens = messages.reduce((total, { content }) => total + Math.ceil(textOf(content).length / 4) + 4, 0);
+  const completionTokens = Math.ceil(output.length / 4);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    estimated: true
+  };
+};
@@ -0,0 +1,594 @@
+import OpenAI from 'openai';
+import { getProvider } from './providers/index.js';
+import { ajv, checkSchema, compileSchema, stripCodeFence } from './schema.js';
+import {
+  validateAttachments,
+  attachmentBytes,
+  hasImages,
+  toMessageContent,
+  summarizeAttachment,
+  MAX_TOTAL_ATTACHMENT_BYTES
+} from './attachments.js';
+
+const allowedRoles = ['system', 'user', 'assistant'];
+const MAX_MESSAGES = 50;
+const MAX_TOTAL_CHARACTERS = 32000;
+const MAX_TOOLS = 20;
+const MAX_CHOICES = 8;
+const MAX_TOP_LOGPROBS = 20;
+const MAX_LOGIT_BIAS_ENTRIES = 300;
+const MAX_FALLBACK_MODELS = 3;
+
+export const responseFormats = ['text', 'json_object', 'json_schema'];
+const toolChoices = ['auto', 'none', 'required'];
+// Schema and function names as the OpenAI API accepts them
+const namePattern = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// Requests either carry a full `messages` transcript or the single-shot
+// systemPrompt/userPrompt pair, which is treated as a one-turn transcript.
+// Single-shot `attachments` belong to the user turn.
+export const normalizeMessages = (params) => {
+  if (params.messages !== undefined) {
+    return params.messages;
+  }
+
+  const messages = [];
+  if (typeof params.systemPrompt === 'string' && params.systemPrompt.trim()) {
+    messages.push({ role: 'system', content: params.systemPrompt });
+  }
+  messages.push({
+    role: 'user',
+    content: params.userPrompt,
+    ...(params.attachments !== undefined && { attachments: params.attachments })
+  });
+  return messages;
+};
+
+const validateMessages = (messages) => {
+  if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_MESSAGES) {
+    return `Messages must be an array of 1 to ${MAX_MESSAGES} entries`;
+  }
+
+  let totalCharacters = 0;
+  let totalAttachmentBytes = 0;
+
+  for (const [index, message] of messages.entries()) {
+    if (!message || typeof message !== 'object' || !allowedRoles.includes(message.role)) {
+      return `Message ${index + 1} must have a role of ${allowedRoles.join(', ')}`;
+    }
+
+    if (message.role === 'system' && index !== 0) {
+      return 'Only the first message may have the system role';
+    }
+
+    if (message.attachments !== undefined) {
+      if (message.role !== 'user') {
+        return `Message ${index + 1}: only user messages may have attachments`;
+      }
+
+      const attachmentsError = validateAttachments(message.attachments);
+      if (attachmentsError) {
+        return `Message ${index + 1}: ${attachmentsError}`;
+      }
+
+      totalAttachmentBytes += message.attachments.reduce((total, attachment) => total + attachmentBytes(attachment), 0);
+    }
+
+    // An attachment can stand in for the text of a user message
+    if (typeof message.content !== 'string' || (!message.content.trim() && !message.attachments?.length)) {
+      return `Message ${index + 1} must have non-empty string content`;
+    }
+
+    totalCharacters += message.content.length;
+  }
+
+  if (totalAttachmentBytes > MAX_TOTAL_ATTACHMENT_BYTES) {
+    return `Attachments too large (max ${MAX_TOTAL_ATTACHMENT_BYTES / 1024 / 1024} MB in total)`;
+  }
+
+  if (messages[messages.length - 1].role !== 'user') {
+    return 'The last message must have the user role';
+  }
+
+  if (totalCharacters > MAX_TOTAL_CHARACTERS) {
+    return `Conversation too long (max ${MAX_TOTAL_CHARACTERS} characters in total)`;
+  }
+
+  return null;
+};
+
+// Validate the JSON mode, JSON schema and tool definitions of a request
+const validateStructuredParams = ({ responseFormat, jsonSchema, tools, toolChoice }) => {
+  if (responseFormat !== undefined && !responseFormats.includes(responseFormat)) {
+    return `Response format must be one of ${responseFormats.join(', ')}`;
+  }
+
+  if (responseFormat === 'json_schema') {
+    if (!jsonSchema || typeof jsonSchema !== 'object') {
+      return 'A jsonSchema object is required for the json_schema response format';
+    }
+
+    if (jsonSchema.name !== undefined && (typeof jsonSchema.name !== 'string' || !namePattern.test(jsonSchema.name))) {
+      return 'JSON schema name may only contain letters, digits, _ and - (max 64 characters)';
+    }
+
+    if (jsonSchema.strict !== undefined && typeof jsonSchema.strict !== 'boolean') {
+      return 'JSON schema strict must be a boolean';
+    }
+
+    const schemaError = checkSchema(jsonSchema.schema);
+    if (schemaError) {
+      return `Invalid JSON schema: ${schemaError}`;
+    }
+  }
+
+  if (tools !== undefined) {
+    if (!Array.isArray(tools) || tools.length > MAX_TOOLS) {
+      return `Tools must be an array of at most ${MAX_TOOLS} function definitions`;
+    }
+
+    const names = new Set();
+    for (const [index, tool] of tools.entries()) {
+      if (!tool || typeof tool !== 'object' || typeof tool.name !== 'string' || !namePattern.test(tool.name)) {
+        return `Tool ${index + 1} needs a name of letters, digits, _ and - (max 64 characters)`;
+      }
+
+      if (names.has(tool.name)) {
+        return `Tool names must be unique (${tool.name} is repeated)`;
+      }
+      names.add(tool.name);
+
+      if (tool.description !== undefined && typeof tool.description !== 'string') {
+        return `Tool ${tool.name}: description must be a string`;
+      }
+
+      if (tool.parameters !== undefined) {
+        const schemaError = checkSchema(tool.parameters);
+        if (schemaError) {
+          return `Tool ${tool.name}: invalid parameters schema: ${schemaError}`;
+        }
+      }
+    }
+  }
+
+  if (toolChoice !== undefined && !toolChoices.includes(toolChoice)) {
+    return `Tool choice must be one of ${toolChoices.join(', ')}`;
+  }
+
+  return null;
+};
+
+// Validate the prompt and sampling parameters shared by single and batch runs.
+// Returns an error message, or null when the parameters are acceptable.
+export const validateChatParams = (params) => {
+  const {
+    provider,
+    model,
+    systemPrompt,
+    userPrompt,
+    messages,
+    temperature,
+    maxTokens,
+    presencePenalty,
+    frequencyPenalty,
+    stopSequence,
+    topP,
+    seed,
+    n,
+    logitBias,
+    logprobs,
+    topLogprobs,
+    fallbackModels
+  } = params;
+
+  // Validate required fields
+  if (messages === undefined) {
+    if (typeof userPrompt !== 'string' || (!userPrompt.trim() && !params.attachments?.length)) {
+      return 'User prompt is required and must be a non-empty string';
+    }
+
+    if (systemPrompt && typeof systemPrompt !== 'string') {
+      return 'System prompt must be a string';
+    }
+  }
+
+  // Validate roles and the overall conversation length
+  const messagesError = validateMessages(normalizeMessages(params));
+  if (messagesError) {
+    return messagesError;
+  }
+
+  // Validate provider and model
+  if (provider !== undefined && typeof provider !== 'string') {
+    return 'Provider must be a string';
+  }
+
+  const selectedProvider = getProvider(provider);
+  if (!selectedProvider) {
+    return provider ? 'Invalid provider specified' : 'No model provider is configured on the server';
+  }
+
+  const selectedModel = model
+    ? selectedProvider.models.find(({ id }) => id === model)
+    : selectedProvider.models[0];
+  if (!selectedModel) {
+    return 'Invalid model specified';
+  }
+
+  const sendsImages = normalizeMessages(params).some((message) => hasImages(message.attachments));
+  if (!selectedModel.vision && sendsImages) {
+    return `${selectedModel.name} does not accept images; pick a vision-capable model`;
+  }
+
+  // Fallbacks are tried in order, on the same provider, when the model is unavailable
+  if (fallbackModels !== undefined) {
+    if (!Array.isArray(fallbackModels) || fallbackModels.length > MAX_FALLBACK_MODELS) {
+      return `fallbackModels must be an array of at most ${MAX_FALLBACK_MODELS} model IDs`;
+    }
+
+    for (const id of fallbackModels) {
+      const fallback = selectedProvider.models.find((candidate) => candidate.id === id);
+      if (!fallback) {
+        return `Invalid fallback model specified: ${id}`;
+      }
+
+      if (id === selectedModel.id || fallbackModels.indexOf(id) !== fallbackModels.lastIndexOf(id)) {
+        return 'Fallback models must differ from the model and from each other';
+      }
+
+      if (!fallback.vision && sendsImages) {
+        return `Fallback model ${fallback.name} does not accept images`;
+      }
+    }
+  }
+
+  // Validate numeric parameters
+  const numericValidations = [
+    { field: 'temperature', value: temperature, min: 0, max: 2 },
+    { field: 'maxTokens', value: maxTokens, min: 1, max: selectedModel.maxOutputTokens },
+    { field: 'presencePenalty', value: presencePenalty, min: -2, max: 2 },
+    { field: 'frequencyPenalty', value: frequencyPenalty, min: -2, max: 2 },
+    { field: 'topP', value: topP, min: 0, max: 1 },
+    { field: 'seed', value: seed, min: Number.MIN_SAFE_INTEGER, max: Number.MAX_SAFE_INTEGER, integer: true },
+    { field: 'n', value: n, min: 1, max: MAX_CHOICES, integer: true },
+    { field: 'topLogprobs', value: topLogprobs, min: 0, max: MAX_TOP_LOGPROBS, integer: true }
+  ];
+
+  for (const validation of numericValidations) {
+    if (validation.value !== undefined) {
+      if (typeof validation.value !== 'number' ||
+          validation.value < validation.min ||
+          validation.value > validation.max) {
+        return `${validation.field} must be a number between ${validation.min} and ${validation.max}`;
+      }
+
+      if (validation.integer && !Number.isInteger(validation.value)) {
+        return `${validation.field} must be an integer`;
+      }
+    }
+  }
+
+  if (logprobs !== undefined && typeof logprobs !== 'boolean') {
+    return 'logprobs must be a boolean';
+  }
+
+  if (topLogprobs !== undefined && !logprobs) {
+    return 'topLogprobs requires logprobs to be enabled';
+  }
+
+  // Logit bias maps token IDs to a bias between -100 (ban) and 100 (force)
+  if (logitBias !== undefined) {
+    if (!logitBias || typeof logitBias !== 'object' || Array.isArray(logitBias)) {
+      return 'logitBias must be an object of token ID to bias';
+    }
+
+    const entries = Object.entries(logitBias);
+    if (entries.length > MAX_LOGIT_BIAS_ENTRIES) {
+      return `logitBias may have at most ${MAX_LOGIT_BIAS_ENTRIES} entries`;
+    }
+
+    for (const [token, bias] of entries) {
+      if (!/^\d+$/.test(token)) {
+        return `logitBias keys must be token IDs (got "${token}")`;
+      }
+
+      if (typeof bias !== 'number' || bias < -100 || bias > 100) {
+        return `logitBias for token ${token} must be a number between -100 and 100`;
+      }
+    }
+  }
+
+  // Validate stop sequence
+  if (stopSequence && typeof stopSequence !== 'string') {
+    return 'Stop sequence must be a string';
+  }
+
+  return validateStructuredParams(params);
+};
+
+// Build the OpenAI chat completion request from validated parameters
+export const buildRequestBody = (params) => {
+  const {
+    provider,
+    model,
+    temperature,
+    maxTokens,
+    presencePenalty,
+    frequencyPenalty,
+    stopSequence,
+    topP,
+    seed,
+    n,
+    logitBias,
+    logprobs,
+    topLogprobs,
+    responseFormat,
+    jsonSchema,
+    tools,
+    toolChoice
+  } = params;
+
+  // Prepare messages array
+  const messages = normalizeMessages(params).map(({ role, content, attachments }) => ({
+    role,
+    content: toMessageContent(content.trim(), attachments)
+  }));
+
+  // Prepare stop sequences with validation
+  let stop = null;
+  if (stopSequence && stopSequence.trim()) {
+    stop = stopSequence
+      .split(',')
+      .map(s => s.trim())
+      .filter(s => s.length > 0 && s.length <= 100) // Limit individual stop sequence length
+      .slice(0, 4); // Limit to 4 stop sequences
+
+    if (stop.length === 0) {
+      stop = null;
+    }
+  }
+
+  const { models } = getProvider(provider);
+  const selectedModel = models.find(({ id }) => id === model) || models[0];
+
+  // Prepare OpenAI API request with safe defaults
+  const requestBody = {
+    model: selectedModel.id,
+    messages,
+    temperature: Math.max(0, Math.min(2, temperature ?? 0.7)),
+    max_tokens: Math.max(1, Math.min(selectedModel.maxOutputTokens, maxTokens ?? 1000)),
+    presence_penalty: Math.max(-2, Math.min(2, presencePenalty ?? 0)),
+    frequency_penalty: Math.max(-2, Math.min(2, frequencyPenalty ?? 0)),
+  };
+
+  if (stop) {
+    requestBody.stop = stop;
+  }
+
+  // Optional sampling controls are only sent when set, so providers that lack them still work
+  if (topP !== undefined) {
+    requestBody.top_p = Math.max(0, Math.min(1, topP));
+  }
+
+  if (seed !== undefined) {
+    requestBody.seed = seed;
+  }
+
+  if (n > 1) {
+    requestBody.n = n;
+  }
+
+  if (logitBias && Object.keys(logitBias).length > 0) {
+    requestBody.logit_bias = logitBias;
+  }
+
+  if (logprobs) {
+    requestBody.logprobs = true;
+    if (topLogprobs !== undefined) {
+      requestBody.top_logprobs = topLogprobs;
+    }
+  }
+
+  if (responseFormat === 'json_object') {
+    requestBody.response_format = { type: 'json_object' };
+  } else if (responseFormat === 'json_schema') {
+    requestBody.response_format = {
+      type: 'json_schema',
+      json_schema: {
+        name: jsonSchema.name || 'response',
+        schema: jsonSchema.schema,
+        ...(jsonSchema.strict !== undefined && { strict: jsonSchema.strict })
+      }
+    };
+  }
+
+  if (tools?.length > 0) {
+    requestBody.tools = tools.map(({ name, description, parameters }) => ({
+      type: 'function',
+      function: {
+        name,
+        ...(description && { description }),
+        parameters: parameters || { type: 'object', properties: {} }
+      }
+    }));
+
+    if (toolChoice) {
+      requestBody.tool_choice = toolChoice;
+    }
+  }
+
+  return requestBody;
+};
+
+// The request followed by one per fallback model, each with max_tokens
+// clamped to what that model can produce
+export const buildRequestChain = (params, requestBody) => {
+  const { models } = getProvider(params.provider);
+
+  return [
+    requestBody,
+    ...(params.fallbackModels || []).map((id) => {
+      const fallback = models.find((model) => model.id === id);
+      return {
+        ...requestBody,
+        model: fallback.id,
+        max_tokens: Math.min(requestBody.max_tokens, fallback.maxOutputTokens)
+      };
+    })
+  ];
+};
+
+const parseJson = (text) => {
+  try {
+    return { value: JSON.parse(stripCodeFence(text)) };
+  } catch (error) {
+    return { error: error.message };
+  }
+};
+
+const describeSchemaErrors = (validate, dataVar) =>
+  ajv.errorsText(validate.errors, { dataVar, separator: '; ' });
+
+// Check a completion against the JSON mode, schema or tool definitions it was
+// requested with. Returns an error message, or null when the output conforms.
+export const validateStructuredOutput = (requestBody, { content, toolCalls = [] }) => {
+  for (const call of toolCalls) {
+    const tool = requestBody.tools?.find(({ function: fn }) => fn.name === call.name);
+    if (!tool) {
+      return `The model called an unknown tool: ${call.name}`;
+    }
+
+    const args = parseJson(call.arguments || '{}');
+    if (args.error) {
+      return `Arguments for ${call.name} are not valid JSON: ${args.error}`;
+    }
+
+    const validate = compileSchema(tool.function.parameters);
+    if (!validate(args.value)) {
+      return `Arguments for ${call.name} do not match its parameters: ${describeSchemaErrors(validate, 'arguments')}`;
+    }
+  }
+
+  const format = requestBody.response_format;
+  // A reply that only calls tools has no content to check
+  if (!format || (toolCalls.length > 0 && !content)) {
+    return null;
+  }
+
+  const output = parseJson(content);
+  if (output.error) {
+    return `Output is not valid JSON: ${output.error}`;
+  }
+
+  if (format.type === 'json_schema') {
+    const validate = compileSchema(format.json_schema.schema);
+    if (!validate(output.value)) {
+      return `Output does not match the JSON schema: ${describeSchemaErrors(validate, 'output')}`;
+    }
+  }
+
+  return null;
+};
+
+export const structuredOutputError = (message) => ({
+  status: 422,
+  body: { error: message, type: 'structured_output_invalid' }
+});
+
+// Map upstream errors to sanitized client responses
+export const classifyError = (error) => {
+  if (error.code === 'insufficient_quota') {
+    return {
+      status: 402,
+      body: { error: 'API quota exceeded. Please check your billing details.', type: 'quota_exceeded' }
+    };
+  }
+
+  if (error.code === 'missing_api_key') {
+    return {
+      status: 401,
+      body: { error: 'This provider needs your own key. Add it under Account to use it.', type: 'missing_key' }
+    };
+  }
+
+  if (error.code === 'invalid_api_key') {
+    return {
+      status: 401,
+      body: { error: 'Invalid API key configuration.', type: 'invalid_key' }
+    };
+  }
+
+  if (error.code === 'model_not_found' || error.status === 404) {
+    return {
+      status: 400,
+      body: { error: 'The specified model is not available.', type: 'model_not_found' }
+    };
+  }
+
+  if (error.code === 'rate_limit_exceeded' || error.status === 429) {
+    return {
+      status: 429,
+      body: { error: 'Rate limit exceeded. Please try again later.', type: 'rate_limit' }
+    };
+  }
+
+  if (error.name === 'AbortError' || error instanceof OpenAI.APIUserAbortError || error instanceof OpenAI.APIConnectionTimeoutError) {
+    return {
+      status: 408,
+      body: { error: 'Request timeout. Please try again.', type: 'timeout' }
+    };
+  }
+
+  // The provider is down, overloaded or unreachable; worth retrying later
+  if (error.status >= 500 || error.code === 'model_overloaded' || error instanceof OpenAI.APIConnectionError) {
+    return {
+      status: 502,
+      body: { error: 'The model provider is temporarily unavailable. Please try again.', type: 'upstream_error' }
+    };
+  }
+
+  // Generic error handling - don't expose internal details
+  return {
+    status: 500,
+    body: { error: 'An error occurred while processing your request', type: 'server_error' }
+  };
+};
+
+// Settings recorded with every run, in the same shape the UI controls use.
+// Conversation runs also keep their transcript (without the system message).
+// Attachments are recorded as summaries with thumbnails, not their data.
+export const toRunSettings = (params, requestBody) => {
+  const messages = normalizeMessages(params);
+  const systemMessage = messages[0].role === 'system' ? messages[0] : null;
+  const turns = systemMessage ? messages.slice(1) : messages;
+  const lastTurn = turns[turns.length - 1];
+
+  return {
+    systemPrompt: systemMessage?.content || '',
+    userPrompt: lastTurn.content,
+    ...(lastTurn.attachments?.length > 0 && { attachments: lastTurn.attachments.map(summarizeAttachment) }),
+    provider: getProvider(params.provider).id,
+    ...(params.messages !== undefined && {
+      messages: turns.map(({ role, content, attachments }) => ({
+        role,
+        content,
+        ...(attachments?.length > 0 && { attachments: attachments.map(summarizeAttachment) })
+      }))
+    }),
+    model: requestBody.model,
+    temperature: requestBody.temperature,
+    maxTokens: requestBody.max_tokens,
+    presencePenalty: requestBody.presence_penalty,
+    frequencyPenalty: requestBody.frequency_penalty,
+    stopSequence: params.stopSequence || '',
+    ...(requestBody.top_p !== undefined && { topP: requestBody.top_p }),
+    ...(requestBody.seed !== undefined && { seed: requestBody.seed }),
+    ...(requestBody.n !== undefined && { n: requestBody.n }),
+    ...(requestBody.logit_bias && { logitBias: requestBody.logit_bias }),
+    ...(requestBody.logprobs && { logprobs: true, topLogprobs: requestBody.top_logprobs }),
+    ...(params.responseFormat && params.responseFormat !== 'text' && { responseFormat: params.responseFormat }),
+    ...(params.responseFormat === 'json_schema' && { jsonSchema: params.jsonSchema }),
+    ...(params.tools?.length > 0 && { tools: params.tools, toolChoice: params.toolChoice }),
+    ...(params.fallbackModels?.length > 0 && { fallbackModels: params.fallbackModels })
+  };
+};
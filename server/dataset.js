@@ -0,0 +1,200 @@
+import {
+  validateChatParams,
+  buildRequestBody,
+  buildRequestChain,
+  classifyError,
+  validateStructuredOutput,
+  structuredOutputError
+} from './chat.js';
+import { getProvider } from './providers/index.js';
+import { calculateCost } from './catalog.js';
+import { applyInputGuardrails, applyOutputGuardrails, guardrailError } from './guardrails.js';
+import { createAttemptSignal, withRetries } from './retry.js';
+import { checkRunLimits, recordSpend } from './spend.js';
+import { extractVariables, renderTemplate } from './template.js';
+
+export const MAX_DATASET_ROWS = 500;
+const MAX_CONCURRENCY = 5;
+const DEFAULT_CONCURRENCY = 3;
+const ROW_TIMEOUT_MS = 30000;
+
+// Validate a dataset run: the template and shared parameters are checked once,
+// row values are checked for shape. Returns an error message or null.
+export const validateDatasetParams = (params) => {
+  const { rows, concurrency, messages } = params;
+
+  if (messages !== undefined) {
+    return 'Dataset runs take a systemPrompt/userPrompt template, not messages';
+  }
+
+  if (!Array.isArray(rows) || rows.length === 0 || rows.length > MAX_DATASET_ROWS) {
+    return `Rows must be an array of 1 to ${MAX_DATASET_ROWS} entries`;
+  }
+
+  for (const [index, row] of rows.entries()) {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      return `Row ${index + 1} must be an object of variable values`;
+    }
+
+    if (Object.values(row).some((value) => typeof value !== 'string')) {
+      return `Row ${index + 1}: variable values must be strings`;
+    }
+  }
+
+  if (concurrency !== undefined &&
+      (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY)) {
+    return `concurrency must be an integer between 1 and ${MAX_CONCURRENCY}`;
+  }
+
+  return validateChatParams(params);
+};
+
+// Run one completion, retrying transient errors and falling back to the
+// request's fallback models, then apply the output guardrails. `guardrails` are
+// the input findings for `params`, reported along with the output ones. Never
+// throws: failures come back as `{ success: false, error, type }`.
+export const completeWithRetries = async (params, { signal, user, guardrails: inputFindings = [] }) => {
+  const startedAt = Date.now();
+  const provider = getProvider(params.provider, user);
+  const requestBody = buildRequestBody(params);
+
+  try {
+    const { value: completion, requestBody: answeredBody, attempts } = await withRetries(
+      buildRequestChain(params, requestBody),
+      async (attemptBody) => {
+        // Each attempt gets its own timeout but is also cancelled with the whole run
+        const attemptSignal = createAttemptSignal(signal, ROW_TIMEOUT_MS);
+        try {
+          return await provider.complete(attemptBody, { signal: attemptSignal.signal });
+        } finally {
+          attemptSignal.clear();
+        }
+      },
+      { signal, log: { provider: provider.id, userId: user.id } }
+    );
+
+    const cost = calculateCost(provider.id, [completion.model, answeredBody.model], completion.usage);
+    await recordSpend(cost, { userId: user.id, tokens: completion.usage?.total_tokens });
+
+    const emptyReply = completion.toolCalls?.length > 0 ? '' : 'No response generated';
+    const structureError = validateStructuredOutput(answeredBody, {
+      content: completion.content || emptyReply,
+      toolCalls: completion.toolCalls || []
+    });
+
+    // A blocked reply is withheld, tool calls included
+    const guarded = await applyOutputGuardrails([completion.content || ''], {
+      user,
+      signal,
+      log: { provider: provider.id, userId: user.id }
+    });
+    const guardrails = [...inputFindings, ...guarded.findings];
+    const failure = guarded.blocked
+      ? guardrailError(guardrails)
+      : structureError ? structuredOutputError(structureError) : null;
+
+    return {
+      success: !failure,
+      ...failure?.body,
+      content: guarded.blocked ? '' : guarded.texts[0] || emptyReply,
+      toolCalls: guarded.blocked ? [] : completion.toolCalls || [],
+      usage: completion.usage,
+      cost,
+      model: completion.model,
+      finishReason: completion.finishReason,
+      attempts,
+      ...(answeredBody !== requestBody && { fallbackFrom: requestBody.model }),
+      ...(guardrails.length > 0 && { guardrails }),
+      latencyMs: Date.now() - startedAt
+    };
+  } catch (error) {
+    return {
+      success: false,
+      ...classifyError(error).body,
+      attempts: error.attempts ?? 1,
+      ...(inputFindings.length > 0 && { guardrails: inputFindings }),
+      latencyMs: Date.now() - startedAt
+    };
+  }
+};
+
+// Run `runItem` for indexes 0..count-1 with at most `concurrency` in flight,
+// reporting each result through `onResult` as soon as it settles. The spending
+// caps and `user`'s token quota are checked before each item; once one is
+// reached no more items start, and `stopped` holds its error body.
+export const runConcurrently = async (count, concurrency, { signal, user, runItem, onResult }) => {
+  const results = new Array(count);
+  let nextIndex = 0;
+  let stopped = null;
+
+  const worker = async () => {
+    while (nextIndex < count && !signal.aborted && !stopped) {
+      const limitError = await checkRunLimits(user);
+      if (limitError) {
+        stopped ??= limitError.body;
+        break;
+      }
+      // Another worker may have taken the last item, or hit a limit, during the check
+      if (nextIndex >= count || stopped) {
+        break;
+      }
+
+      const index = nextIndex++;
+      const result = await runItem(index);
+      results[index] = result;
+      onResult(result);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, count) }, worker));
+  return { results, stopped };
+};
+
+// Run a single row through the prompt template
+const runRow = async (params, row, index, { signal, user }) => {
+  const { systemPrompt = '', userPrompt } = params;
+
+  const unbound = extractVariables([systemPrompt, userPrompt]).filter((name) => !row[name]?.trim());
+  if (unbound.length > 0) {
+    return {
+      index,
+      success: false,
+      error: `Missing values for: ${unbound.join(', ')}`,
+      type: 'validation_error',
+      attempts: 0,
+      latencyMs: 0
+    };
+  }
+
+  const rendered = {
+    ...params,
+    systemPrompt: renderTemplate(systemPrompt, row),
+    userPrompt: renderTemplate(userPrompt, row)
+  };
+
+  const validationError = validateChatParams(rendered);
+  if (validationError) {
+    return { index, success: false, error: validationError, type: 'validation_error', attempts: 0, latencyMs: 0 };
+  }
+
+  // Guardrails run on each rendered row, since the PII is usually in the row values
+  const { params: rowParams, findings, blocked } = applyInputGuardrails(rendered, { log: { userId: user.id, row: index } });
+  if (blocked) {
+    return { index, success: false, ...guardrailError(findings).body, attempts: 0, latencyMs: 0 };
+  }
+
+  return { index, ...(await completeWithRetries(rowParams, { signal, user, guardrails: findings })) };
+};
+
+// Run every row through the prompt template with at most `concurrency` rows in
+// flight, reporting each result through `onResult` as soon as it settles
+export const runDataset = async (params, { signal, onResult, user }) => {
+  const { rows, concurrency = DEFAULT_CONCURRENCY } = params;
+
+  return runConcurrently(rows.length, concurrency, {
+    signal,
+    user,
+    runItem: (index) => runRow(params, rows[index], index, { signal, user }),
+    onResult
+  });
+};
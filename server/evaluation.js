@@ -0,0 +1,233 @@
+import { validateChatParams, buildRequestBody, classifyError } from './chat.js';
+import { getProvider } from './providers/index.js';
+import { calculateCost } from './catalog.js';
+import { applyInputGuardrails, guardrailError } from './guardrails.js';
+import { REGEX_TIMEOUT_MS, testRegexes } from './regex.js';
+import { recordSpend } from './spend.js';
+import { ajv, checkSchema, compileSchema, stripCodeFence } from './schema.js';
+
+const MAX_ASSERTIONS = 20;
+const MAX_VALUE_LENGTH = 10000;
+const JUDGE_TIMEOUT_MS = 30000;
+const DEFAULT_JUDGE_THRESHOLD = 7;
+
+export const assertionTypes = ['contains', 'not_contains', 'regex', 'json_schema', 'max_length', 'equals', 'llm_judge'];
+
+// Returns an error message, or null when every assertion is well formed.
+// Judge models are checked against `models` when given.
+export const validateAssertions = (assertions, { models } = {}) => {
+  if (!Array.isArray(assertions) || assertions.length > MAX_ASSERTIONS) {
+    return `Assertions must be an array of at most ${MAX_ASSERTIONS} entries`;
+  }
+
+  for (const [index, assertion] of assertions.entries()) {
+    const prefix = `Assertion ${index + 1}`;
+
+    if (!assertion || typeof assertion !== 'object' || !assertionTypes.includes(assertion.type)) {
+      return `${prefix} must have a type of ${assertionTypes.join(', ')}`;
+    }
+
+    const { type, value, model, threshold } = assertion;
+
+    if (assertion.id !== undefined && typeof assertion.id !== 'string') {
+      return `${prefix}: id must be a string`;
+    }
+
+    if (typeof value !== 'string' || !value.trim() || value.length > MAX_VALUE_LENGTH) {
+      return `${prefix}: value must be a non-empty string with max ${MAX_VALUE_LENGTH} characters`;
+    }
+
+    if (type === 'regex') {
+      try {
+        new RegExp(value);
+      } catch {
+        return `${prefix}: invalid regular expression`;
+      }
+    }
+
+    if (type === 'json_schema') {
+      let schema;
+      try {
+        schema = JSON.parse(value);
+      } catch {
+        return `${prefix}: schema must be valid JSON`;
+      }
+
+      const schemaError = checkSchema(schema);
+      if (schemaError) {
+        return `${prefix}: invalid JSON schema (${schemaError})`;
+      }
+    }
+
+    if (type === 'max_length' && !(Number.isInteger(Number(value)) && Number(value) > 0)) {
+      return `${prefix}: max length must be a positive integer`;
+    }
+
+    if (type === 'llm_judge') {
+      if (model !== undefined && (typeof model !== 'string' || (models && !models.some(({ id }) => id === model)))) {
+        return `${prefix}: invalid judge model specified`;
+      }
+
+      if (threshold !== undefined &&
+          (typeof threshold !== 'number' || threshold < 1 || threshold > 10)) {
+        return `${prefix}: threshold must be a number between 1 and 10`;
+      }
+    }
+  }
+
+  return null;
+};
+
+const judgeSystemPrompt = [
+  'You are a strict evaluator of AI assistant responses.',
+  'Grade the response against the rubric on a scale from 1 (fails completely) to 10 (fully satisfies it).',
+  'Reply with only a JSON object of the form {"score": <1-10>, "reason": "<one sentence>"}.'
+].join(' ');
+
+// Ask a model to grade the output against a free-text rubric
+const runJudge = async (output, assertion, { provider, model, prompt, signal, user }) => {
+  const judgeParams = {
+    provider,
+    model: assertion.model || model,
+    systemPrompt: judgeSystemPrompt,
+    userPrompt: [
+      `Rubric:\n${assertion.value}`,
+      prompt ? `Task given to the assistant:\n${prompt}` : null,
+      `Response to grade:\n${output}`
+    ].filter(Boolean).join('\n\n'),
+    temperature: 0,
+    maxTokens: 300
+  };
+
+  const validationError = validateChatParams(judgeParams);
+  if (validationError) {
+    return { passed: false, message: `Judge not run: ${validationError}`, cost: null };
+  }
+
+  // The prompt and output reach the judge's provider, so they pass the same input rules as /api/chat
+  const { params, findings, blocked } = applyInputGuardrails(judgeParams, { log: { userId: user.id } });
+  if (blocked) {
+    return { passed: false, message: `Judge not run: ${guardrailError(findings).body.error}`, cost: null };
+  }
+
+  const judgeProvider = getProvider(provider, user);
+  const requestBody = buildRequestBody(params);
+
+  const judgeController = new AbortController();
+  const abortJudge = () => judgeController.abort(signal.reason);
+  signal.addEventListener('abort', abortJudge);
+  const timeoutId = setTimeout(() => judgeController.abort(new DOMException('The judge timed out', 'TimeoutError')), JUDGE_TIMEOUT_MS);
+
+  try {
+    const completion = await judgeProvider.complete(requestBody, { signal: judgeController.signal });
+    const cost = calculateCost(judgeProvider.id, [completion.model, requestBody.model], completion.usage);
+    await recordSpend(cost, { userId: user.id, tokens: completion.usage?.total_tokens });
+
+    const verdict = completion.content?.match(/\{[\s\S]*\}/)?.[0];
+    let parsed = null;
+    try {
+      parsed = verdict ? JSON.parse(verdict) : null;
+    } catch {
+      parsed = null;
+    }
+
+    const score = Number(parsed?.score);
+    if (!Number.isFinite(score)) {
+      return { passed: false, message: 'Judge reply did not contain a score', cost };
+    }
+
+    const threshold = assertion.threshold ?? DEFAULT_JUDGE_THRESHOLD;
+    const reason = typeof parsed.reason === 'string' ? ` – ${parsed.reason}` : '';
+    return {
+      passed: score >= threshold,
+      score,
+      message: `Scored ${score}/10 (needs ${threshold})${reason}`,
+      cost
+    };
+  } catch (error) {
+    return { passed: false, message: `Judge failed: ${classifyError(error).body.error}`, cost: null };
+  } finally {
+    clearTimeout(timeoutId);
+    signal.removeEventListener('abort', abortJudge);
+  }
+};
+
+// `matched` is the regex assertion's result from testRegexes
+const checkAssertion = (output, { type, value }, matched) => {
+  switch (type) {
+    case 'contains':
+      return output.includes(value)
+        ? { passed: true, message: `Contains "${value}"` }
+        : { passed: false, message: `Does not contain "${value}"` };
+
+    case 'not_contains':
+      return output.includes(value)
+        ? { passed: false, message: `Contains "${value}"` }
+        : { passed: true, message: `Does not contain "${value}"` };
+
+    case 'regex': {
+      if (matched === null) {
+        return { passed: false, message: `Gave up on /${value}/ after ${REGEX_TIMEOUT_MS / 1000}s` };
+      }
+      return matched
+        ? { passed: true, message: `Matches /${value}/` }
+        : { passed: false, message: `Does not match /${value}/` };
+    }
+
+    case 'max_length': {
+      const limit = Number(value);
+      return {
+        passed: output.length <= limit,
+        message: `${output.length} of max ${limit} characters`
+      };
+    }
+
+    case 'equals':
+      return output.trim() === value.trim()
+        ? { passed: true, message: 'Matches the expected output' }
+        : { passed: false, message: 'Differs from the expected output' };
+
+    case 'json_schema': {
+      let data;
+      try {
+        data = JSON.parse(stripCodeFence(output));
+      } catch {
+        return { passed: false, message: 'Output is not valid JSON' };
+      }
+
+      const validate = compileSchema(JSON.parse(value));
+      return validate(data)
+        ? { passed: true, message: 'Valid against the schema' }
+        : { passed: false, message: ajv.errorsText(validate.errors, { dataVar: 'output' }) };
+    }
+  }
+};
+
+// Evaluate an output against every assertion. LLM judges run in parallel and
+// use the same provider path as /api/chat.
+export const evaluateOutput = async ({ output, assertions, provider, model, prompt }, { signal, user }) => {
+  // Every regex of the evaluation is tested in a single worker
+  const regexAssertions = assertions.filter(({ type }) => type === 'regex');
+  const regexMatches = regexAssertions.length > 0
+    ? await testRegexes(regexAssertions.map(({ value }) => value), output)
+    : [];
+  const matchedBy = new Map(regexAssertions.map((assertion, index) => [assertion, regexMatches[index]]));
+
+  const results = await Promise.all(assertions.map(async (assertion) => {
+    const result = assertion.type === 'llm_judge'
+      ? await runJudge(output, assertion, { provider, model, prompt, signal, user })
+      : checkAssertion(output, assertion, matchedBy.get(assertion));
+    return { id: assertion.id, type: assertion.type, ...result };
+  }));
+
+  const passed = results.filter(result => result.passed).length;
+  const judgeCosts = results.map(result => result.cost).filter(cost => cost != null);
+
+  return {
+    results,
+    passed,
+    total: results.length,
+    score: results.length > 0 ? passed / results.length : null,
+    cost: judgeCosts.length > 0 ? judgeCosts.reduce((total, cost) => total + cost, 0) : null
+  };
+};
@@ -0,0 +1,307 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { decodeText } from './attachments.js';
+import { logger } from './logger.js';
+import { getProvider } from './providers/index.js';
+
+// Guardrails scan prompts before they reach a provider and replies before they
+// reach the client. Each rule matches with a built-in PII detector, a regex or
+// a keyword list, and then redacts the match, blocks the request or only flags
+// it. Replies can also be sent to a provider's moderation endpoint.
+const guardrailsFile = process.env.GUARDRAILS_FILE
+  || path.join(path.dirname(fileURLToPath(import.meta.url)), 'guardrails.json');
+
+const actions = ['redact', 'block', 'flag'];
+const stages = ['input', 'output'];
+const regexFlags = /^[imsu]*$/;
+
+const digitCount = (text) => text.replace(/\D/g, '').length;
+
+// Card numbers carry a Luhn check digit, which rules out most other long numbers
+const passesLuhn = (text) => {
+  const digits = text.replace(/\D/g, '');
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Local detectors; `accept` weeds out matches the pattern alone can't
+const detectors = {
+  email: {
+    name: 'Email address',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g
+  },
+  // Only numbers written like phone numbers: an international `+` prefix, an area
+  // code in brackets, or 3-3-4 digits split by dashes or dots. Plain runs of
+  // space-separated numbers ("100 200 300") are left alone.
+  phone: {
+    name: 'Phone number',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?(?:\(\d{1,4}\)[\s.-]?)?\d{1,4}(?:[\s.-]?\d{2,4}){1,4}|\(\d{2,4}\)[\s.-]?\d{3,4}[\s.-]?\d{3,4}|\d{3}([-.])\d{3}\1\d{4})(?![\w-])/g,
+    accept: (match) => digitCount(match) >= 9 && digitCount(match) <= 15
+  },
+  credit_card: {
+    name: 'Card number',
+    pattern: /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g,
+    accept: (match) => digitCount(match) >= 13 && passesLuhn(match)
+  },
+  api_key: {
+    name: 'API key',
+    pattern: /\b(?:sk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})/g
+  }
+};
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isNonEmptyString = (value) => typeof value === 'string' && value.length > 0;
+
+const normalizeRule = (rule, index) => {
+  if (!rule || !isNonEmptyString(rule.id)) {
+    throw new Error(`Rule ${index + 1} needs a string id`);
+  }
+
+  if (!actions.includes(rule.action)) {
+    throw new Error(`Rule ${rule.id}: action must be one of ${actions.join(', ')}`);
+  }
+
+  const appliesTo = rule.appliesTo ?? stages;
+  if (!Array.isArray(appliesTo) || appliesTo.length === 0 || appliesTo.some((stage) => !stages.includes(stage))) {
+    throw new Error(`Rule ${rule.id}: appliesTo must list input and/or output`);
+  }
+
+  const matchers = [rule.detector, rule.pattern, rule.keywords].filter((matcher) => matcher !== undefined);
+  if (matchers.length !== 1) {
+    throw new Error(`Rule ${rule.id} needs exactly one of detector, pattern or keywords`);
+  }
+
+  let matcher;
+  if (rule.detector !== undefined) {
+    const detector = detectors[rule.detector];
+    if (!detector) {
+      throw new Error(`Rule ${rule.id}: detector must be one of ${Object.keys(detectors).join(', ')}`);
+    }
+    matcher = { name: detector.name, regex: detector.pattern, accept: detector.accept };
+  } else if (rule.pattern !== undefined) {
+    if (!isNonEmptyString(rule.pattern) || (rule.flags !== undefined && !regexFlags.test(rule.flags))) {
+      throw new Error(`Rule ${rule.id}: pattern must be a regex string, with flags from i, m, s and u`);
+    }
+    matcher = { regex: new RegExp(rule.pattern, `${rule.flags ?? ''}g`) };
+  } else {
+    if (!Array.isArray(rule.keywords) || rule.keywords.length === 0 || !rule.keywords.every(isNonEmptyString)) {
+      throw new Error(`Rule ${rule.id}: keywords must be a non-empty array of strings`);
+    }
+    // Whole words, case-insensitive
+    matcher = { regex: new RegExp(`(?<!\\w)(?:${rule.keywords.map(escapeRegExp).join('|')})(?!\\w)`, 'gi') };
+  }
+
+  if (rule.name !== undefined && !isNonEmptyString(rule.name)) {
+    throw new Error(`Rule ${rule.id}: name must be a string`);
+  }
+
+  if (rule.replacement !== undefined && typeof rule.replacement !== 'string') {
+    throw new Error(`Rule ${rule.id}: replacement must be a string`);
+  }
+
+  return {
+    id: rule.id,
+    name: rule.name ?? matcher.name ?? rule.id,
+    action: rule.action,
+    stages: appliesTo,
+    replacement: rule.replacement ?? `[REDACTED:${rule.id}]`,
+    regex: matcher.regex,
+    accept: matcher.accept
+  };
+};
+
+const normalizeModeration = (moderation) => {
+  if (!moderation?.enabled) {
+    return null;
+  }
+
+  if (!isNonEmptyString(moderation.provider)) {
+    throw new Error('Moderation needs a provider id');
+  }
+
+  const action = moderation.action ?? 'flag';
+  if (!['block', 'flag'].includes(action)) {
+    throw new Error('Moderation action must be block or flag');
+  }
+
+  return { provider: moderation.provider, action };
+};
+
+const loadGuardrails = () => {
+  try {
+    const { rules = [], moderation } = JSON.parse(fs.readFileSync(guardrailsFile, 'utf8'));
+    if (!Array.isArray(rules)) {
+      throw new Error('Expected a "rules" array');
+    }
+
+    const normalized = rules.map(normalizeRule);
+    const duplicate = normalized.find((rule, index) => normalized.findIndex(({ id }) => id === rule.id) !== index);
+    if (duplicate) {
+      throw new Error(`Rule ids must be unique (${duplicate.id} is repeated)`);
+    }
+
+    return { rules: normalized, moderation: normalizeModeration(moderation) };
+  } catch (error) {
+    logger.error('Failed to load guardrails', {
+      message: error.message,
+      file: guardrailsFile
+    });
+    process.exit(1);
+  }
+};
+
+const config = loadGuardrails();
+
+// Streamed text can't be taken back, so replies are sent whole while an output
+// rule or moderation may redact or block them
+export const canStreamOutput =
+  !config.rules.some((rule) => rule.stages.includes('output') && rule.action !== 'flag') &&
+  config.moderation?.action !== 'block';
+
+if (!canStreamOutput) {
+  logger.warn('Streaming is turned off: output guardrails can redact or block replies', { file: guardrailsFile });
+}
+
+// Applies every rule for `stage` to one text, returning it redacted with a
+// finding per rule that matched
+const scanText = (text, stage) => {
+  let scanned = text;
+  const findings = [];
+
+  for (const rule of config.rules.filter(({ stages }) => stages.includes(stage))) {
+    let count = 0;
+    scanned = scanned.replace(rule.regex, (match) => {
+      if (rule.accept && !rule.accept(match)) {
+        return match;
+      }
+      count++;
+      return rule.action === 'redact' ? rule.replacement : match;
+    });
+
+    if (count > 0) {
+      findings.push({ rule: rule.id, name: rule.name, stage, action: rule.action, count });
+    }
+  }
+
+  return { text: scanned, findings };
+};
+
+// One finding per rule, counts added up across texts
+const mergeFindings = (findings) => {
+  const merged = new Map();
+  for (const finding of findings) {
+    const existing = merged.get(finding.rule);
+    merged.set(finding.rule, existing ? { ...existing, count: existing.count + finding.count } : finding);
+  }
+  return [...merged.values()];
+};
+
+const logFindings = (findings, stage, log) => {
+  if (findings.length > 0) {
+    logger.info('Guardrails triggered', {
+      stage,
+      rules: findings.map(({ rule, action }) => `${rule}:${action}`),
+      ...log
+    });
+  }
+};
+
+// Scans the system prompt, user prompt, messages and text attachments of a
+// request. Returns the parameters with matches redacted, what fired, and
+// whether a blocking rule did.
+export const applyInputGuardrails = (params, { log = {} } = {}) => {
+  const collected = [];
+  const scan = (text) => {
+    const { text: scanned, findings } = scanText(text, 'input');
+    collected.push(...findings);
+    return scanned;
+  };
+
+  const scanAttachments = (attachments) => attachments.map((attachment) => {
+    if (attachment.type !== 'file') {
+      return attachment;
+    }
+    const text = scan(decodeText(attachment));
+    return { ...attachment, data: Buffer.from(text, 'utf8').toString('base64'), size: Buffer.byteLength(text, 'utf8') };
+  });
+
+  const scanned = {
+    ...params,
+    ...(typeof params.systemPrompt === 'string' && { systemPrompt: scan(params.systemPrompt) }),
+    ...(typeof params.userPrompt === 'string' && { userPrompt: scan(params.userPrompt) }),
+    ...(Array.isArray(params.attachments) && { attachments: scanAttachments(params.attachments) }),
+    ...(Array.isArray(params.messages) && {
+      messages: params.messages.map((message) => ({
+        ...message,
+        content: scan(message.content),
+        ...(Array.isArray(message.attachments) && { attachments: scanAttachments(message.attachments) })
+      }))
+    })
+  };
+
+  const findings = mergeFindings(collected);
+  logFindings(findings, 'input', log);
+  return { params: scanned, findings, blocked: findings.some(({ action }) => action === 'block') };
+};
+
+// Fails open: a moderation outage shouldn't stop every run, so errors are only logged
+const moderate = async (texts, { user, signal, log }) => {
+  const input = texts.filter(Boolean);
+  if (!config.moderation || input.length === 0) {
+    return null;
+  }
+
+  const provider = getProvider(config.moderation.provider, user);
+  if (!provider?.moderate) {
+    logger.warn('Moderation provider is not available; reply was not moderated', { provider: config.moderation.provider, ...log });
+    return null;
+  }
+
+  try {
+    const { flagged, categories } = await provider.moderate(input, { signal });
+    return flagged
+      ? { rule: 'moderation', name: 'Moderation', stage: 'output', action: config.moderation.action, categories }
+      : null;
+  } catch (error) {
+    logger.warn('Moderation failed; reply was not moderated', { provider: provider.id, message: error.message, ...log });
+    return null;
+  }
+};
+
+// Scans the reply (every choice, when there are several) and moderates it.
+// Resolves with the texts redacted, what fired, and whether a blocking rule did.
+export const applyOutputGuardrails = async (texts, { user, signal, log = {} }) => {
+  const results = texts.map((text) => scanText(text, 'output'));
+  const moderation = await moderate(texts, { user, signal, log });
+  const findings = [...mergeFindings(results.flatMap(({ findings }) => findings)), ...(moderation ? [moderation] : [])];
+
+  logFindings(findings, 'output', log);
+  return {
+    texts: results.map(({ text }) => text),
+    findings,
+    blocked: findings.some(({ action }) => action === 'block')
+  };
+};
+
+export const guardrailError = (findings) => {
+  const blocking = findings.filter(({ action }) => action === 'block');
+  const subject = blocking[0].stage === 'input' ? 'The prompt' : 'The reply';
+  return {
+    status: 422,
+    body: {
+      error: `${subject} was blocked by guardrails: ${blocking.map(({ name }) => name).join(', ')}`,
+      type: 'guardrail_blocked',
+      guardrails: findings
+    }
+  };
+};
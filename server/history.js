@@ -0,0 +1,75 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { createJsonFileStore, dataDirectory } from './jsonStore.js';
+
+// Per user, so one busy user can't push everyone else's runs out
+const MAX_RUNS = 500;
+
+const store = createJsonFileStore(
+  process.env.HISTORY_FILE || path.join(dataDirectory, 'history.json'),
+  () => [],
+  Array.isArray
+);
+
+// Runs are kept in memory newest-first and mirrored to the JSON file
+const loadRuns = () => store.load();
+
+export const recordRun = async (run) => {
+  const runs = await loadRuns();
+  const entry = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...run
+  };
+
+  runs.unshift(entry);
+  if (runs.filter(({ userId }) => userId === entry.userId).length > MAX_RUNS) {
+    runs.splice(runs.findLastIndex(({ userId }) => userId === entry.userId), 1);
+  }
+
+  await store.save(runs);
+  return entry;
+};
+
+// Every run belongs to the user who made it; the lookups below only see `userId`'s runs
+const ownRuns = async (userId) => (await loadRuns()).filter((run) => run.userId === userId);
+
+export const listRuns = async (userId, { query, limit = 100 } = {}) => {
+  const runs = await ownRuns(userId);
+  const needle = query?.trim().toLowerCase();
+
+  const matches = needle
+    ? runs.filter((run) =>
+        [run.label, run.model, run.responseModel, run.systemPrompt, run.userPrompt, run.output]
+          .some((field) => typeof field === 'string' && field.toLowerCase().includes(needle)))
+    : runs;
+
+  return {
+    runs: matches.slice(0, limit),
+    total: matches.length
+  };
+};
+
+export const getRun = async (userId, id) => {
+  const runs = await ownRuns(userId);
+  return runs.find((run) => run.id === id) || null;
+};
+
+export const deleteRun = async (userId, id) => {
+  const runs = await loadRuns();
+  const index = runs.findIndex((run) => run.id === id && run.userId === userId);
+  if (index === -1) {
+    return false;
+  }
+
+  runs.splice(index, 1);
+  await store.save(runs);
+  return true;
+};
+
+export const clearRuns = async (userId) => {
+  const runs = await loadRuns();
+  const kept = runs.filter((run) => run.userId !== userId);
+  runs.splice(0, runs.length, ...kept);
+  await store.save(runs);
+};
@@ -1,16 +1,97 @@
+// Load environment variables first: modules below read them when imported
+import 'dotenv/config';
+import { randomUUID } from 'crypto';
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
-import OpenAI from 'openai';
 import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
-
-// Load environment variables
-dotenv.config();
+import {
+  validateChatParams,
+  buildRequestBody,
+  buildRequestChain,
+  classifyError,
+  toRunSettings,
+  validateStructuredOutput,
+  structuredOutputError
+} from './chat.js';
+import { getProvider, defaultProviderId, listProviders } from './providers/index.js';
+import { calculateCost, estimateUsage } from './catalog.js';
+import { checkRunLimits, recordSpend, getSpendSummary, getUserUsage } from './spend.js';
+import { validateDatasetParams, runDataset } from './dataset.js';
+import { validateSweepParams, sweepCells, runSweep } from './sweep.js';
+import { validateAssertions, evaluateOutput } from './evaluation.js';
+import { validateTemplate, listTemplates, saveTemplate, deleteTemplate } from './templates.js';
+import { validateSession } from './session.js';
+import {
+  validatePromptVersion,
+  listPrompts,
+  getPrompt,
+  savePromptVersion,
+  rollbackPrompt,
+  setProductionVersion,
+  deletePrompt,
+  getProductionPrompt
+} from './prompts.js';
+import { authenticate, authRequired, byokEnabled, setUserApiKey } from './auth.js';
+import { cacheSettings, isCacheable, getCacheKey, getCachedResponse, setCachedResponse, getCacheStats, clearCache } from './cache.js';
+import { recordRun, listRuns, getRun, deleteRun, clearRuns } from './history.js';
+import { logger } from './logger.js';
+import { recordHttpRequest, renderMetrics, getMetricsSummary } from './metrics.js';
+import { createAttemptSignal, withRetries } from './retry.js';
+import { applyInputGuardrails, applyOutputGuardrails, canStreamOutput, guardrailError } from './guardrails.js';
 
 const app = express();
 const port = process.env.PORT || 3001;
 const isDevelopment = process.env.NODE_ENV !== 'production';
+// Per attempt; for streams, the longest gap between chunks
+const COMPLETION_TIMEOUT_MS = 30000;
+
+// Express 4 doesn't catch rejected promises, so async handlers and middleware
+// go through this to reach the global error handler instead of hanging
+const catchAsync = (handler) => (req, res, next) =>
+  Promise.resolve(handler(req, res, next)).catch(next);
+
+// A caller-supplied X-Request-Id is reused so traces can span services
+const requestIdPattern = /^[\w.:-]{1,64}$/;
+
+// Every request gets a trace ID, returned in X-Trace-Id and on error bodies so a
+// failure seen in the UI can be found in the logs. When the response finishes,
+// it is logged and counted under its route pattern.
+app.use((req, res, next) => {
+  const requestId = req.get('X-Request-Id');
+  const traceId = requestId && requestIdPattern.test(requestId) ? requestId : randomUUID();
+  const startedAt = Date.now();
+
+  req.traceId = traceId;
+  res.locals.traceId = traceId;
+  res.set('X-Trace-Id', traceId);
+
+  const json = res.json.bind(res);
+  res.json = (body) => json(res.statusCode >= 400 && body?.error ? { ...body, traceId } : body);
+
+  res.on('close', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    const durationMs = Date.now() - startedAt;
+    recordHttpRequest({ method: req.method, route, status: res.statusCode, durationMs });
+    logger.info('HTTP request', {
+      method: req.method,
+      path: req.path,
+      route,
+      status: res.statusCode,
+      durationMs,
+      // Cancelled requests close before the response is complete
+      ...(!res.writableFinished && { aborted: true }),
+      traceId,
+      userId: req.user?.id,
+      ip: req.ip
+    });
+  });
+
+  next();
+});
+
+// Who and which request a log line is about
+const requestFields = (req) => ({ traceId: req.traceId, userId: req.user.id, ip: req.ip });
 
 // Security middleware
 app.use(helmet({
@@ -25,31 +106,39 @@ app.use(helmet({
   },
 }));
 
-// Rate limiting
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: isDevelopment ? 100 : 20, // Limit each IP to 20 requests per windowMs in production
-  message: {
-    error: 'Too many requests from this IP, please try again later.',
-    type: 'rate_limit_exceeded'
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-});
-
-app.use(limiter);
-
 // CORS configuration
 const corsOptions = {
   origin: isDevelopment 
     ? ['http://localhost:5173', 'http://localhost:3000']
     : process.env.ALLOWED_ORIGINS?.split(',') || ['https://yourdomain.com'],
   credentials: true,
+  exposedHeaders: ['X-Trace-Id'],
   optionsSuccessStatus: 200
 };
 
 app.use(cors(corsOptions));
 
+// Identify the caller before rate limiting so limits apply per user
+app.use(catchAsync(authenticate));
+
+// Rate limiting: each user (or anonymous IP) gets their own allowance,
+// USER_RATE_LIMIT requests per 15 minutes unless the user has a custom limit
+const limiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  limit: (req) => req.user.limits.rateLimit,
+  keyGenerator: (req) => req.user.id,
+  // Prometheus scrapes every few seconds and would use up the allowance
+  skip: (req) => req.path === '/metrics',
+  message: {
+    error: 'Too many requests, please try again later.',
+    type: 'rate_limit_exceeded'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+app.use(limiter);
+
 // Body parsing with size limits
 app.use(express.json({ 
   limit: '10mb',
@@ -63,74 +152,113 @@ app.use(express.json({
 
 // Input validation middleware
 const validateChatRequest = (req, res, next) => {
-  const {
-    model,
-    systemPrompt,
-    userPrompt,
-    temperature,
-    maxTokens,
-    presencePenalty,
-    frequencyPenalty,
-    stopSequence
-  } = req.body;
-
-  // Validate required fields
-  if (!userPrompt || typeof userPrompt !== 'string' || !userPrompt.trim()) {
-    return res.status(400).json({ 
-      error: 'User prompt is required and must be a non-empty string',
+  const validationError = validateChatParams(req.body);
+  if (validationError) {
+    return res.status(400).json({
+      error: validationError,
       type: 'validation_error'
     });
   }
 
-  // Validate prompt lengths
-  if (userPrompt.length > 8000) {
+  const { stream, n } = req.body;
+  if (stream !== undefined && typeof stream !== 'boolean') {
     return res.status(400).json({
-      error: 'User prompt too long (max 8000 characters)',
+      error: 'Stream must be a boolean',
       type: 'validation_error'
     });
   }
 
-  if (systemPrompt && (typeof systemPrompt !== 'string' || systemPrompt.length > 4000)) {
+  if (stream && n > 1) {
     return res.status(400).json({
-      error: 'System prompt must be a string with max 4000 characters',
+      error: 'Streaming returns a single choice; set n to 1 or turn streaming off',
       type: 'validation_error'
     });
   }
 
-  // Validate model
-  const allowedModels = ['gpt-3.5-turbo', 'gpt-4', 'gpt-4-turbo-preview'];
-  if (model && !allowedModels.includes(model)) {
+  next();
+};
+
+// Reject new runs once a configured daily or monthly spending cap, or the
+// caller's daily token quota, is reached
+const enforceBudget = catchAsync(async (req, res, next) => {
+  const limitError = await checkRunLimits(req.user);
+  if (limitError) {
+    return res.status(limitError.status).json(limitError.body);
+  }
+
+  next();
+});
+
+// Redact or block PII and policy matches in the prompts before any provider
+// sees them. What fired is kept on `req.guardrails` for the response, and a
+// stream that output rules won't allow is answered as JSON with `streamDisabled`.
+const enforceGuardrails = (req, res, next) => {
+  const { params, findings, blocked } = applyInputGuardrails(req.body, { log: requestFields(req) });
+  if (blocked) {
+    const { status, body } = guardrailError(findings);
+    return res.status(status).json(body);
+  }
+
+  req.streamDisabled = params.stream === true && !canStreamOutput;
+  req.body = { ...params, ...(req.streamDisabled && { stream: false }) };
+  req.guardrails = findings;
+  next();
+};
+
+const MAX_BATCH_RUNS = 6;
+
+// Only the per-run knobs may override the shared prompt
+const runParamKeys = ['provider', 'model', 'temperature', 'maxTokens', 'presencePenalty', 'frequencyPenalty'];
+
+const pickRunParams = (run) => Object.fromEntries(
+  runParamKeys
+    .filter(key => run[key] !== undefined)
+    .map(key => [key, run[key]])
+);
+
+// Batch requests share one prompt and vary the model and sampling parameters per run
+const validateBatchRequest = (req, res, next) => {
+  const { runs, ...shared } = req.body;
+
+  if (!Array.isArray(runs) || runs.length === 0 || runs.length > MAX_BATCH_RUNS) {
     return res.status(400).json({
-      error: 'Invalid model specified',
+      error: `Runs must be an array of 1 to ${MAX_BATCH_RUNS} configurations`,
       type: 'validation_error'
     });
   }
 
-  // Validate numeric parameters
-  const numericValidations = [
-    { field: 'temperature', value: temperature, min: 0, max: 2 },
-    { field: 'maxTokens', value: maxTokens, min: 1, max: 4000 },
-    { field: 'presencePenalty', value: presencePenalty, min: 0, max: 2 },
-    { field: 'frequencyPenalty', value: frequencyPenalty, min: 0, max: 2 }
-  ];
+  for (const [index, run] of runs.entries()) {
+    if (!run || typeof run !== 'object') {
+      return res.status(400).json({
+        error: `Run ${index + 1} must be an object`,
+        type: 'validation_error'
+      });
+    }
 
-  for (const validation of numericValidations) {
-    if (validation.value !== undefined) {
-      if (typeof validation.value !== 'number' || 
-          validation.value < validation.min || 
-          validation.value > validation.max) {
-        return res.status(400).json({
-          error: `${validation.field} must be a number between ${validation.min} and ${validation.max}`,
-          type: 'validation_error'
-        });
-      }
+    if (run.label !== undefined && (typeof run.label !== 'string' || run.label.length > 100)) {
+      return res.status(400).json({
+        error: `Run ${index + 1}: label must be a string with max 100 characters`,
+        type: 'validation_error'
+      });
+    }
+
+    const validationError = validateChatParams({ ...shared, ...pickRunParams(run) });
+    if (validationError) {
+      return res.status(400).json({
+        error: `Run ${index + 1}: ${validationError}`,
+        type: 'validation_error'
+      });
     }
   }
 
-  // Validate stop sequence
-  if (stopSequence && typeof stopSequence !== 'string') {
+  next();
+};
+
+const validateDatasetRequest = (req, res, next) => {
+  const validationError = validateDatasetParams(req.body);
+  if (validationError) {
     return res.status(400).json({
-      error: 'Stop sequence must be a string',
+      error: validationError,
       type: 'validation_error'
     });
   }
@@ -138,15 +266,99 @@ const validateChatRequest = (req, res, next) => {
   next();
 };
 
-// Initialize OpenAI client with validation
-if (!process.env.OPENAI_API_KEY) {
-  console.error('OPENAI_API_KEY environment variable is required');
-  process.exit(1);
-}
+const validateSweepRequest = (req, res, next) => {
+  const validationError = validateSweepParams(req.body);
+  if (validationError) {
+    return res.status(400).json({
+      error: validationError,
+      type: 'validation_error'
+    });
+  }
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+  const { assertions, provider } = req.body;
+  const assertionsError = assertions !== undefined
+    ? validateAssertions(assertions, { models: getProvider(provider)?.models })
+    : null;
+  if (assertionsError) {
+    return res.status(400).json({
+      error: assertionsError,
+      type: 'validation_error'
+    });
+  }
+
+  next();
+};
+
+const validateEvaluationRequest = (req, res, next) => {
+  const { output, prompt, provider, model, assertions } = req.body;
+
+  if (typeof output !== 'string') {
+    return res.status(400).json({
+      error: 'Output must be a string',
+      type: 'validation_error'
+    });
+  }
+
+  if (prompt !== undefined && typeof prompt !== 'string') {
+    return res.status(400).json({
+      error: 'Prompt must be a string',
+      type: 'validation_error'
+    });
+  }
+
+  if (provider !== undefined && (typeof provider !== 'string' || !getProvider(provider))) {
+    return res.status(400).json({
+      error: 'Invalid provider specified',
+      type: 'validation_error'
+    });
+  }
+
+  if (model !== undefined && typeof model !== 'string') {
+    return res.status(400).json({
+      error: 'Model must be a string',
+      type: 'validation_error'
+    });
+  }
+
+  const validationError = validateAssertions(assertions, { models: getProvider(provider)?.models });
+  if (validationError) {
+    return res.status(400).json({
+      error: validationError,
+      type: 'validation_error'
+    });
+  }
+
+  next();
+};
+
+// Only LLM-judged evaluations spend money
+const enforceJudgeBudget = (req, res, next) =>
+  req.body.assertions.some(({ type }) => type === 'llm_judge') ? enforceBudget(req, res, next) : next();
+
+// Write a single Server-Sent Event to a streaming response. Error events carry
+// the trace ID like JSON error bodies do.
+const sendEvent = (res, event, data) => {
+  const payload = event === 'error' ? { ...data, traceId: res.locals.traceId } : data;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+};
+
+// With accounts on, metrics and changes to shared data (the response cache,
+// templates and the prompt library's production tags) are for admins only; an
+// open playground allows them to everyone
+const requireAdmin = (req, res, next) => {
+  if (authRequired && req.user.role !== 'admin') {
+    return res.status(403).json({
+      error: 'Only admins can do this',
+      type: 'forbidden'
+    });
+  }
+
+  next();
+};
+
+if (!defaultProviderId) {
+  logger.warn('No model provider is configured: set OPENAI_API_KEY, OPENAI_COMPATIBLE_BASE_URL or enable MOCK_PROVIDER');
+}
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -157,158 +369,1108 @@ app.get('/health', (req, res) => {
   });
 });
 
-// OpenAI chat completion endpoint
-app.post('/api/chat', validateChatRequest, async (req, res) => {
-  try {
-    const {
-      model,
-      systemPrompt,
-      userPrompt,
-      temperature,
-      maxTokens,
-      presencePenalty,
-      frequencyPenalty,
-      stopSequence
-    } = req.body;
-
-    // Prepare messages array
-    const messages = [];
-    
-    if (systemPrompt && systemPrompt.trim()) {
-      messages.push({
-        role: 'system',
-        content: systemPrompt.trim()
-      });
-    }
-    
-    messages.push({
-      role: 'user',
-      content: userPrompt.trim()
-    });
-
-    // Prepare stop sequences with validation
-    let stop = null;
-    if (stopSequence && stopSequence.trim()) {
-      stop = stopSequence
-        .split(',')
-        .map(s => s.trim())
-        .filter(s => s.length > 0 && s.length <= 100) // Limit individual stop sequence length
-        .slice(0, 4); // Limit to 4 stop sequences
-      
-      if (stop.length === 0) {
-        stop = null;
-      }
-    }
+// Prometheus scrape target. With accounts on, scrape with an admin's token.
+app.get('/metrics', requireAdmin, (req, res) => {
+  res.type('text/plain; version=0.0.4').send(renderMetrics());
+});
 
-    // Prepare OpenAI API request with safe defaults
-    const requestBody = {
-      model: model || 'gpt-3.5-turbo',
-      messages,
-      temperature: Math.max(0, Math.min(2, temperature || 0.7)),
-      max_tokens: Math.max(1, Math.min(4000, maxTokens || 1000)),
-      presence_penalty: Math.max(0, Math.min(2, presencePenalty || 0)),
-      frequency_penalty: Math.max(0, Math.min(2, frequencyPenalty || 0)),
-    };
+// The same counters as JSON, with per-minute series for the admin page
+app.get('/api/metrics', requireAdmin, (req, res) => {
+  res.json({ success: true, ...getMetricsSummary() });
+});
+
+// Providers and models the UI can choose from
+app.get('/api/models', (req, res) => {
+  res.json({
+    success: true,
+    providers: listProviders(),
+    defaultProvider: defaultProviderId
+  });
+});
+
+// The exact request body /api/chat would send upstream, for exporting as code.
+// Nothing is sent to the provider, so this is not subject to the spending caps.
+app.post('/api/chat/request', validateChatRequest, (req, res) => {
+  const provider = getProvider(req.body.provider);
+  res.json({
+    success: true,
+    provider: provider.id,
+    baseURL: provider.baseURL || null,
+    requestBody: buildRequestBody(req.body)
+  });
+});
+
+// Replays a cached completion in the shape the client asked for. Nothing is sent
+// upstream, so the run costs nothing and is not counted against spend or quotas.
+const sendCachedCompletion = async (req, res, { requestBody, cached, startedAt }) => {
+  const { content, toolCalls, choices, logprobs, usage, model, finishReason } = cached;
+  // Replies are cached already redacted, with the output rules that fired on them
+  const guardrails = [...req.guardrails, ...(cached.guardrails ?? [])];
+
+  const run = await recordRun({
+    source: 'single',
+    userId: req.user.id,
+    traceId: req.traceId,
+    ...toRunSettings(req.body, requestBody),
+    output: content,
+    ...(toolCalls.length > 0 && { toolCalls }),
+    ...(choices && { choices: choices.map(({ content, finishReason }) => ({ content, finishReason })) }),
+    usage,
+    cost: 0,
+    responseModel: model,
+    finishReason,
+    latencyMs: Date.now() - startedAt,
+    cached: true,
+    ...(guardrails.length > 0 && { guardrails })
+  });
+
+  const result = {
+    usage,
+    cost: 0,
+    model,
+    finishReason,
+    toolCalls,
+    ...(choices && { choices }),
+    ...(requestBody.logprobs && { logprobs }),
+    cached: true,
+    ...(guardrails.length > 0 && { guardrails }),
+    runId: run.id
+  };
+
+  if (!req.body.stream) {
+    return res.json({ success: true, content, ...result, ...(req.streamDisabled && { streamDisabled: true }) });
+  }
 
-    if (stop) {
-      requestBody.stop = stop;
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  if (content) {
+    sendEvent(res, 'delta', { content });
+  }
+  sendEvent(res, 'done', { success: true, ...result });
+  res.end();
+};
+
+// Chat completion endpoint
+app.post('/api/chat', validateChatRequest, enforceGuardrails, enforceBudget, catchAsync(async (req, res) => {
+  // Abort the upstream completion if the client goes away before we finish,
+  // so we stop paying for tokens nobody will read
+  const controller = new AbortController();
+  let clientDisconnected = false;
+
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      clientDisconnected = true;
+      controller.abort();
     }
+  });
 
+  const { stream } = req.body;
+  const provider = getProvider(req.body.provider, req.user);
+  const requestBody = buildRequestBody(req.body);
+  const startedAt = Date.now();
+  const retryOptions = { signal: controller.signal, log: { provider: provider.id, ...requestFields(req) } };
+  let attemptSignal = null;
+  let streamedContent = '';
+  // Usage and model of a stream in progress, until its spend is recorded
+  let streamed = null;
+
+  try {
     // Log request (without sensitive data)
-    console.log('OpenAI API request:', {
+    logger.info('Chat completion request', {
+      provider: provider.id,
       model: requestBody.model,
       temperature: requestBody.temperature,
       max_tokens: requestBody.max_tokens,
       presence_penalty: requestBody.presence_penalty,
       frequency_penalty: requestBody.frequency_penalty,
       stop: requestBody.stop,
-      messagesCount: messages.length,
-      timestamp: new Date().toISOString(),
-      ip: req.ip
+      messagesCount: requestBody.messages.length,
+      stream: !!stream,
+      ...requestFields(req)
     });
 
-    // Make request to OpenAI with timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+    // Replies paid for with a user's own key are only replayed to that user, and a
+    // provider with no key at all goes upstream so the missing key is reported
+    const cacheOwner = req.user.apiKeys?.[provider.id] ? req.user.id : null;
+    const cacheKey = isCacheable(requestBody) && provider.hasApiKey !== false
+      ? getCacheKey(provider.id, requestBody, cacheOwner)
+      : null;
+    const cached = cacheKey && getCachedResponse(cacheKey);
+    if (cached) {
+      logger.info('Chat completion served from cache', {
+        provider: provider.id,
+        model: requestBody.model,
+        ...requestFields(req)
+      });
+      return await sendCachedCompletion(req, res, { requestBody, cached, startedAt });
+    }
+
+    if (stream) {
+      // Wait for the first chunk so connection and auth errors still get a proper
+      // status code, and can be retried before anything reaches the client
+      const { value: first, requestBody: answeredBody, attempts } = await withRetries(
+        buildRequestChain(req.body, requestBody),
+        async (attemptBody) => {
+          attemptSignal = createAttemptSignal(controller.signal, COMPLETION_TIMEOUT_MS);
+          const chunks = provider.stream(attemptBody, { signal: attemptSignal.signal });
+          try {
+            return { chunks, next: await chunks.next() };
+          } catch (error) {
+            attemptSignal.clear();
+            throw error;
+          }
+        },
+        retryOptions
+      );
+      const { chunks } = first;
+      let { next } = first;
+      const fallbackFrom = answeredBody !== requestBody ? requestBody.model : null;
 
-    const completion = await openai.chat.completions.create(requestBody, {
-      signal: controller.signal
+      res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+      res.flushHeaders();
+
+      streamed = { requestBody: answeredBody, model: answeredBody.model, usage: null };
+      let finishReason = null;
+      const toolCalls = [];
+      const logprobs = [];
+
+      while (!next.done) {
+        const chunk = next.value;
+
+        if (chunk.model) {
+          streamed.model = chunk.model;
+        }
+        if (chunk.content) {
+          streamedContent += chunk.content;
+          sendEvent(res, 'delta', { content: chunk.content });
+        }
+        for (const fragment of chunk.toolCalls || []) {
+          const call = toolCalls[fragment.index] ??= { id: '', name: '', arguments: '' };
+          call.id = fragment.id || call.id;
+          call.name += fragment.name || '';
+          call.arguments += fragment.arguments || '';
+        }
+        if (chunk.logprobs?.length) {
+          logprobs.push(...chunk.logprobs);
+        }
+        if (chunk.finishReason) {
+          finishReason = chunk.finishReason;
+        }
+        if (chunk.usage) {
+          streamed.usage = chunk.usage;
+        }
+
+        // While tokens keep arriving the timeout only guards against a stalled stream
+        attemptSignal.reset();
+
+        next = await chunks.next();
+      }
+
+      attemptSignal.clear();
+
+      const { usage, model: responseModel } = streamed;
+      streamed = null;
+      const cost = calculateCost(provider.id, [responseModel, answeredBody.model], usage);
+      await recordSpend(cost, { userId: req.user.id, tokens: usage?.total_tokens });
+
+      // The completion is paid for either way; a malformed one is recorded and reported as an error
+      const structureError = validateStructuredOutput(answeredBody, { content: streamedContent, toolCalls });
+      const failure = structureError ? structuredOutputError(structureError).body : null;
+
+      // Streams only run while output guardrails can do no more than flag the reply
+      const guarded = await applyOutputGuardrails([streamedContent], { user: req.user, signal: controller.signal, log: retryOptions.log });
+      const guardrails = [...req.guardrails, ...guarded.findings];
+
+      const run = await recordRun({
+        source: 'single',
+        userId: req.user.id,
+        traceId: req.traceId,
+        ...toRunSettings(req.body, requestBody),
+        output: streamedContent,
+        ...(toolCalls.length > 0 && { toolCalls }),
+        usage,
+        cost,
+        responseModel,
+        finishReason,
+        latencyMs: Date.now() - startedAt,
+        attempts,
+        ...(fallbackFrom && { fallbackFrom }),
+        ...(guardrails.length > 0 && { guardrails }),
+        ...(failure && { error: failure.error, errorType: failure.type })
+      });
+
+      const result = {
+        usage,
+        cost,
+        model: responseModel,
+        finishReason,
+        toolCalls,
+        ...(requestBody.logprobs && { logprobs }),
+        attempts,
+        ...(fallbackFrom && { fallbackFrom }),
+        ...(guardrails.length > 0 && { guardrails }),
+        runId: run.id
+      };
+
+      if (failure) {
+        sendEvent(res, 'error', { success: false, ...failure, ...result });
+      } else {
+        // A fallback's reply is not what the requested model would have said
+        if (cacheKey && !fallbackFrom) {
+          setCachedResponse(cacheKey, {
+            provider: provider.id,
+            response: { content: streamedContent, toolCalls, logprobs, usage, model: responseModel, finishReason, guardrails: guarded.findings }
+          });
+        }
+        sendEvent(res, 'done', { success: true, ...result });
+      }
+      return res.end();
+    }
+
+    const { value: completion, requestBody: answeredBody, attempts } = await withRetries(
+      buildRequestChain(req.body, requestBody),
+      async (attemptBody) => {
+        attemptSignal = createAttemptSignal(controller.signal, COMPLETION_TIMEOUT_MS);
+        try {
+          return await provider.complete(attemptBody, { signal: attemptSignal.signal });
+        } finally {
+          attemptSignal.clear();
+        }
+      },
+      retryOptions
+    );
+    const fallbackFrom = answeredBody !== requestBody ? requestBody.model : null;
+
+    const { finishReason } = completion;
+    const emptyReply = completion.toolCalls?.length > 0 ? '' : 'No response generated';
+
+    const cost = calculateCost(provider.id, [completion.model, answeredBody.model], completion.usage);
+    await recordSpend(cost, { userId: req.user.id, tokens: completion.usage?.total_tokens });
+
+    const structureError = validateStructuredOutput(answeredBody, {
+      content: completion.content || emptyReply,
+      toolCalls: completion.toolCalls || []
     });
 
-    clearTimeout(timeoutId);
+    // Output rules run on every choice after the structure check. A blocked reply
+    // is withheld, and logprobs are dropped once anything was redacted from it.
+    const multipleChoices = completion.choices?.length > 1;
+    const guarded = await applyOutputGuardrails(
+      multipleChoices ? completion.choices.map(({ content }) => content) : [completion.content || ''],
+      { user: req.user, signal: controller.signal, log: retryOptions.log }
+    );
+    const guardrails = [...req.guardrails, ...guarded.findings];
+    const redacted = guarded.findings.some(({ action }) => action !== 'flag');
+
+    const failure = guarded.blocked
+      ? guardrailError(guardrails)
+      : structureError ? structuredOutputError(structureError) : null;
 
     // Extract response content
-    const responseContent = completion.choices[0]?.message?.content || 'No response generated';
+    const toolCalls = guarded.blocked ? [] : completion.toolCalls || [];
+    const responseContent = guarded.blocked ? '' : guarded.texts[0] || emptyReply;
+    const logprobs = redacted ? [] : completion.logprobs || [];
 
-    res.json({
-      success: true,
+    // With n > 1 the first choice is the output and the rest are alternatives
+    const choices = multipleChoices && !guarded.blocked
+      ? completion.choices.map(({ toolCalls, finishReason, logprobs }, index) => ({
+          content: guarded.texts[index],
+          toolCalls,
+          finishReason,
+          logprobs: redacted ? null : logprobs
+        }))
+      : null;
+
+    const run = await recordRun({
+      source: 'single',
+      userId: req.user.id,
+      traceId: req.traceId,
+      ...toRunSettings(req.body, requestBody),
+      output: responseContent,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      ...(choices && { choices: choices.map(({ content, finishReason }) => ({ content, finishReason })) }),
+      usage: completion.usage,
+      cost,
+      responseModel: completion.model,
+      finishReason,
+      latencyMs: Date.now() - startedAt,
+      attempts,
+      ...(fallbackFrom && { fallbackFrom }),
+      ...(guardrails.length > 0 && { guardrails }),
+      ...(failure && { error: failure.body.error, errorType: failure.body.type })
+    });
+
+    if (cacheKey && !failure && !fallbackFrom) {
+      setCachedResponse(cacheKey, {
+        provider: provider.id,
+        response: {
+          content: responseContent,
+          toolCalls,
+          choices,
+          logprobs,
+          usage: completion.usage,
+          model: completion.model,
+          finishReason,
+          guardrails: guarded.findings
+        }
+      });
+    }
+
+    res.status(failure ? failure.status : 200).json({
+      success: !failure,
+      ...failure?.body,
       content: responseContent,
+      toolCalls,
+      ...(choices && { choices }),
+      ...(requestBody.logprobs && { logprobs }),
       usage: completion.usage,
-      model: completion.model
+      cost,
+      model: completion.model,
+      finishReason,
+      attempts,
+      ...(fallbackFrom && { fallbackFrom }),
+      ...(guardrails.length > 0 && { guardrails }),
+      ...(req.streamDisabled && { streamDisabled: true }),
+      runId: run.id
     });
 
   } catch (error) {
-    console.error('OpenAI API Error:', {
+    attemptSignal?.clear();
+
+    // A stream cut short by an error or the client was still billed for what it
+    // produced; without usage from the provider, that is estimated
+    const partialUsage = streamed && (streamed.usage ?? estimateUsage(streamed.requestBody.messages, streamedContent));
+    const partialCost = streamed && calculateCost(provider.id, [streamed.model, streamed.requestBody.model], partialUsage);
+    if (streamed) {
+      await recordSpend(partialCost, { userId: req.user.id, tokens: partialUsage.total_tokens });
+    }
+
+    if (clientDisconnected) {
+      logger.info('Chat completion request cancelled by client', {
+        ...requestFields(req)
+      });
+      return;
+    }
+
+    logger.error('Chat completion error', {
+      provider: provider.id,
       message: error.message,
       code: error.code,
+      status: error.status,
       type: error.type,
-      timestamp: new Date().toISOString(),
-      ip: req.ip
+      attempts: error.attempts,
+      ...requestFields(req)
+    });
+
+    const { status, body: errorBody } = classifyError(error);
+    const body = {
+      ...errorBody,
+      ...(error.attempts && { attempts: error.attempts }),
+      ...(req.streamDisabled && { streamDisabled: true })
+    };
+
+    await recordRun({
+      source: 'single',
+      userId: req.user.id,
+      traceId: req.traceId,
+      ...toRunSettings(req.body, requestBody),
+      output: streamedContent,
+      usage: partialUsage,
+      cost: partialCost,
+      responseModel: streamed?.model ?? null,
+      finishReason: null,
+      latencyMs: Date.now() - startedAt,
+      ...(error.attempts && { attempts: error.attempts }),
+      ...(req.guardrails.length > 0 && { guardrails: req.guardrails }),
+      error: body.error,
+      errorType: body.type
+    });
+
+    // Once a stream has started the status line is gone, so report the error in-band
+    if (res.headersSent) {
+      sendEvent(res, 'error', body);
+      return res.end();
+    }
+
+    res.status(status).json(body);
+  }
+}));
+
+// Comparison endpoint: fan one prompt out over several configurations in parallel
+app.post('/api/chat/batch', validateBatchRequest, enforceGuardrails, enforceBudget, catchAsync(async (req, res) => {
+  const controller = new AbortController();
+  let clientDisconnected = false;
+
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      clientDisconnected = true;
+      controller.abort();
+    }
+  });
+
+  const { runs, ...shared } = req.body;
+
+  logger.info('Chat completion batch request', {
+    runs: runs.length,
+    provider: getProvider(shared.provider).id,
+    models: runs.map(run => run.model || 'default'),
+    ...requestFields(req)
+  });
+
+  const results = await Promise.all(runs.map(async (run, index) => {
+    const label = run.label || `Run ${index + 1}`;
+    const params = { ...shared, ...pickRunParams(run) };
+    const provider = getProvider(params.provider, req.user);
+    const requestBody = buildRequestBody(params);
+    const startedAt = Date.now();
+
+    try {
+      // Columns compare models, so transient errors are retried but never answered by a fallback
+      const { value: completion, attempts } = await withRetries([requestBody], async (attemptBody) => {
+        // Each attempt gets its own timeout but is also cancelled with the whole batch
+        const attemptSignal = createAttemptSignal(controller.signal, COMPLETION_TIMEOUT_MS);
+        try {
+          return await provider.complete(attemptBody, { signal: attemptSignal.signal });
+        } finally {
+          attemptSignal.clear();
+        }
+      }, { signal: controller.signal, log: { provider: provider.id, run: label, ...requestFields(req) } });
+
+      const { finishReason } = completion;
+      const emptyReply = completion.toolCalls?.length > 0 ? '' : 'No response generated';
+
+      const cost = calculateCost(provider.id, [completion.model, requestBody.model], completion.usage);
+      await recordSpend(cost, { userId: req.user.id, tokens: completion.usage?.total_tokens });
+
+      const structureError = validateStructuredOutput(requestBody, {
+        content: completion.content || emptyReply,
+        toolCalls: completion.toolCalls || []
+      });
+
+      // A blocked reply is withheld, tool calls included
+      const guarded = await applyOutputGuardrails([completion.content || ''], {
+        user: req.user,
+        signal: controller.signal,
+        log: { provider: provider.id, run: label, ...requestFields(req) }
+      });
+      const guardrails = [...req.guardrails, ...guarded.findings];
+      const failure = guarded.blocked
+        ? guardrailError(guardrails).body
+        : structureError ? structuredOutputError(structureError).body : null;
+
+      const toolCalls = guarded.blocked ? [] : completion.toolCalls || [];
+      const content = guarded.blocked ? '' : guarded.texts[0] || emptyReply;
+      const latencyMs = Date.now() - startedAt;
+
+      const historyEntry = await recordRun({
+        source: 'compare',
+        userId: req.user.id,
+        traceId: req.traceId,
+        label,
+        ...toRunSettings(params, requestBody),
+        output: content,
+        ...(toolCalls.length > 0 && { toolCalls }),
+        usage: completion.usage,
+        cost,
+        responseModel: completion.model,
+        finishReason,
+        latencyMs,
+        attempts,
+        ...(guardrails.length > 0 && { guardrails }),
+        ...(failure && { error: failure.error, errorType: failure.type })
+      });
+
+      return {
+        label,
+        success: !failure,
+        ...failure,
+        content,
+        toolCalls,
+        usage: completion.usage,
+        cost,
+        model: completion.model,
+        finishReason,
+        latencyMs,
+        attempts,
+        ...(guardrails.length > 0 && { guardrails }),
+        runId: historyEntry.id
+      };
+    } catch (error) {
+      const { body } = classifyError(error);
+      const latencyMs = Date.now() - startedAt;
+
+      if (!clientDisconnected) {
+        logger.error('Chat completion error', {
+          provider: provider.id,
+          message: error.message,
+          code: error.code,
+          status: error.status,
+          type: error.type,
+          attempts: error.attempts,
+          run: label,
+          ...requestFields(req)
+        });
+
+        await recordRun({
+          source: 'compare',
+          userId: req.user.id,
+          traceId: req.traceId,
+          label,
+          ...toRunSettings(params, requestBody),
+          output: '',
+          usage: null,
+          cost: null,
+          responseModel: null,
+          finishReason: null,
+          latencyMs,
+          ...(error.attempts && { attempts: error.attempts }),
+          ...(req.guardrails.length > 0 && { guardrails: req.guardrails }),
+          error: body.error,
+          errorType: body.type
+        });
+      }
+
+      return {
+        label,
+        success: false,
+        ...body,
+        latencyMs,
+        ...(error.attempts && { attempts: error.attempts }),
+        ...(req.guardrails.length > 0 && { guardrails: req.guardrails })
+      };
+    }
+  }));
+
+  if (clientDisconnected) {
+    logger.info('Chat completion batch request cancelled by client', {
+      ...requestFields(req)
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    results
+  });
+}));
+
+// Runs a prompt template over uploaded rows, streaming each row's result as a
+// `result` event followed by a `done` summary. The whole dataset counts as one
+// request against the rate limiter.
+app.post('/api/datasets/run', validateDatasetRequest, enforceBudget, catchAsync(async (req, res) => {
+  const controller = new AbortController();
+  let clientDisconnected = false;
+
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      clientDisconnected = true;
+      controller.abort();
+    }
+  });
+
+  const { rows } = req.body;
+  const startedAt = Date.now();
+
+  logger.info('Dataset run request', {
+    rows: rows.length,
+    provider: getProvider(req.body.provider).id,
+    model: req.body.model || 'default',
+    concurrency: req.body.concurrency,
+    ...requestFields(req)
+  });
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  let completed = 0;
+
+  try {
+    const { results, stopped } = await runDataset(req.body, {
+      signal: controller.signal,
+      user: req.user,
+      onResult: (result) => {
+        completed++;
+        if (!clientDisconnected) {
+          sendEvent(res, 'result', { ...result, completed, total: rows.length });
+        }
+      }
     });
 
-    // Handle different types of errors with sanitized responses
-    if (error.code === 'insufficient_quota') {
-      return res.status(402).json({
-        error: 'API quota exceeded. Please check your billing details.',
-        type: 'quota_exceeded'
+    if (clientDisconnected) {
+      logger.info('Dataset run cancelled by client', {
+        completed,
+        total: rows.length,
+        ...requestFields(req)
       });
+      return;
     }
 
-    if (error.code === 'invalid_api_key') {
-      return res.status(401).json({
-        error: 'Invalid API key configuration.',
-        type: 'invalid_key'
+    if (stopped) {
+      logger.warn('Dataset run stopped at a spending or quota limit', {
+        completed,
+        total: rows.length,
+        type: stopped.type,
+        ...requestFields(req)
+      });
+      sendEvent(res, 'error', {
+        success: false,
+        ...stopped,
+        error: `${stopped.error} The run stopped after ${completed} of ${rows.length} rows.`
       });
+      return res.end();
     }
 
-    if (error.code === 'model_not_found') {
-      return res.status(400).json({
-        error: 'The specified model is not available.',
-        type: 'model_not_found'
+    const succeeded = results.filter(result => result.success);
+    sendEvent(res, 'done', {
+      success: true,
+      total: rows.length,
+      succeeded: succeeded.length,
+      failed: rows.length - succeeded.length,
+      // Failed rows that got a reply (bad structured output, guardrails) were still billed
+      cost: results.reduce((total, result) => total + (result.cost ?? 0), 0),
+      latencyMs: Date.now() - startedAt
+    });
+    res.end();
+  } catch (error) {
+    logger.error('Dataset run error', {
+      message: error.message,
+      ...requestFields(req)
+    });
+
+    if (!clientDisconnected) {
+      sendEvent(res, 'error', { success: false, ...classifyError(error).body });
+      res.end();
+    }
+  }
+}));
+
+// Runs one prompt over every combination of one or two swept parameters,
+// streaming each run as a `result` event followed by a `done` summary. Like a
+// dataset, the whole sweep counts as one request against the rate limiter.
+app.post('/api/sweeps/run', validateSweepRequest, enforceGuardrails, enforceBudget, catchAsync(async (req, res) => {
+  const controller = new AbortController();
+  let clientDisconnected = false;
+
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      clientDisconnected = true;
+      controller.abort();
+    }
+  });
+
+  const { axes, repeats = 1 } = req.body;
+  const total = sweepCells(axes).length * repeats;
+  const startedAt = Date.now();
+
+  logger.info('Parameter sweep request', {
+    axes: axes.map(({ parameter, values }) => `${parameter} × ${values.length}`),
+    repeats,
+    runs: total,
+    provider: getProvider(req.body.provider).id,
+    model: req.body.model || 'default',
+    ...requestFields(req)
+  });
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  let completed = 0;
+
+  try {
+    const { results, stopped } = await runSweep(req.body, {
+      signal: controller.signal,
+      user: req.user,
+      guardrails: req.guardrails,
+      onResult: (result) => {
+        completed++;
+        if (!clientDisconnected) {
+          sendEvent(res, 'result', { ...result, completed, total });
+        }
+      }
+    });
+
+    if (clientDisconnected) {
+      logger.info('Parameter sweep cancelled by client', {
+        completed,
+        total,
+        ...requestFields(req)
       });
+      return;
     }
 
-    if (error.code === 'rate_limit_exceeded') {
-      return res.status(429).json({
-        error: 'Rate limit exceeded. Please try again later.',
-        type: 'rate_limit'
+    if (stopped) {
+      logger.warn('Parameter sweep stopped at a spending or quota limit', {
+        completed,
+        total,
+        type: stopped.type,
+        ...requestFields(req)
+      });
+      sendEvent(res, 'error', {
+        success: false,
+        ...stopped,
+        error: `${stopped.error} The sweep stopped after ${completed} of ${total} runs.`
       });
+      return res.end();
+    }
+
+    const succeeded = results.filter(result => result.success);
+    sendEvent(res, 'done', {
+      success: true,
+      total,
+      succeeded: succeeded.length,
+      failed: total - succeeded.length,
+      // Includes what LLM judges spent scoring the runs
+      cost: results.reduce((sum, result) => sum + (result.cost ?? 0) + (result.evaluation?.cost ?? 0), 0),
+      latencyMs: Date.now() - startedAt
+    });
+    res.end();
+  } catch (error) {
+    logger.error('Parameter sweep error', {
+      message: error.message,
+      ...requestFields(req)
+    });
+
+    if (!clientDisconnected) {
+      sendEvent(res, 'error', { success: false, ...classifyError(error).body });
+      res.end();
+    }
+  }
+}));
+
+// Scores an output against a list of assertions
+app.post('/api/evaluate', validateEvaluationRequest, enforceJudgeBudget, catchAsync(async (req, res) => {
+  const controller = new AbortController();
+
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
     }
+  });
+
+  const evaluation = await evaluateOutput(req.body, { signal: controller.signal, user: req.user });
+  res.json({ success: true, ...evaluation });
+}));
+
+// Spend so far against the configured caps
+app.get('/api/spend', catchAsync(async (req, res) => {
+  res.json({ success: true, ...await getSpendSummary() });
+}));
+
+// Response cache: settings, hit rate and live entries
+app.get('/api/cache', (req, res) => {
+  res.json({ success: true, ...getCacheStats() });
+});
+
+app.delete('/api/cache', requireAdmin, (req, res) => {
+  const removed = clearCache();
+  logger.info('Response cache cleared', {
+    removed,
+    ...requestFields(req)
+  });
+  res.json({ success: true, removed });
+});
+
+// The signed-in user (or the anonymous per-IP user) with today's usage.
+// Public so the UI can tell whether it needs to ask for a token.
+app.get('/api/auth', catchAsync(async (req, res) => {
+  // Decrypted provider keys never leave the server
+  const { apiKeys, ...user } = req.user;
+  res.json({
+    success: true,
+    authRequired,
+    byokEnabled,
+    user,
+    usage: await getUserUsage(user.id)
+  });
+}));
+
+// Bring-your-own-key: store or remove the caller's key for an OpenAI-based provider
+const validateApiKeyRequest = (req, res, next) => {
+  if (req.user.role === 'anonymous') {
+    return res.status(401).json({
+      error: 'Sign in with your API token to store a provider key',
+      type: 'authentication_required'
+    });
+  }
+
+  if (!byokEnabled) {
+    return res.status(400).json({
+      error: 'Storing provider keys is disabled on this server (KEY_ENCRYPTION_SECRET is not set)',
+      type: 'validation_error'
+    });
+  }
+
+  if (!getProvider(req.params.provider)?.withApiKey) {
+    return res.status(400).json({
+      error: 'This provider does not accept user keys',
+      type: 'validation_error'
+    });
+  }
+
+  next();
+};
+
+app.put('/api/auth/keys/:provider', validateApiKeyRequest, catchAsync(async (req, res) => {
+  const { apiKey } = req.body;
+  if (typeof apiKey !== 'string' || apiKey.trim().length < 8 || apiKey.length > 500) {
+    return res.status(400).json({
+      error: 'API key must be a string of 8 to 500 characters',
+      type: 'validation_error'
+    });
+  }
+
+  const user = await setUserApiKey(req.user.id, req.params.provider, apiKey.trim());
+  logger.info('Provider key stored', {
+    provider: req.params.provider,
+    ...requestFields(req)
+  });
+  res.json({ success: true, user });
+}));
+
+app.delete('/api/auth/keys/:provider', validateApiKeyRequest, catchAsync(async (req, res) => {
+  const user = await setUserApiKey(req.user.id, req.params.provider, null);
+  res.json({ success: true, user });
+}));
+
+// Run history endpoints. Each user only sees and deletes their own runs.
+app.get('/api/history', catchAsync(async (req, res) => {
+  const query = typeof req.query.q === 'string' ? req.query.q.slice(0, 200) : '';
+  const limit = Math.max(1, Math.min(500, parseInt(req.query.limit, 10) || 100));
+
+  const { runs, total } = await listRuns(req.user.id, { query, limit });
+  res.json({ success: true, runs, total });
+}));
+
+app.get('/api/history/:id', catchAsync(async (req, res) => {
+  const run = await getRun(req.user.id, req.params.id);
+  if (!run) {
+    return res.status(404).json({
+      error: 'Run not found',
+      type: 'not_found'
+    });
+  }
+
+  res.json({ success: true, run });
+}));
+
+app.delete('/api/history/:id', catchAsync(async (req, res) => {
+  const deleted = await deleteRun(req.user.id, req.params.id);
+  if (!deleted) {
+    return res.status(404).json({
+      error: 'Run not found',
+      type: 'not_found'
+    });
+  }
+
+  res.json({ success: true });
+}));
+
+app.delete('/api/history', catchAsync(async (req, res) => {
+  await clearRuns(req.user.id);
+  res.json({ success: true });
+}));
+
+app.get('/api/templates', catchAsync(async (req, res) => {
+  const templates = await listTemplates();
+  res.json({ success: true, templates });
+}));
+
+app.post('/api/templates', catchAsync(async (req, res) => {
+  const validationError = validateTemplate(req.body);
+  if (validationError) {
+    return res.status(400).json({
+      error: validationError,
+      type: 'validation_error'
+    });
+  }
+
+  const template = await saveTemplate(req.body);
+  res.json({ success: true, template });
+}));
+
+app.delete('/api/templates/:id', requireAdmin, catchAsync(async (req, res) => {
+  const deleted = await deleteTemplate(req.params.id);
+  if (!deleted) {
+    return res.status(404).json({
+      error: 'Template not found',
+      type: 'not_found'
+    });
+  }
+
+  res.json({ success: true });
+}));
+
+// Prompt library endpoints
+app.get('/api/prompts', catchAsync(async (req, res) => {
+  const prompts = await listPrompts();
+  res.json({ success: true, prompts });
+}));
+
+// Read-only: the version tagged production, for applications that load prompts by name
+app.get('/api/prompts/by-name/:name', catchAsync(async (req, res) => {
+  const prompt = await getProductionPrompt(req.params.name);
+  if (!prompt) {
+    return res.status(404).json({
+      error: 'No production version of a prompt with that name',
+      type: 'not_found'
+    });
+  }
+
+  res.json({ success: true, prompt });
+}));
+
+app.get('/api/prompts/:id', catchAsync(async (req, res) => {
+  const prompt = await getPrompt(req.params.id);
+  if (!prompt) {
+    return res.status(404).json({
+      error: 'Prompt not found',
+      type: 'not_found'
+    });
+  }
+
+  res.json({ success: true, prompt });
+}));
+
+// Saving under an existing name adds a version instead of overwriting
+app.post('/api/prompts', catchAsync(async (req, res) => {
+  const validationError = validatePromptVersion(req.body);
+  if (validationError) {
+    return res.status(400).json({
+      error: validationError,
+      type: 'validation_error'
+    });
+  }
+
+  try {
+    const prompt = await savePromptVersion(req.body, req.user);
+    logger.info('Prompt version saved', {
+      promptId: prompt.id,
+      version: prompt.versions.at(-1).version,
+      ...requestFields(req)
+    });
+    res.json({ success: true, prompt });
+  } catch (error) {
+    res.status(400).json({
+      error: error.message,
+      type: 'validation_error'
+    });
+  }
+}));
 
-    if (error.name === 'AbortError') {
-      return res.status(408).json({
-        error: 'Request timeout. Please try again.',
-        type: 'timeout'
+const isVersionNumber = (value) => Number.isInteger(value) && value > 0;
+
+app.post('/api/prompts/:id/rollback', catchAsync(async (req, res) => {
+  const { version } = req.body;
+  if (!isVersionNumber(version)) {
+    return res.status(400).json({
+      error: 'Version must be a positive integer',
+      type: 'validation_error'
+    });
+  }
+
+  try {
+    const prompt = await rollbackPrompt(req.params.id, version, req.user);
+    if (!prompt) {
+      return res.status(404).json({
+        error: 'Prompt version not found',
+        type: 'not_found'
       });
     }
+    res.json({ success: true, prompt });
+  } catch (error) {
+    res.status(400).json({
+      error: error.message,
+      type: 'validation_error'
+    });
+  }
+}));
+
+// A null version removes the production tag
+app.put('/api/prompts/:id/production', requireAdmin, catchAsync(async (req, res) => {
+  const { version } = req.body;
+  if (version !== null && !isVersionNumber(version)) {
+    return res.status(400).json({
+      error: 'Version must be a positive integer or null',
+      type: 'validation_error'
+    });
+  }
+
+  const prompt = await setProductionVersion(req.params.id, version);
+  if (!prompt) {
+    return res.status(404).json({
+      error: 'Prompt version not found',
+      type: 'not_found'
+    });
+  }
+
+  logger.info('Prompt production version set', {
+    promptId: prompt.id,
+    version,
+    ...requestFields(req)
+  });
+  res.json({ success: true, prompt });
+}));
 
-    // Generic error handling - don't expose internal details
-    res.status(500).json({
-      error: 'An error occurred while processing your request',
-      type: 'server_error'
+app.delete('/api/prompts/:id', requireAdmin, catchAsync(async (req, res) => {
+  const deleted = await deletePrompt(req.params.id);
+  if (!deleted) {
+    return res.status(404).json({
+      error: 'Prompt not found',
+      type: 'not_found'
     });
   }
+
+  res.json({ success: true });
+}));
+
+// Imported files and shared links are checked against the same limits as /api/chat
+app.post('/api/sessions/validate', (req, res) => {
+  const validationError = validateSession(req.body);
+  if (validationError) {
+    return res.status(400).json({
+      error: validationError,
+      type: 'validation_error'
+    });
+  }
+
+  res.json({ success: true });
 });
 
 // Global error handler
 app.use((error, req, res, next) => {
-  console.error('Unhandled error:', {
+  logger.error('Unhandled error', {
     message: error.message,
     stack: error.stack,
-    timestamp: new Date().toISOString(),
+    traceId: req.traceId,
+    userId: req.user?.id,
     ip: req.ip
   });
 
+  // A stream that already started can only be ended
+  if (res.headersSent) {
+    return res.end();
+  }
+
   res.status(500).json({
     error: 'Internal server error',
     type: 'server_error'
@@ -324,7 +1486,15 @@ app.use((req, res) => {
 });
 
 app.listen(port, () => {
-  console.log(`Server running at http://localhost:${port}`);
-  console.log('Environment:', process.env.NODE_ENV || 'development');
-  console.log('OpenAI API Key configured:', !!process.env.OPENAI_API_KEY);
+  logger.info('Server started', {
+    url: `http://localhost:${port}`,
+    environment: process.env.NODE_ENV || 'development',
+    openAIKeyConfigured: !!process.env.OPENAI_API_KEY,
+    authRequired,
+    userProviderKeys: byokEnabled,
+    responseCache: cacheSettings.enabled
+      ? `${cacheSettings.maxEntries} entries, ${cacheSettings.ttlSeconds}s TTL`
+      : 'disabled',
+    providers: listProviders().map(({ id }) => id)
+  });
 });
\ No newline at end of file
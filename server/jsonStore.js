@@ -0,0 +1,64 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { logger } from './logger.js';
+
+// Default location for the server's local data files
+export const dataDirectory = path.join(path.dirname(fileURLToPath(import.meta.url)), 'data');
+
+// A JSON document on disk, loaded once and rewritten on every save. Saves are
+// serialized and go through a temp file so a crash never leaves half a file behind.
+// With `reloadOnChange`, edits made by another process (such as a CLI) are
+// picked up on the next load.
+export const createJsonFileStore = (filePath, createDefault, isValid = () => true, { reloadOnChange = false } = {}) => {
+  let loading = null;
+  let loadedMtime = null;
+  let writeQueue = Promise.resolve();
+
+  const modifiedTime = () => fs.stat(filePath).then(({ mtimeMs }) => mtimeMs, () => null);
+
+  const load = async () => {
+    if (reloadOnChange) {
+      const mtime = await modifiedTime();
+      if (mtime !== loadedMtime) {
+        loadedMtime = mtime;
+        loading = null;
+      }
+    }
+
+    loading ??= fs.readFile(filePath, 'utf8')
+      .then((contents) => {
+        const parsed = JSON.parse(contents);
+        return isValid(parsed) ? parsed : createDefault();
+      })
+      .catch((error) => {
+        if (error.code !== 'ENOENT') {
+          logger.error('Failed to read data file', {
+            message: error.message,
+            file: filePath
+          });
+        }
+        return createDefault();
+      });
+    return loading;
+  };
+
+  const save = (data) => {
+    writeQueue = writeQueue
+      .then(async () => {
+        const tempFile = `${filePath}.tmp`;
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(tempFile, JSON.stringify(data, null, 2));
+        await fs.rename(tempFile, filePath);
+      })
+      .catch((error) => {
+        logger.error('Failed to write data file', {
+          message: error.message,
+          file: filePath
+        });
+      });
+    return writeQueue;
+  };
+
+  return { load, save };
+};
@@ -0,0 +1,20 @@
+// Structured logging: one JSON object per line, so log shippers can index
+// fields like traceId and userId without parsing free text.
+const levels = { debug: 10, info: 20, warn: 30, error: 40 };
+const minLevel = levels[process.env.LOG_LEVEL] ?? levels.info;
+
+const write = (level, message, fields = {}) => {
+  if (levels[level] < minLevel) {
+    return;
+  }
+
+  const line = JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...fields });
+  (levels[level] >= levels.warn ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+export const logger = {
+  debug: (message, fields) => write('debug', message, fields),
+  info: (message, fields) => write('info', message, fields),
+  warn: (message, fields) => write('warn', message, fields),
+  error: (message, fields) => write('error', message, fields)
+};
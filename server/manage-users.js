@@ -0,0 +1,101 @@
+// Manage playground users and their API tokens from the command line:
+//
+//   npm run users -- add <name> [--admin] [--rate-limit N] [--daily-tokens N]
+//   npm run users -- list
+//   npm run users -- limits <id> [--rate-limit N|none] [--daily-tokens N|none]
+//   npm run users -- rotate <id>
+//   npm run users -- remove <id>
+//
+// Tokens are printed once and only their hash is stored.
+import 'dotenv/config';
+import { createUser, deleteUser, listUsers, rotateToken, setUserLimits, validateLimits } from './auth.js';
+
+const [command, ...args] = process.argv.slice(2);
+
+const readOption = (name) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+// `none` clears a custom limit so the server default applies again
+const parseLimitOption = (name) => {
+  const value = readOption(name);
+  if (value === undefined) return undefined;
+  return value === 'none' ? null : Number(value);
+};
+
+const readLimits = () => {
+  const limits = Object.fromEntries(
+    [['rateLimit', parseLimitOption('rate-limit')], ['dailyTokens', parseLimitOption('daily-tokens')]]
+      .filter(([, value]) => value !== undefined)
+  );
+
+  const error = validateLimits(limits);
+  if (error) {
+    throw new Error(error);
+  }
+  return limits;
+};
+
+const fail = (message) => {
+  console.error(message);
+  process.exit(1);
+};
+
+const printToken = (token) => {
+  console.log(`Token: ${token}`);
+  console.log('Store it now: it cannot be shown again.');
+};
+
+try {
+  switch (command) {
+    case 'add': {
+      const { user, token } = await createUser({
+        name: args[0],
+        role: args.includes('--admin') ? 'admin' : 'user',
+        limits: readLimits()
+      });
+      console.log(`Created ${user.role} ${user.name} (${user.id})`);
+      printToken(token);
+      break;
+    }
+
+    case 'list': {
+      const users = await listUsers();
+      if (users.length === 0) {
+        console.log('No users yet. Add one with: npm run users -- add <name>');
+      }
+      for (const user of users) {
+        const dailyTokens = user.limits.dailyTokens ? `${user.limits.dailyTokens} tokens/day` : 'no token quota';
+        const keys = user.keys.length > 0 ? `, own keys: ${user.keys.join(', ')}` : '';
+        console.log(`${user.id}  ${user.name} [${user.role}]  ${user.limits.rateLimit} req/15 min, ${dailyTokens}${keys}`);
+      }
+      break;
+    }
+
+    case 'limits': {
+      const user = await setUserLimits(args[0], readLimits());
+      if (!user) fail(`No user with id ${args[0]}`);
+      console.log(`Updated limits for ${user.name}:`, user.limits);
+      break;
+    }
+
+    case 'rotate': {
+      const token = await rotateToken(args[0]);
+      if (!token) fail(`No user with id ${args[0]}`);
+      printToken(token);
+      break;
+    }
+
+    case 'remove': {
+      if (!await deleteUser(args[0])) fail(`No user with id ${args[0]}`);
+      console.log(`Removed ${args[0]}`);
+      break;
+    }
+
+    default:
+      fail('Usage: npm run users -- add <name> [--admin] [--rate-limit N] [--daily-tokens N] | list | limits <id> [...] | rotate <id> | remove <id>');
+  }
+} catch (error) {
+  fail(error.message);
+}
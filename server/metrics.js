@@ -0,0 +1,224 @@
+import { classifyError } from './chat.js';
+
+// In-memory metrics, exposed in the Prometheus text format on /metrics and as
+// a JSON summary with per-minute series for the admin page. Everything resets
+// when the server restarts; Prometheus keeps the long-term history.
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+const SERIES_MINUTES = 60;
+// Latencies kept per minute for percentiles; later ones still count toward the totals
+const MAX_MINUTE_SAMPLES = 1000;
+
+const startedAt = Date.now();
+
+const escapeLabel = (value) => String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels) => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+// Series are keyed on their label values, in the order the labels were declared
+const createCounter = (name, help, labelNames) => {
+  const series = new Map();
+  const toLabels = (labels) => Object.fromEntries(labelNames.map((label) => [label, labels[label] ?? '']));
+
+  return {
+    inc: (labels, value = 1) => {
+      const key = JSON.stringify(labelNames.map((label) => labels[label] ?? ''));
+      const entry = series.get(key) ?? { labels: toLabels(labels), value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    },
+    entries: () => [...series.values()],
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} counter`,
+      ...[...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`)
+    ]
+  };
+};
+
+const createHistogram = (name, help, labelNames, buckets) => {
+  const series = new Map();
+  const toLabels = (labels) => Object.fromEntries(labelNames.map((label) => [label, labels[label] ?? '']));
+
+  return {
+    observe: (labels, value) => {
+      const key = JSON.stringify(labelNames.map((label) => labels[label] ?? ''));
+      const entry = series.get(key) ?? { labels: toLabels(labels), counts: buckets.map(() => 0), sum: 0, count: 0 };
+      buckets.forEach((bound, index) => {
+        if (value <= bound) entry.counts[index]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      series.set(key, entry);
+    },
+    entries: () => [...series.values()],
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} histogram`,
+      ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map((bound, index) => `${name}_bucket${formatLabels({ ...labels, le: bound })} ${counts[index]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`
+      ])
+    ]
+  };
+};
+
+const httpRequests = createCounter('playground_http_requests_total', 'HTTP requests by route and status code.', ['method', 'route', 'status']);
+const httpDuration = createHistogram('playground_http_request_duration_seconds', 'HTTP request duration in seconds.', ['method', 'route'], LATENCY_BUCKETS);
+const completions = createCounter('playground_completions_total', 'Model completions requested upstream.', ['provider', 'model']);
+const completionErrors = createCounter('playground_completion_errors_total', 'Failed completions by error type.', ['provider', 'model', 'type']);
+const completionsCancelled = createCounter('playground_completions_cancelled_total', 'Completions abandoned because the client went away or stopped the run.', ['provider', 'model']);
+const completionDuration = createHistogram('playground_completion_duration_seconds', 'Completion latency in seconds, streams included until their last chunk.', ['provider', 'model'], LATENCY_BUCKETS);
+const tokens = createCounter('playground_tokens_total', 'Tokens reported by providers.', ['provider', 'model', 'kind']);
+
+// Per-minute buckets for the admin page's charts, oldest first
+const minutes = new Map();
+
+const currentMinute = () => {
+  const start = Math.floor(Date.now() / 60000) * 60000;
+  for (const key of minutes.keys()) {
+    if (key <= start - SERIES_MINUTES * 60000) minutes.delete(key);
+  }
+
+  if (!minutes.has(start)) {
+    minutes.set(start, { completions: 0, errors: 0, tokens: 0, latencies: [] });
+  }
+  return minutes.get(start);
+};
+
+// Routes are labelled by their pattern (`/api/history/:id`), never the raw path,
+// so IDs in URLs don't create a series each
+export const recordHttpRequest = ({ method, route, status, durationMs }) => {
+  httpRequests.inc({ method, route, status });
+  httpDuration.observe({ method, route }, durationMs / 1000);
+};
+
+// Aborts carry a `TimeoutError` reason only when an attempt timed out (see
+// retry.js); any other abort means the client stopped the run or went away
+const wasCancelled = (options) => !!options?.signal?.aborted && options.signal.reason?.name !== 'TimeoutError';
+
+const recordCompletion = ({ provider, model, latencyMs, usage, error, cancelled }) => {
+  const labels = { provider, model };
+
+  // Not a failure, and not a latency worth charting
+  if (cancelled) {
+    completionsCancelled.inc(labels);
+    return;
+  }
+
+  const minute = currentMinute();
+
+  completions.inc(labels);
+  completionDuration.observe(labels, latencyMs / 1000);
+  minute.completions++;
+  if (minute.latencies.length < MAX_MINUTE_SAMPLES) {
+    minute.latencies.push(latencyMs);
+  }
+
+  if (error) {
+    completionErrors.inc({ ...labels, type: classifyError(error).body.type });
+    minute.errors++;
+  }
+
+  if (usage) {
+    tokens.inc({ ...labels, kind: 'prompt' }, usage.prompt_tokens ?? 0);
+    tokens.inc({ ...labels, kind: 'completion' }, usage.completion_tokens ?? 0);
+    minute.tokens += usage.total_tokens ?? 0;
+  }
+};
+
+// Wraps a provider so every completion and stream it serves is counted and
+// timed, whichever endpoint made the call
+export const instrumentProvider = (provider) => ({
+  ...provider,
+  complete: async (requestBody, options) => {
+    const startedAt = Date.now();
+    const labels = { provider: provider.id, model: requestBody.model };
+    try {
+      const completion = await provider.complete(requestBody, options);
+      recordCompletion({ ...labels, latencyMs: Date.now() - startedAt, usage: completion.usage });
+      return completion;
+    } catch (error) {
+      recordCompletion({ ...labels, latencyMs: Date.now() - startedAt, error, cancelled: wasCancelled(options) });
+      throw error;
+    }
+  },
+  stream: async function* (requestBody, options) {
+    const startedAt = Date.now();
+    const labels = { provider: provider.id, model: requestBody.model };
+    let usage = null;
+    try {
+      for await (const chunk of provider.stream(requestBody, options)) {
+        usage = chunk.usage ?? usage;
+        yield chunk;
+      }
+      recordCompletion({ ...labels, latencyMs: Date.now() - startedAt, usage });
+    } catch (error) {
+      recordCompletion({ ...labels, latencyMs: Date.now() - startedAt, error, cancelled: wasCancelled(options) });
+      throw error;
+    }
+  },
+  ...(provider.withApiKey && { withApiKey: (apiKey) => instrumentProvider(provider.withApiKey(apiKey)) })
+});
+
+export const renderMetrics = () => [
+  '# HELP playground_uptime_seconds Seconds since the server started.',
+  '# TYPE playground_uptime_seconds gauge',
+  `playground_uptime_seconds ${Math.round((Date.now() - startedAt) / 1000)}`,
+  ...[httpRequests, httpDuration, completions, completionErrors, completionsCancelled, completionDuration, tokens].flatMap((metric) => metric.render())
+].join('\n') + '\n';
+
+const percentile = (sorted, fraction) =>
+  sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * fraction) - 1)] : null;
+
+const sumWhere = (counter, match) => counter.entries()
+  .filter(({ labels }) => Object.entries(match).every(([label, value]) => labels[label] === value))
+  .reduce((total, { value }) => total + value, 0);
+
+// Totals per model and error type, plus the last hour minute by minute
+export const getMetricsSummary = () => {
+  const models = completions.entries().map(({ labels, value }) => {
+    const duration = completionDuration.entries().find((entry) => entry.labels.provider === labels.provider && entry.labels.model === labels.model);
+    return {
+      provider: labels.provider,
+      model: labels.model,
+      completions: value,
+      errors: sumWhere(completionErrors, labels),
+      promptTokens: sumWhere(tokens, { ...labels, kind: 'prompt' }),
+      completionTokens: sumWhere(tokens, { ...labels, kind: 'completion' }),
+      averageLatencyMs: duration?.count ? Math.round((duration.sum / duration.count) * 1000) : null
+    };
+  });
+
+  const errorTypes = {};
+  for (const { labels, value } of completionErrors.entries()) {
+    errorTypes[labels.type] = (errorTypes[labels.type] ?? 0) + value;
+  }
+
+  const newest = Math.floor(Date.now() / 60000) * 60000;
+  const series = Array.from({ length: SERIES_MINUTES }, (_, index) => {
+    const time = newest - (SERIES_MINUTES - 1 - index) * 60000;
+    const minute = minutes.get(time);
+    const sorted = [...(minute?.latencies ?? [])].sort((a, b) => a - b);
+    return {
+      time: new Date(time).toISOString(),
+      completions: minute?.completions ?? 0,
+      errors: minute?.errors ?? 0,
+      tokens: minute?.tokens ?? 0,
+      p50LatencyMs: percentile(sorted, 0.5),
+      p95LatencyMs: percentile(sorted, 0.95)
+    };
+  });
+
+  return {
+    startedAt: new Date(startedAt).toISOString(),
+    httpRequests: httpRequests.entries().reduce((total, { value }) => total + value, 0),
+    models,
+    errorTypes,
+    series
+  };
+};
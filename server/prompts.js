@@ -0,0 +1,178 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { createJsonFileStore, dataDirectory } from './jsonStore.js';
+import { validateChatParams } from './chat.js';
+
+const MAX_PROMPTS = 200;
+const MAX_VERSIONS = 200;
+const MAX_NAME_LENGTH = 100;
+const MAX_NOTE_LENGTH = 500;
+
+// The run settings a version keeps, in the shape the UI controls use
+const settingKeys = [
+  'systemPrompt', 'userPrompt', 'provider', 'model', 'temperature', 'maxTokens',
+  'presencePenalty', 'frequencyPenalty', 'stopSequence', 'responseFormat', 'jsonSchema',
+  'tools', 'toolChoice', 'topP', 'seed', 'n', 'logitBias', 'logprobs', 'topLogprobs', 'fallbackModels'
+];
+
+const store = createJsonFileStore(
+  process.env.PROMPTS_FILE || path.join(dataDirectory, 'prompts.json'),
+  () => [],
+  Array.isArray
+);
+
+const isObject = (value) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const latestVersion = (prompt) => prompt.versions.at(-1);
+
+const toSummary = (prompt) => ({
+  id: prompt.id,
+  name: prompt.name,
+  createdAt: prompt.createdAt,
+  updatedAt: latestVersion(prompt).createdAt,
+  latestVersion: latestVersion(prompt).version,
+  productionVersion: prompt.productionVersion
+});
+
+// Returns an error message, or null when the version can be saved
+export const validatePromptVersion = ({ name, note, settings }) => {
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+    return `Name is required and must be a string with max ${MAX_NAME_LENGTH} characters`;
+  }
+
+  if (note !== undefined && (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)) {
+    return `Note must be a string with max ${MAX_NOTE_LENGTH} characters`;
+  }
+
+  if (!isObject(settings)) {
+    return 'Settings must be an object';
+  }
+
+  const { systemPrompt, userPrompt } = settings;
+  if (typeof systemPrompt !== 'string' || typeof userPrompt !== 'string') {
+    return 'Prompts must be strings';
+  }
+
+  if (!systemPrompt.trim() && !userPrompt.trim()) {
+    return 'A system or user prompt is required';
+  }
+
+  // A library prompt may be a system prompt alone, so an empty user prompt
+  // is checked as a placeholder turn
+  const messages = [
+    ...(systemPrompt.trim() ? [{ role: 'system', content: systemPrompt }] : []),
+    { role: 'user', content: userPrompt.trim() ? userPrompt : '…' }
+  ];
+
+  return validateChatParams({ ...settings, messages });
+};
+
+// Prompt summaries, most recently updated first
+export const listPrompts = async () =>
+  (await store.load())
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+export const getPrompt = async (id) =>
+  (await store.load()).find((prompt) => prompt.id === id) || null;
+
+const appendVersion = (prompt, { note, settings }, author) => {
+  if (prompt.versions.length >= MAX_VERSIONS) {
+    throw new Error(`"${prompt.name}" has reached the maximum of ${MAX_VERSIONS} versions`);
+  }
+
+  const version = {
+    version: (prompt.versions.at(-1)?.version ?? 0) + 1,
+    createdAt: new Date().toISOString(),
+    author: author.name,
+    note: note?.trim() || '',
+    settings: Object.fromEntries(settingKeys.filter((key) => settings[key] !== undefined).map((key) => [key, settings[key]]))
+  };
+  prompt.versions.push(version);
+  return version;
+};
+
+// Saves the settings as a new version of the prompt with this name, creating the prompt on first save
+export const savePromptVersion = async ({ name, note, settings }, author) => {
+  const prompts = await store.load();
+  const trimmedName = name.trim();
+  let prompt = prompts.find((candidate) => candidate.name === trimmedName);
+
+  if (!prompt) {
+    if (prompts.length >= MAX_PROMPTS) {
+      throw new Error(`The library is full (max ${MAX_PROMPTS} prompts)`);
+    }
+
+    prompt = {
+      id: randomUUID(),
+      name: trimmedName,
+      createdAt: new Date().toISOString(),
+      productionVersion: null,
+      versions: []
+    };
+    prompts.push(prompt);
+  }
+
+  appendVersion(prompt, { note, settings }, author);
+
+  await store.save(prompts);
+  return prompt;
+};
+
+// Versions are immutable, so rolling back saves a copy of the old version as the newest one.
+// Resolves with the updated prompt, or null when the prompt or version does not exist.
+export const rollbackPrompt = async (id, versionNumber, author) => {
+  const prompts = await store.load();
+  const prompt = prompts.find((candidate) => candidate.id === id);
+  const target = prompt?.versions.find(({ version }) => version === versionNumber);
+  if (!target) {
+    return null;
+  }
+
+  appendVersion(prompt, { note: `Rolled back to v${versionNumber}`, settings: target.settings }, author);
+  await store.save(prompts);
+  return prompt;
+};
+
+// Tags one version as production, or clears the tag with a null version.
+// Resolves with the updated prompt, or null when the prompt or version does not exist.
+export const setProductionVersion = async (id, versionNumber) => {
+  const prompts = await store.load();
+  const prompt = prompts.find((candidate) => candidate.id === id);
+  if (!prompt || (versionNumber !== null && !prompt.versions.some(({ version }) => version === versionNumber))) {
+    return null;
+  }
+
+  prompt.productionVersion = versionNumber;
+  await store.save(prompts);
+  return prompt;
+};
+
+export const deletePrompt = async (id) => {
+  const prompts = await store.load();
+  const remaining = prompts.filter((prompt) => prompt.id !== id);
+  if (remaining.length === prompts.length) {
+    return false;
+  }
+
+  await store.save(remaining);
+  return true;
+};
+
+// The production version of a prompt, for applications fetching it by name;
+// null when there is no such prompt or none of its versions is tagged
+export const getProductionPrompt = async (name) => {
+  const prompt = (await store.load()).find((candidate) => candidate.name === name);
+  const version = prompt?.versions.find(({ version }) => version === prompt.productionVersion);
+  if (!version) {
+    return null;
+  }
+
+  return {
+    name: prompt.name,
+    version: version.version,
+    note: version.note,
+    createdAt: version.createdAt,
+    settings: version.settings
+  };
+};
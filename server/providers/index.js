@@ -0,0 +1,86 @@
+import { createOpenAIProvider } from './openai.js';
+import { createMockProvider } from './mock.js';
+import { getCatalogModels } from '../catalog.js';
+import { logger } from '../logger.js';
+import { instrumentProvider } from '../metrics.js';
+
+// Providers are registered from the environment at startup, so a missing key
+// simply leaves that provider out instead of stopping the server
+const providers = new Map();
+
+const register = (provider) => {
+  if (provider.models.length === 0) {
+    logger.warn('Model provider has no models in the catalog and was skipped', { provider: provider.id });
+    return;
+  }
+  providers.set(provider.id, instrumentProvider(provider));
+};
+
+const createOpenAI = () => createOpenAIProvider({
+  id: 'openai',
+  name: 'OpenAI',
+  apiKey: process.env.OPENAI_API_KEY,
+  models: getCatalogModels('openai')
+});
+
+if (process.env.OPENAI_API_KEY) {
+  register(createOpenAI());
+}
+
+if (process.env.OPENAI_COMPATIBLE_BASE_URL) {
+  const models = (process.env.OPENAI_COMPATIBLE_MODELS || '')
+    .split(',')
+    .map(model => model.trim())
+    .filter(Boolean);
+  const configuredModels = getCatalogModels('openai-compatible', models);
+
+  register(createOpenAIProvider({
+    id: 'openai-compatible',
+    name: process.env.OPENAI_COMPATIBLE_NAME || 'OpenAI-compatible',
+    // Most local servers ignore the key, but the SDK refuses to start without one
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+    baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    models: configuredModels.length > 0 ? configuredModels : getCatalogModels('openai-compatible', ['local-model'])
+  }));
+}
+
+// On by default for development; a production server only fakes completions when asked to
+const mockEnabled = process.env.NODE_ENV === 'production'
+  ? process.env.MOCK_PROVIDER === 'true'
+  : process.env.MOCK_PROVIDER !== 'false';
+
+if (mockEnabled) {
+  register(createMockProvider({
+    models: getCatalogModels('mock', ['mock-template', 'mock-echo']),
+    template: process.env.MOCK_RESPONSE_TEMPLATE?.replace(/\\n/g, '\n'),
+    streamDelayMs: parseInt(process.env.MOCK_STREAM_DELAY_MS, 10) || undefined
+  }));
+}
+
+// With KEY_ENCRYPTION_SECRET set, OpenAI is offered even without a server key
+// so users can bring their own. It goes last so it never becomes the default.
+if (!process.env.OPENAI_API_KEY && process.env.KEY_ENCRYPTION_SECRET) {
+  register(createOpenAI());
+}
+
+export const defaultProviderId = providers.has(process.env.DEFAULT_PROVIDER)
+  ? process.env.DEFAULT_PROVIDER
+  : providers.keys().next().value || null;
+
+if (defaultProviderId === 'mock') {
+  logger.warn('The mock provider is the default: runs get fake completions unless another provider is chosen');
+}
+
+// Pass the request user's decrypted `apiKeys` to run on their own key where they have one
+export const getProvider = (id, { apiKeys } = {}) => {
+  const provider = providers.get(id || defaultProviderId) || null;
+  const userApiKey = provider && apiKeys?.[provider.id];
+  return userApiKey && provider.withApiKey ? provider.withApiKey(userApiKey) : provider;
+};
+
+export const listProviders = () => [...providers.values()].map(({ id, name, models, withApiKey }) => ({
+  id,
+  name,
+  models,
+  userKeys: !!withApiKey
+}));
@@ -0,0 +1,243 @@
+// Deterministic provider for offline development, demos and tests. It never
+// leaves the machine: replies are an echo of the last user message or a
+// template, and usage numbers are estimated at four characters per token.
+// JSON mode, JSON schemas and tools get placeholder values that fit the schema.
+
+const estimateTokens = (text) => Math.ceil(text.length / 4);
+
+// Roughly what a low-detail image costs upstream
+const IMAGE_TOKENS = 85;
+
+// Multi-part content (a message with images) as text, each image shown as a marker
+const contentText = (content) => typeof content === 'string'
+  ? content
+  : content.map((part) => (part.type === 'text' ? part.text : '[image]')).join('\n');
+
+const estimateContentTokens = (content) => typeof content === 'string'
+  ? estimateTokens(content)
+  : content.reduce((total, part) => total + (part.type === 'text' ? estimateTokens(part.text) : IMAGE_TOKENS), 0);
+
+const renderTemplate = (template, values) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => (key in values ? String(values[key]) : match));
+
+// A minimal value that satisfies the common JSON Schema keywords
+const sampleFromSchema = (schema = {}, hint = '') => {
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object': {
+      const properties = schema.properties || {};
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, property]) => [key, sampleFromSchema(property, hint)])
+      );
+    }
+    case 'array':
+      return schema.minItems > 0 ? [sampleFromSchema(schema.items, hint)] : [];
+    case 'integer':
+    case 'number':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    default:
+      return hint;
+  }
+};
+
+// Same split the streamed reply uses, so tokens line up with the deltas
+const splitTokens = (text) => text.match(/\s*\S+|\s+$/g) || [];
+
+// Stable pseudo-random number in [0, 1) for a token, so logprobs repeat run to run
+const hashToUnit = (text) => {
+  let hash = 2166136261;
+  for (const char of text) {
+    hash = Math.imul(hash ^ char.codePointAt(0), 16777619);
+  }
+  return (hash >>> 0) / 2 ** 32;
+};
+
+const mockLogprobs = (content, seed = 0, topLogprobs = 0) =>
+  splitTokens(content).map((token, index) => {
+    const logprob = -3 * hashToUnit(`${seed}:${index}:${token}`) ** 2;
+    const alternatives = Array.from({ length: Math.max(0, topLogprobs - 1) }, (_, rank) => ({
+      token: `${token.match(/^\s*/)[0]}alt${rank + 1}`,
+      logprob: logprob - 1 - rank
+    }));
+    return {
+      token,
+      logprob,
+      topLogprobs: topLogprobs > 0 ? [{ token, logprob }, ...alternatives] : []
+    };
+  });
+
+const abortError = () => {
+  const error = new Error('Request was aborted.');
+  error.name = 'AbortError';
+  return error;
+};
+
+const sleep = (ms, signal) => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    return reject(abortError());
+  }
+
+  const timeoutId = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+
+  function onAbort() {
+    clearTimeout(timeoutId);
+    reject(abortError());
+  }
+
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const createMockProvider = ({
+  models,
+  template = 'Mock response from {{model}} (temperature {{temperature}}).\n\nYou said: {{prompt}}',
+  streamDelayMs = 20
+} = {}) => {
+  // Builds the full reply up front so streamed and non-streamed runs agree exactly
+  const generate = (requestBody) => {
+    const lastUserMessage = [...requestBody.messages].reverse().find((message) => message.role === 'user');
+    const prompt = lastUserMessage ? contentText(lastUserMessage.content) : '';
+
+    // `!error <code>` simulates an upstream failure so error handling can be exercised
+    // offline. A numeric code is an HTTP status, and naming a model after it makes
+    // only that model fail, so fallbacks can be tried out too.
+    const simulatedError = prompt.match(/^!error\s+(\w+)(?:\s+(\S+))?/);
+    if (simulatedError && (!simulatedError[2] || simulatedError[2] === requestBody.model)) {
+      const [, code] = simulatedError;
+      const error = new Error(`Simulated ${code} error`);
+      if (/^\d+$/.test(code)) {
+        error.status = Number(code);
+      } else {
+        error.code = code;
+      }
+      throw error;
+    }
+
+    const baseContent = requestBody.model === 'mock-echo'
+      ? prompt
+      : renderTemplate(template, {
+          prompt,
+          model: requestBody.model,
+          temperature: requestBody.temperature,
+          max_tokens: requestBody.max_tokens,
+          messages: requestBody.messages.length
+        });
+
+    const choices = Array.from({ length: requestBody.n || 1 }, (_, index) =>
+      generateChoice(requestBody, prompt, index === 0 ? baseContent : `(choice ${index + 1}) ${baseContent}`)
+    );
+
+    const promptTokens = requestBody.messages.reduce((total, message) => total + estimateContentTokens(message.content) + 4, 0);
+    const completionTokens = choices.reduce((total, choice) =>
+      total + estimateTokens(choice.content + choice.toolCalls.map((call) => call.name + call.arguments).join('')), 0);
+
+    return {
+      ...choices[0],
+      choices,
+      model: requestBody.model,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+      }
+    };
+  };
+
+  // One reply: structured output, stop sequences and max_tokens applied to `content`
+  const generateChoice = (requestBody, prompt, initialContent) => {
+    let content = initialContent;
+    let finishReason = 'stop';
+    let toolCalls = [];
+
+    // `!text` ignores any requested JSON format or tools, like a model that does not comply
+    const ignoreStructure = prompt.startsWith('!text');
+
+    if (!ignoreStructure && requestBody.tools?.length > 0 && requestBody.tool_choice !== 'none') {
+      const { name, parameters } = requestBody.tools[0].function;
+      toolCalls = [{ id: 'call_mock_0', name, arguments: JSON.stringify(sampleFromSchema(parameters, prompt)) }];
+      content = '';
+      finishReason = 'tool_calls';
+    } else if (!ignoreStructure && requestBody.response_format?.type === 'json_schema') {
+      content = JSON.stringify(sampleFromSchema(requestBody.response_format.json_schema.schema, prompt), null, 2);
+    } else if (!ignoreStructure && requestBody.response_format?.type === 'json_object') {
+      content = JSON.stringify({ response: content }, null, 2);
+    }
+
+    for (const stop of requestBody.stop || []) {
+      const index = content.indexOf(stop);
+      if (index !== -1) {
+        content = content.slice(0, index);
+      }
+    }
+
+    const maxCharacters = requestBody.max_tokens * 4;
+    if (content.length > maxCharacters) {
+      content = content.slice(0, maxCharacters);
+      finishReason = 'length';
+    }
+
+    return {
+      content,
+      toolCalls,
+      finishReason,
+      logprobs: requestBody.logprobs ? mockLogprobs(content, requestBody.seed, requestBody.top_logprobs) : null
+    };
+  };
+
+  return {
+    id: 'mock',
+    name: 'Mock (offline)',
+    models,
+
+    async complete(requestBody, { signal }) {
+      await sleep(streamDelayMs, signal);
+      return generate(requestBody);
+    },
+
+    // Flags any text containing `!unsafe`, so moderation can be exercised offline
+    async moderate(input, { signal }) {
+      await sleep(streamDelayMs, signal);
+      const flagged = input.some((text) => text.includes('!unsafe'));
+      return { flagged, categories: flagged ? ['mock'] : [] };
+    },
+
+    async *stream(requestBody, { signal }) {
+      const result = generate(requestBody);
+      const pieces = splitTokens(result.content);
+
+      for (const [index, piece] of pieces.entries()) {
+        await sleep(streamDelayMs, signal);
+        yield {
+          model: result.model,
+          content: piece,
+          toolCalls: [],
+          finishReason: null,
+          logprobs: result.logprobs ? [result.logprobs[index]] : [],
+          usage: null
+        };
+      }
+
+      if (result.toolCalls.length > 0) {
+        await sleep(streamDelayMs, signal);
+        yield {
+          model: result.model,
+          content: '',
+          toolCalls: result.toolCalls.map((call, index) => ({ index, ...call })),
+          finishReason: null,
+          usage: null
+        };
+      }
+
+      yield { model: result.model, content: '', toolCalls: [], finishReason: result.finishReason, usage: result.usage };
+    }
+  };
+};
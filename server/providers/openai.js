@@ -0,0 +1,103 @@
+import OpenAI from 'openai';
+
+// Per-token log probabilities in the shape the rest of the server uses
+const normalizeLogprobs = (logprobs) =>
+  (logprobs?.content || []).map(({ token, logprob, top_logprobs }) => ({
+    token,
+    logprob,
+    topLogprobs: (top_logprobs || []).map((alternative) => ({
+      token: alternative.token,
+      logprob: alternative.logprob
+    }))
+  }));
+
+const normalizeChoice = (choice) => ({
+  content: choice?.message?.content || '',
+  toolCalls: (choice?.message?.tool_calls || []).map(({ id, function: fn }) => ({
+    id,
+    name: fn.name,
+    arguments: fn.arguments
+  })),
+  finishReason: choice?.finish_reason || null,
+  logprobs: choice?.logprobs ? normalizeLogprobs(choice.logprobs) : null
+});
+
+// Provider backed by the official OpenAI SDK. Passing a baseURL points it at
+// any server that speaks the OpenAI chat completions API (llama.cpp, Ollama, vLLM...).
+// Without an apiKey the provider only serves users who bring their own.
+export const createOpenAIProvider = ({ id, name, apiKey, baseURL, models }) => {
+  // The server retries and falls back itself (see retry.js), so the SDK must not retry too
+  const client = apiKey ? new OpenAI({ apiKey, maxRetries: 0, ...(baseURL && { baseURL }) }) : null;
+
+  const getClient = () => {
+    if (!client) {
+      const error = new Error(`No API key configured for ${id}`);
+      error.code = 'missing_api_key';
+      throw error;
+    }
+    return client;
+  };
+
+  return {
+    id,
+    name,
+    models,
+    // Where requests go, for exported code snippets
+    baseURL: client?.baseURL ?? baseURL ?? null,
+    // False when only users with their own key can run it
+    hasApiKey: !!client,
+
+    // The same provider, billed to a user's own key
+    withApiKey: (userApiKey) => createOpenAIProvider({ id, name, apiKey: userApiKey, baseURL, models }),
+
+    async complete(requestBody, { signal }) {
+      const completion = await getClient().chat.completions.create(requestBody, { signal });
+
+      // The first choice is the reply; `choices` holds all of them when n > 1
+      const choices = completion.choices.map(normalizeChoice);
+
+      return {
+        ...(choices[0] || normalizeChoice(null)),
+        choices,
+        usage: completion.usage || null,
+        model: completion.model
+      };
+    },
+
+    // Flagged when any input is; categories are the ones flagged across all of them
+    async moderate(input, { signal }) {
+      const { results } = await getClient().moderations.create({ model: 'omni-moderation-latest', input }, { signal });
+      const categories = new Set(results.flatMap((result) =>
+        Object.entries(result.categories).filter(([, flagged]) => flagged).map(([category]) => category)
+      ));
+
+      return { flagged: results.some((result) => result.flagged), categories: [...categories] };
+    },
+
+    async *stream(requestBody, { signal }) {
+      const completionStream = await getClient().chat.completions.create({
+        ...requestBody,
+        stream: true,
+        stream_options: { include_usage: true }
+      }, { signal });
+
+      for await (const chunk of completionStream) {
+        const choice = chunk.choices[0];
+        yield {
+          model: chunk.model,
+          content: choice?.delta?.content || '',
+          // Tool call fragments; `index` says which call each one extends
+          toolCalls: (choice?.delta?.tool_calls || []).map(({ index, id, function: fn }) => ({
+            index,
+            id,
+            name: fn?.name,
+            arguments: fn?.arguments
+          })),
+          finishReason: choice?.finish_reason || null,
+          logprobs: choice?.logprobs ? normalizeLogprobs(choice.logprobs) : [],
+          usage: chunk.usage || null
+        };
+      }
+    }
+  };
+};
@@ -0,0 +1,100 @@
+import { Worker } from 'worker_threads';
+
+// Time each pattern may take once its worker is running; time spent waiting
+// for a free worker or for the worker to boot doesn't count
+export const REGEX_TIMEOUT_MS = 1000;
+// Workers running at once across every request; the rest wait their turn
+const MAX_WORKERS = 2;
+
+// Tests the patterns in order, reporting each result as soon as it's known
+const workerSource = `
+  const { parentPort, workerData } = require('worker_threads');
+  for (const pattern of workerData.patterns) {
+    parentPort.postMessage(new RegExp(pattern).test(workerData.text));
+  }
+`;
+
+let running = 0;
+const waiting = [];
+
+const acquireWorker = () => {
+  if (running < MAX_WORKERS) {
+    running++;
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => waiting.push(resolve));
+};
+
+// Hands the slot straight to the next waiter, if there is one
+const releaseWorker = () => {
+  const next = waiting.shift();
+  if (next) {
+    next();
+  } else {
+    running--;
+  }
+};
+
+// Runs `patterns` in one worker until they are all done or one of them runs out
+// of time (or crashes the worker). Resolves with the results it got, in order.
+const runWorker = (patterns, text) => new Promise((resolve) => {
+  const results = [];
+  let timeoutId = null;
+  let done = false;
+
+  const worker = new Worker(workerSource, {
+    eval: true,
+    workerData: { patterns, text },
+    resourceLimits: { maxOldGenerationSizeMb: 64 }
+  });
+
+  const finish = () => {
+    if (done) return;
+    done = true;
+    clearTimeout(timeoutId);
+    worker.terminate();
+    resolve(results);
+  };
+
+  const startClock = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(finish, REGEX_TIMEOUT_MS);
+  };
+
+  worker.once('online', startClock);
+  worker.on('message', (matched) => {
+    if (done) return;
+    results.push(matched);
+    if (results.length === patterns.length) {
+      finish();
+    } else {
+      startClock();
+    }
+  });
+  worker.once('error', finish);
+  worker.once('exit', finish);
+});
+
+// Patterns come from users and can backtrack catastrophically, so they run off
+// the event loop in a bounded pool of workers, one worker per call. A pattern
+// that takes longer than REGEX_TIMEOUT_MS has its worker terminated and the
+// rest continue in a fresh one. Resolves with, per pattern, whether `text`
+// matched, or null when the pattern was given up on.
+export const testRegexes = async (patterns, text) => {
+  const results = [];
+
+  while (results.length < patterns.length) {
+    await acquireWorker();
+    try {
+      results.push(...await runWorker(patterns.slice(results.length), text));
+    } finally {
+      releaseWorker();
+    }
+
+    if (results.length < patterns.length) {
+      results.push(null);
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,135 @@
+import { classifyError } from './chat.js';
+import { logger } from './logger.js';
+
+const readInteger = (value, fallback, min) => {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isInteger(parsed) && parsed >= min ? parsed : fallback;
+};
+
+// Attempts per model, including the first, and the backoff between them
+export const retryConfig = {
+  maxAttempts: readInteger(process.env.RETRY_MAX_ATTEMPTS, 3, 1),
+  baseDelayMs: readInteger(process.env.RETRY_BASE_DELAY_MS, 1000, 0),
+  // Longest wait before giving up on a model; a longer Retry-After moves on to the fallback
+  maxDelayMs: readInteger(process.env.RETRY_MAX_DELAY_MS, 20000, 0)
+};
+
+// Transient failures are retried on the same model
+const retryableErrorTypes = ['rate_limit', 'timeout', 'upstream_error'];
+// A model that is missing or still failing after its retries hands over to the next fallback
+const fallbackErrorTypes = ['model_not_found', ...retryableErrorTypes];
+
+const readHeader = (headers, name) =>
+  typeof headers?.get === 'function' ? headers.get(name) : headers?.[name];
+
+// How long the provider asked us to wait, from `retry-after-ms` or `retry-after`
+// (seconds or an HTTP date). Null when it didn't say.
+const retryAfterMs = (error) => {
+  const milliseconds = readHeader(error.headers, 'retry-after-ms');
+  if (milliseconds && Number.isFinite(Number(milliseconds))) {
+    return Math.max(0, Number(milliseconds));
+  }
+
+  const value = readHeader(error.headers, 'retry-after');
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// The abort listener is removed either way, so a long run's signal doesn't
+// collect one per backoff
+const sleep = (ms, signal) => new Promise((resolve) => {
+  const onAbort = () => {
+    clearTimeout(timeoutId);
+    resolve();
+  };
+  const timeoutId = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+// An abort signal for one attempt: it fires when `parent` does, or once `timeoutMs`
+// pass without a `reset()`. Its reason is a `TimeoutError` only in the second case,
+// which keeps timeouts apart from cancelled runs. Call `clear()` when the attempt is over.
+export const createAttemptSignal = (parent, timeoutMs) => {
+  const controller = new AbortController();
+  const abort = () => controller.abort(parent.reason);
+  const timeOut = () => controller.abort(new DOMException('The attempt timed out', 'TimeoutError'));
+  parent.addEventListener('abort', abort);
+  let timeoutId = setTimeout(timeOut, timeoutMs);
+
+  return {
+    signal: controller.signal,
+    reset: () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(timeOut, timeoutMs);
+    },
+    clear: () => {
+      clearTimeout(timeoutId);
+      parent.removeEventListener('abort', abort);
+    }
+  };
+};
+
+// Run `attempt(requestBody)` against each request in turn, the requested model
+// first and then its fallbacks, retrying transient errors with exponential
+// backoff. Resolves with the value, the request that produced it and the number
+// of attempts made. The final error is rethrown with `attempts` set on it; nothing
+// is retried once `signal` aborts.
+export const withRetries = async (requests, attempt, { signal, log = {} }) => {
+  let attempts = 0;
+
+  for (const [index, requestBody] of requests.entries()) {
+    const isLastModel = index === requests.length - 1;
+
+    for (let modelAttempt = 1; ; modelAttempt++) {
+      attempts++;
+      try {
+        const value = await attempt(requestBody);
+        return { value, requestBody, attempts };
+      } catch (error) {
+        error.attempts = attempts;
+        const { type } = classifyError(error).body;
+        if (signal.aborted) {
+          throw error;
+        }
+
+        const delayMs = retryAfterMs(error) ?? retryConfig.baseDelayMs * 2 ** (modelAttempt - 1);
+        const canRetry = retryableErrorTypes.includes(type) &&
+          modelAttempt < retryConfig.maxAttempts &&
+          delayMs <= retryConfig.maxDelayMs;
+
+        if (canRetry) {
+          logger.warn('Retrying completion', { model: requestBody.model, attempt: attempts, type, delayMs, ...log });
+          await sleep(delayMs, signal);
+          if (signal.aborted) {
+            throw error;
+          }
+          continue;
+        }
+
+        if (isLastModel || !fallbackErrorTypes.includes(type)) {
+          throw error;
+        }
+
+        logger.warn('Falling back to another model', {
+          model: requestBody.model,
+          fallback: requests[index + 1].model,
+          type,
+          ...log
+        });
+        break;
+      }
+    }
+  }
+};
@@ -0,0 +1,54 @@
+import Ajv from 'ajv';
+
+// Shared JSON Schema validator for structured output and assertions
+export const ajv = new Ajv({ allErrors: true, strict: false });
+
+const MAX_COMPILED_SCHEMAS = 200;
+
+// Validators by schema text, least recently used first. Ajv keeps every schema
+// object it compiles, so evicted ones are removed from it too.
+const compiled = new Map();
+
+// Schemas arrive fresh with every request, so a top-level $id would clash with
+// the copy Ajv registered the last time the same schema was compiled
+export const compileSchema = (schema) => {
+  const copy = { ...schema };
+  delete copy.$id;
+
+  const key = JSON.stringify(copy);
+  const cached = compiled.get(key);
+  if (cached) {
+    compiled.delete(key);
+    compiled.set(key, cached);
+    return cached;
+  }
+
+  const validate = ajv.compile(copy);
+  compiled.set(key, validate);
+  if (compiled.size > MAX_COMPILED_SCHEMAS) {
+    const [oldestKey, oldest] = compiled.entries().next().value;
+    compiled.delete(oldestKey);
+    ajv.removeSchema(oldest.schema);
+  }
+  return validate;
+};
+
+// Models often wrap JSON in a Markdown code fence
+export const stripCodeFence = (text) => {
+  const match = text.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/);
+  return match ? match[1] : text;
+};
+
+// Returns an error message, or null when `schema` compiles
+export const checkSchema = (schema) => {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return 'must be a JSON Schema object';
+  }
+
+  try {
+    compileSchema(schema);
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+};
@@ -0,0 +1,85 @@
+import { validateChatParams } from './chat.js';
+import { validateAssertions } from './evaluation.js';
+import { getProvider } from './providers/index.js';
+
+export const SESSION_VERSION = 1;
+const MAX_VARIABLES = 50;
+const MAX_OUTPUT_LENGTH = 100000;
+
+const isObject = (value) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Returns an error message, or null when an imported or shared playground
+// session holds settings that /api/chat would accept
+export const validateSession = (session) => {
+  if (!isObject(session) || session.version !== SESSION_VERSION) {
+    return `Not a playground session (expected version ${SESSION_VERSION})`;
+  }
+
+  const { settings, streamResponse, conversation, templateValues, assertions, output } = session;
+
+  if (!isObject(settings)) {
+    return 'Session settings must be an object';
+  }
+
+  const { systemPrompt, userPrompt } = settings;
+  if (typeof systemPrompt !== 'string' || typeof userPrompt !== 'string') {
+    return 'Session prompts must be strings';
+  }
+
+  if (streamResponse !== undefined && typeof streamResponse !== 'boolean') {
+    return 'streamResponse must be a boolean';
+  }
+
+  if (conversation !== undefined && !Array.isArray(conversation)) {
+    return 'Conversation must be an array of messages';
+  }
+
+  // Sessions are often saved before the next user turn is typed, so an
+  // empty prompt is checked as a placeholder turn
+  const messages = [
+    ...(systemPrompt.trim() ? [{ role: 'system', content: systemPrompt }] : []),
+    ...(conversation ?? []),
+    { role: 'user', content: userPrompt.trim() ? userPrompt : '…' }
+  ];
+
+  const settingsError = validateChatParams({ ...settings, messages });
+  if (settingsError) {
+    return settingsError;
+  }
+
+  if (templateValues !== undefined) {
+    if (!isObject(templateValues)) {
+      return 'Template values must be an object of name/value pairs';
+    }
+
+    const entries = Object.entries(templateValues);
+    if (entries.length > MAX_VARIABLES) {
+      return `Too many template values (max ${MAX_VARIABLES})`;
+    }
+
+    if (entries.some(([, value]) => typeof value !== 'string')) {
+      return 'Template values must be strings';
+    }
+  }
+
+  if (assertions !== undefined) {
+    const assertionsError = validateAssertions(assertions, { models: getProvider(settings.provider).models });
+    if (assertionsError) {
+      return assertionsError;
+    }
+  }
+
+  if (output !== undefined) {
+    if (!isObject(output) || typeof output.content !== 'string' || output.content.length > MAX_OUTPUT_LENGTH) {
+      return `Output must be an object with string content of max ${MAX_OUTPUT_LENGTH} characters`;
+    }
+
+    if (output.toolCalls !== undefined &&
+        (!Array.isArray(output.toolCalls) ||
+         !output.toolCalls.every(call => isObject(call) && typeof call.name === 'string' && typeof call.arguments === 'string'))) {
+      return 'Output tool calls must be objects with a name and arguments';
+    }
+  }
+
+  return null;
+};
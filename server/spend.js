@@ -0,0 +1,132 @@
+import path from 'path';
+import { createJsonFileStore, dataDirectory } from './jsonStore.js';
+
+// Spend is tracked per UTC day so both daily and monthly caps can be derived
+// from it. `users` holds each user's cost and tokens per day the same way.
+const store = createJsonFileStore(
+  process.env.SPEND_FILE || path.join(dataDirectory, 'spend.json'),
+  () => ({ days: {}, users: {} }),
+  (ledger) => !!ledger && typeof ledger.days === 'object'
+);
+
+const parseLimit = (value) => {
+  const limit = parseFloat(value);
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+};
+
+export const spendLimits = {
+  daily: parseLimit(process.env.SPEND_LIMIT_DAILY_USD),
+  monthly: parseLimit(process.env.SPEND_LIMIT_MONTHLY_USD)
+};
+
+const roundUsd = (value) => Math.round(value * 1e8) / 1e8;
+
+const dayKey = (date = new Date()) => date.toISOString().slice(0, 10);
+
+export const getSpendSummary = async () => {
+  const { days } = await store.load();
+  const today = dayKey();
+  const month = today.slice(0, 7);
+
+  const monthTotal = Object.entries(days)
+    .filter(([day]) => day.startsWith(month))
+    .reduce((total, [, amount]) => total + amount, 0);
+
+  return {
+    today: roundUsd(days[today] || 0),
+    month: roundUsd(monthTotal),
+    limits: spendLimits
+  };
+};
+
+// Adds a completion's cost to the server-wide total and, when `userId` is
+// given, its cost and tokens to that user's usage for the day
+export const recordSpend = async (cost, { userId, tokens } = {}) => {
+  if (!cost && !userId) {
+    return;
+  }
+
+  const ledger = await store.load();
+  const today = dayKey();
+
+  if (cost) {
+    ledger.days[today] = roundUsd((ledger.days[today] || 0) + cost);
+  }
+
+  if (userId) {
+    // Ledgers written before per-user tracking have no `users`
+    ledger.users ??= {};
+    const days = ledger.users[userId] ??= {};
+    const usage = days[today] ??= { cost: 0, tokens: 0, requests: 0 };
+    usage.cost = roundUsd(usage.cost + (cost || 0));
+    usage.tokens += tokens || 0;
+    usage.requests += 1;
+  }
+
+  await store.save(ledger);
+};
+
+export const getUserUsage = async (userId) => {
+  const { users = {} } = await store.load();
+  const days = users[userId] || {};
+  const today = dayKey();
+  const month = today.slice(0, 7);
+
+  const monthCost = Object.entries(days)
+    .filter(([day]) => day.startsWith(month))
+    .reduce((total, [, usage]) => total + usage.cost, 0);
+
+  return {
+    today: days[today] || { cost: 0, tokens: 0, requests: 0 },
+    monthCost: roundUsd(monthCost)
+  };
+};
+
+// Returns an error message once the user has used up their daily token quota, otherwise null
+export const checkUserQuota = async (user) => {
+  if (!user.limits.dailyTokens) {
+    return null;
+  }
+
+  const { today } = await getUserUsage(user.id);
+  if (today.tokens >= user.limits.dailyTokens) {
+    return `Daily quota of ${user.limits.dailyTokens.toLocaleString()} tokens reached. Try again tomorrow (UTC).`;
+  }
+
+  return null;
+};
+
+// Returns an error message once a configured cap has been reached, otherwise null
+export const checkBudget = async () => {
+  if (!spendLimits.daily && !spendLimits.monthly) {
+    return null;
+  }
+
+  const { today, month } = await getSpendSummary();
+
+  if (spendLimits.daily && today >= spendLimits.daily) {
+    return `Daily spending cap of $${spendLimits.daily} reached. Try again tomorrow (UTC).`;
+  }
+
+  if (spendLimits.monthly && month >= spendLimits.monthly) {
+    return `Monthly spending cap of $${spendLimits.monthly} reached.`;
+  }
+
+  return null;
+};
+
+// The spending cap or token quota that stops `user` from starting another run,
+// as a `{ status, body }` error, or null while both have room
+export const checkRunLimits = async (user) => {
+  const budgetError = await checkBudget();
+  if (budgetError) {
+    return { status: 402, body: { error: budgetError, type: 'budget_exceeded' } };
+  }
+
+  const quotaError = await checkUserQuota(user);
+  if (quotaError) {
+    return { status: 429, body: { error: quotaError, type: 'user_quota_exceeded' } };
+  }
+
+  return null;
+};
@@ -0,0 +1,122 @@
+import { validateChatParams } from './chat.js';
+import { completeWithRetries, runConcurrently } from './dataset.js';
+import { evaluateOutput } from './evaluation.js';
+
+// Parameters a sweep may vary; their ranges are checked by validateChatParams
+export const sweepParameters = ['temperature', 'maxTokens', 'presencePenalty', 'frequencyPenalty', 'topP'];
+
+const MAX_AXES = 2;
+const MAX_AXIS_VALUES = 10;
+const MAX_REPEATS = 5;
+const MAX_SWEEP_RUNS = 100;
+const MAX_CONCURRENCY = 5;
+const DEFAULT_CONCURRENCY = 3;
+
+// Every combination of axis values, as `{ [parameter]: value }` objects in
+// row-major order (the last axis varies fastest)
+export const sweepCells = (axes) =>
+  axes.reduce(
+    (cells, { parameter, values }) => cells.flatMap((cell) => values.map((value) => ({ ...cell, [parameter]: value }))),
+    [{}]
+  );
+
+// Validate a sweep: the axes and repeat count are checked for shape, and every
+// combination is checked as a chat request. Returns an error message or null.
+export const validateSweepParams = (params) => {
+  const { axes, repeats, concurrency, n } = params;
+
+  if (!Array.isArray(axes) || axes.length === 0 || axes.length > MAX_AXES) {
+    return `Axes must be an array of 1 to ${MAX_AXES} parameters`;
+  }
+
+  for (const [index, axis] of axes.entries()) {
+    const label = `Axis ${index + 1}`;
+
+    if (!axis || typeof axis !== 'object' || !sweepParameters.includes(axis.parameter)) {
+      return `${label} must sweep one of ${sweepParameters.join(', ')}`;
+    }
+
+    if (axes.findIndex(({ parameter }) => parameter === axis.parameter) !== index) {
+      return `${label}: ${axis.parameter} is already swept by another axis`;
+    }
+
+    const { values } = axis;
+    if (!Array.isArray(values) || values.length === 0 || values.length > MAX_AXIS_VALUES) {
+      return `${label}: values must be an array of 1 to ${MAX_AXIS_VALUES} numbers`;
+    }
+
+    if (values.some((value) => typeof value !== 'number' || !Number.isFinite(value))) {
+      return `${label}: values must be numbers`;
+    }
+
+    if (new Set(values).size !== values.length) {
+      return `${label}: values must not repeat`;
+    }
+  }
+
+  if (repeats !== undefined && (!Number.isInteger(repeats) || repeats < 1 || repeats > MAX_REPEATS)) {
+    return `repeats must be an integer between 1 and ${MAX_REPEATS}`;
+  }
+
+  if (concurrency !== undefined &&
+      (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY)) {
+    return `concurrency must be an integer between 1 and ${MAX_CONCURRENCY}`;
+  }
+
+  if (n !== undefined && n !== 1) {
+    return 'Sweeps keep one reply per run; set n to 1';
+  }
+
+  const cells = sweepCells(axes);
+  const runs = cells.length * (repeats ?? 1);
+  if (runs > MAX_SWEEP_RUNS) {
+    return `This sweep needs ${runs} runs; at most ${MAX_SWEEP_RUNS} are allowed`;
+  }
+
+  for (const cell of cells) {
+    const validationError = validateChatParams({ ...params, ...cell });
+    if (validationError) {
+      const label = Object.entries(cell).map(([parameter, value]) => `${parameter} ${value}`).join(', ');
+      return `${label}: ${validationError}`;
+    }
+  }
+
+  return null;
+};
+
+// The prompt given to LLM judges as context
+const promptOf = ({ userPrompt, messages }) =>
+  userPrompt ?? messages?.filter(({ role }) => role === 'user').at(-1)?.content ?? '';
+
+// Run every combination `repeats` times with at most `concurrency` runs in
+// flight. Each result carries its cell and repeat, and is scored against
+// `assertions` when given.
+export const runSweep = async (params, { signal, onResult, user, guardrails }) => {
+  const { axes, repeats = 1, concurrency = DEFAULT_CONCURRENCY, assertions } = params;
+  const cells = sweepCells(axes);
+
+  const runItem = async (index) => {
+    const cell = Math.floor(index / repeats);
+    const values = cells[cell];
+    const result = await completeWithRetries({ ...params, ...values }, { signal, user, guardrails });
+
+    const evaluation = result.success && assertions?.length > 0
+      ? await evaluateOutput(
+          { output: result.content, assertions, provider: params.provider, model: params.model, prompt: promptOf(params) },
+          { signal, user }
+        )
+      : null;
+
+    return {
+      index,
+      cell,
+      repeat: index % repeats,
+      values,
+      ...result,
+      length: result.content?.length ?? 0,
+      ...(evaluation && { evaluation: { success: true, ...evaluation } })
+    };
+  };
+
+  return runConcurrently(cells.length * repeats, concurrency, { signal, user, runItem, onResult });
+};
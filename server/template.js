@@ -0,0 +1,15 @@
+// `{{name}}` placeholders, matching the syntax the playground UI detects
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+export const extractVariables = (texts) => {
+  const names = new Set();
+  for (const text of texts) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return [...names];
+};
+
+export const renderTemplate = (text, values) =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name) => (values[name]?.trim() ? values[name] : placeholder));
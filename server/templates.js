@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { createJsonFileStore, dataDirectory } from './jsonStore.js';
+import { validateAssertions } from './evaluation.js';
+
+const MAX_TEMPLATES = 200;
+const MAX_NAME_LENGTH = 100;
+const MAX_PROMPT_LENGTH = 32000;
+const MAX_VARIABLES = 50;
+
+const store = createJsonFileStore(
+  process.env.TEMPLATES_FILE || path.join(dataDirectory, 'templates.json'),
+  () => [],
+  Array.isArray
+);
+
+// Saved templates, newest-first
+const loadTemplates = () => store.load();
+
+// Returns an error message, or null when the template can be saved
+export const validateTemplate = (template) => {
+  const { name, description, systemPrompt, userPrompt, variables, assertions } = template;
+
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+    return `Name is required and must be a string with max ${MAX_NAME_LENGTH} characters`;
+  }
+
+  if (description !== undefined && (typeof description !== 'string' || description.length > 200)) {
+    return 'Description must be a string with max 200 characters';
+  }
+
+  if (typeof userPrompt !== 'string' || !userPrompt.trim()) {
+    return 'User prompt is required and must be a non-empty string';
+  }
+
+  if (systemPrompt !== undefined && typeof systemPrompt !== 'string') {
+    return 'System prompt must be a string';
+  }
+
+  if ((systemPrompt?.length ?? 0) + userPrompt.length > MAX_PROMPT_LENGTH) {
+    return `Prompts too long (max ${MAX_PROMPT_LENGTH} characters in total)`;
+  }
+
+  // Default values for the template's variables
+  if (variables !== undefined) {
+    if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+      return 'Variables must be an object of name/value pairs';
+    }
+
+    const entries = Object.entries(variables);
+    if (entries.length > MAX_VARIABLES) {
+      return `Too many variables (max ${MAX_VARIABLES})`;
+    }
+
+    if (entries.some(([, value]) => typeof value !== 'string')) {
+      return 'Variable values must be strings';
+    }
+  }
+
+  if (assertions !== undefined) {
+    return validateAssertions(assertions);
+  }
+
+  return null;
+};
+
+export const listTemplates = () => loadTemplates();
+
+export const saveTemplate = async ({ name, description, systemPrompt, userPrompt, variables, assertions }) => {
+  const templates = await loadTemplates();
+  const entry = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    name: name.trim(),
+    description: description?.trim() || '',
+    systemPrompt: systemPrompt || '',
+    userPrompt,
+    variables: variables || {},
+    assertions: assertions || []
+  };
+
+  templates.unshift(entry);
+  if (templates.length > MAX_TEMPLATES) {
+    templates.length = MAX_TEMPLATES;
+  }
+
+  await store.save(templates);
+  return entry;
+};
+
+export const deleteTemplate = async (id) => {
+  const templates = await loadTemplates();
+  const index = templates.findIndex((template) => template.id === id);
+  if (index === -1) {
+    return false;
+  }
+
+  templates.splice(index, 1);
+  await store.save(templates);
+  return true;
+};
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Rules are read at import time, so write them first
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'guardrails-test-'));
+process.env.GUARDRAILS_FILE = path.join(directory, 'guardrails.json');
+process.env.LOG_LEVEL = 'error';
+fs.writeFileSync(process.env.GUARDRAILS_FILE, JSON.stringify({
+  rules: [
+    { id: 'email', detector: 'email', action: 'redact', appliesTo: ['input'] },
+    { id: 'card-number', detector: 'credit_card', action: 'block', appliesTo: ['input'] },
+    { id: 'codename', keywords: ['Bluebird'], action: 'redact', replacement: '[codename]', appliesTo: ['output'] },
+    { id: 'secret', name: 'Secret', pattern: 'secret-\\d+', action: 'block', appliesTo: ['output'] }
+  ]
+}));
+const { applyInputGuardrails, applyOutputGuardrails, canStreamOutput, guardrailError } = await import('../guardrails.js');
+
+test.after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+test('redacts matches in prompts and messages', () => {
+  const { params, findings, blocked } = applyInputGuardrails({
+    systemPrompt: 'Reply to ops@example.com',
+    userPrompt: 'Ask ana@example.org or bo@example.net',
+    messages: [{ role: 'user', content: 'I am cy@example.com' }]
+  });
+
+  assert.equal(params.systemPrompt, 'Reply to [REDACTED:email]');
+  assert.equal(params.userPrompt, 'Ask [REDACTED:email] or [REDACTED:email]');
+  assert.equal(params.messages[0].content, 'I am [REDACTED:email]');
+  assert.deepEqual(findings, [{ rule: 'email', name: 'Email address', stage: 'input', action: 'redact', count: 4 }]);
+  assert.equal(blocked, false);
+});
+
+test('redacts text file attachments', () => {
+  const data = Buffer.from('Contact: ana@example.org').toString('base64');
+  const { params } = applyInputGuardrails({
+    userPrompt: 'Summarize',
+    attachments: [{ type: 'file', name: 'notes.txt', mimeType: 'text/plain', data, size: 24 }]
+  });
+
+  assert.equal(Buffer.from(params.attachments[0].data, 'base64').toString('utf8'), 'Contact: [REDACTED:email]');
+});
+
+test('blocks a prompt with a valid card number', () => {
+  const { findings, blocked } = applyInputGuardrails({ userPrompt: 'My card is 4111 1111 1111 1111' });
+
+  assert.equal(blocked, true);
+  const { status, body } = guardrailError(findings);
+  assert.equal(status, 422);
+  assert.equal(body.type, 'guardrail_blocked');
+  assert.equal(body.error, 'The prompt was blocked by guardrails: Card number');
+});
+
+test('leaves numbers that fail the card check alone', () => {
+  const { findings, blocked } = applyInputGuardrails({ userPrompt: 'Order 4111 1111 1111 1112 shipped' });
+
+  assert.equal(blocked, false);
+  assert.deepEqual(findings, []);
+});
+
+test('redacts and blocks replies', async () => {
+  const redacted = await applyOutputGuardrails(['Project bluebird ships soon', 'No codename here'], {});
+  assert.deepEqual(redacted.texts, ['Project [codename] ships soon', 'No codename here']);
+  assert.equal(redacted.blocked, false);
+
+  const blocked = await applyOutputGuardrails(['The key is secret-42'], {});
+  assert.equal(blocked.blocked, true);
+  assert.equal(guardrailError(blocked.findings).body.error, 'The reply was blocked by guardrails: Secret');
+});
+
+test('turns off streaming while output rules can change replies', () => {
+  assert.equal(canStreamOutput, false);
+});
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The store's path is read at import time
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'history-test-'));
+process.env.HISTORY_FILE = path.join(directory, 'history.json');
+const { clearRuns, deleteRun, getRun, listRuns, recordRun } = await import('../history.js');
+
+test.after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+test('each user only sees, finds and deletes their own runs', async () => {
+  const alices = await recordRun({ userId: 'alice', userPrompt: 'Hello from alice' });
+  const bobs = await recordRun({ userId: 'bob', userPrompt: 'Hello from bob' });
+
+  const listed = await listRuns('alice');
+  assert.deepEqual(listed.runs.map(({ id }) => id), [alices.id]);
+  assert.equal(listed.total, 1);
+  assert.equal((await listRuns('alice', { query: 'bob' })).total, 0);
+
+  assert.equal(await getRun('alice', bobs.id), null);
+  assert.equal(await deleteRun('alice', bobs.id), false);
+  assert.equal((await getRun('bob', bobs.id)).userPrompt, 'Hello from bob');
+
+  await clearRuns('alice');
+  assert.equal((await listRuns('alice')).total, 0);
+  assert.equal((await listRuns('bob')).total, 1);
+
+  assert.equal(await deleteRun('bob', bobs.id), true);
+  assert.equal((await listRuns('bob')).total, 0);
+});
+
+test('caps history per user, dropping that user\'s oldest runs', async () => {
+  const quiet = await recordRun({ userId: 'quiet', userPrompt: 'Only run' });
+  const first = await recordRun({ userId: 'busy', userPrompt: 'Run 0' });
+  for (let index = 1; index <= 500; index++) {
+    await recordRun({ userId: 'busy', userPrompt: `Run ${index}` });
+  }
+
+  const busy = await listRuns('busy', { limit: 1000 });
+  assert.equal(busy.total, 500);
+  assert.equal(busy.runs[0].userPrompt, 'Run 500');
+  assert.equal(busy.runs.at(-1).userPrompt, 'Run 1');
+  assert.equal(await getRun('busy', first.id), null);
+
+  assert.equal((await getRun('quiet', quiet.id)).userPrompt, 'Only run');
+});
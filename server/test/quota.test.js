@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The ledger path is read at import time; no spending caps, only quotas
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'quota-test-'));
+process.env.SPEND_FILE = path.join(directory, 'spend.json');
+delete process.env.SPEND_LIMIT_DAILY_USD;
+delete process.env.SPEND_LIMIT_MONTHLY_USD;
+process.env.LOG_LEVEL = 'error';
+const { checkRunLimits, recordSpend } = await import('../spend.js');
+const { runConcurrently } = await import('../dataset.js');
+
+test.after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+const withQuota = (id, dailyTokens) => ({ id, limits: { dailyTokens } });
+
+test('rejects runs once a user\'s daily tokens are used up', async () => {
+  const alice = withQuota('alice', 100);
+  await recordSpend(0, { userId: 'alice', tokens: 60 });
+  assert.equal(await checkRunLimits(alice), null);
+
+  await recordSpend(0, { userId: 'alice', tokens: 40 });
+  const limitError = await checkRunLimits(alice);
+  assert.equal(limitError.status, 429);
+  assert.equal(limitError.body.type, 'user_quota_exceeded');
+  assert.match(limitError.body.error, /Daily quota of 100 tokens reached/);
+});
+
+test('counts each user\'s tokens separately, and no quota means no limit', async () => {
+  await recordSpend(0, { userId: 'bob', tokens: 500 });
+
+  assert.equal(await checkRunLimits(withQuota('carol', 100)), null);
+  assert.equal(await checkRunLimits(withQuota('bob', null)), null);
+});
+
+test('stops a dataset run at the quota, keeping the rows already done', async () => {
+  const dave = withQuota('dave', 100);
+  const reported = [];
+
+  const { results, stopped } = await runConcurrently(5, 1, {
+    signal: new AbortController().signal,
+    user: dave,
+    runItem: async (index) => {
+      await recordSpend(0, { userId: 'dave', tokens: 40 });
+      return { index, success: true };
+    },
+    onResult: (result) => reported.push(result.index)
+  });
+
+  assert.deepEqual(reported, [0, 1, 2]);
+  assert.equal(results.filter(Boolean).length, 3);
+  assert.equal(stopped.type, 'user_quota_exceeded');
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { REGEX_TIMEOUT_MS, testRegexes } from '../regex.js';
+
+// Backtracks catastrophically on a long run of `a`s that doesn't match
+const catastrophic = '^(a+)+$';
+const unmatchable = `${'a'.repeat(40)}!`;
+
+test('reports whether each pattern matched, in order', async () => {
+  assert.deepEqual(await testRegexes(['^hello', 'world$', '\\d+', '^$'], 'hello world'), [true, true, false, false]);
+});
+
+test('gives up on a pattern that runs too long and keeps testing the rest', async () => {
+  const startedAt = Date.now();
+  const results = await testRegexes(['a{40}', catastrophic, '!$'], unmatchable);
+
+  assert.deepEqual(results, [true, null, true]);
+  assert.ok(Date.now() - startedAt < REGEX_TIMEOUT_MS * 3);
+});
+
+test('does not time out valid patterns while many evaluations run at once', async () => {
+  const patterns = Array.from({ length: 20 }, (_, index) => `^hello|${index}`);
+  const evaluations = await Promise.all(Array.from({ length: 6 }, () => testRegexes(patterns, 'hello')));
+
+  for (const results of evaluations) {
+    assert.deepEqual(results, patterns.map(() => true));
+  }
+});
+
+test('keeps answering other evaluations while one waits on a slow pattern', async () => {
+  const slow = testRegexes([catastrophic], unmatchable);
+  const startedAt = Date.now();
+
+  assert.deepEqual(await testRegexes(['^hello'], 'hello'), [true]);
+  assert.ok(Date.now() - startedAt < REGEX_TIMEOUT_MS);
+  assert.deepEqual(await slow, [null]);
+});
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Read at import time, so set before loading the module
+process.env.RETRY_MAX_ATTEMPTS = '3';
+process.env.RETRY_BASE_DELAY_MS = '1';
+process.env.LOG_LEVEL = 'error';
+const { withRetries } = await import('../retry.js');
+
+const failure = (fields) => Object.assign(new Error('upstream failure'), fields);
+
+// An attempt function that throws the queued errors in order, then answers with the model
+const scripted = (...errors) => {
+  const calls = [];
+  const attempt = async (requestBody) => {
+    calls.push(requestBody.model);
+    const error = errors.shift();
+    if (error) {
+      throw error;
+    }
+    return `reply from ${requestBody.model}`;
+  };
+  return { attempt, calls };
+};
+
+const primary = { model: 'primary' };
+const fallback = { model: 'fallback' };
+
+test('retries a transient error on the same model', async () => {
+  const { attempt, calls } = scripted(failure({ status: 429 }), failure({ status: 503 }));
+  const result = await withRetries([primary], attempt, { signal: new AbortController().signal });
+
+  assert.equal(result.value, 'reply from primary');
+  assert.equal(result.requestBody, primary);
+  assert.equal(result.attempts, 3);
+  assert.deepEqual(calls, ['primary', 'primary', 'primary']);
+});
+
+test('does not retry an error that retrying cannot fix', async () => {
+  const { attempt, calls } = scripted(failure({ code: 'invalid_api_key' }));
+  await assert.rejects(
+    withRetries([primary, fallback], attempt, { signal: new AbortController().signal }),
+    (error) => error.code === 'invalid_api_key' && error.attempts === 1
+  );
+  assert.deepEqual(calls, ['primary']);
+});
+
+test('falls back to the next model when one is missing', async () => {
+  const { attempt, calls } = scripted(failure({ code: 'model_not_found' }));
+  const result = await withRetries([primary, fallback], attempt, { signal: new AbortController().signal });
+
+  assert.equal(result.requestBody, fallback);
+  assert.equal(result.attempts, 2);
+  assert.deepEqual(calls, ['primary', 'fallback']);
+});
+
+test('falls back once a model runs out of retries', async () => {
+  const { attempt, calls } = scripted(failure({ status: 500 }), failure({ status: 500 }), failure({ status: 500 }));
+  const result = await withRetries([primary, fallback], attempt, { signal: new AbortController().signal });
+
+  assert.equal(result.value, 'reply from fallback');
+  assert.equal(result.attempts, 4);
+  assert.deepEqual(calls, ['primary', 'primary', 'primary', 'fallback']);
+});
+
+test('rethrows the last error with the attempts made', async () => {
+  const { attempt } = scripted(...Array.from({ length: 6 }, () => failure({ status: 502 })));
+  await assert.rejects(
+    withRetries([primary, fallback], attempt, { signal: new AbortController().signal }),
+    (error) => error.status === 502 && error.attempts === 6
+  );
+});
+
+test('waits as long as Retry-After asks', async () => {
+  const { attempt } = scripted(failure({ status: 429, headers: { 'retry-after-ms': '50' } }));
+  const startedAt = Date.now();
+  await withRetries([primary], attempt, { signal: new AbortController().signal });
+
+  assert.ok(Date.now() - startedAt >= 45);
+});
+
+test('stops retrying once the signal aborts', async () => {
+  const controller = new AbortController();
+  const { attempt, calls } = scripted(failure({ status: 429, headers: { 'retry-after-ms': '10000' } }));
+  const startedAt = Date.now();
+  setTimeout(() => controller.abort(), 20);
+
+  await assert.rejects(
+    withRetries([primary], attempt, { signal: controller.signal }),
+    (error) => error.status === 429 && error.attempts === 1
+  );
+  assert.deepEqual(calls, ['primary']);
+  assert.ok(Date.now() - startedAt < 1000);
+});
+
+test('leaves no abort listeners behind after backing off', async () => {
+  const controller = new AbortController();
+  let listeners = 0;
+  const { addEventListener, removeEventListener } = controller.signal;
+  controller.signal.addEventListener = function (...args) {
+    listeners++;
+    return addEventListener.apply(this, args);
+  };
+  controller.signal.removeEventListener = function (...args) {
+    listeners--;
+    return removeEventListener.apply(this, args);
+  };
+
+  const { attempt } = scripted(failure({ status: 429 }), failure({ status: 429 }));
+  await withRetries([primary], attempt, { signal: controller.signal });
+
+  assert.equal(listeners, 0);
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The ledger path and caps are read at import time
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'spend-test-'));
+process.env.SPEND_FILE = path.join(directory, 'spend.json');
+process.env.SPEND_LIMIT_DAILY_USD = '0.5';
+delete process.env.SPEND_LIMIT_MONTHLY_USD;
+const { checkRunLimits, getSpendSummary, getUserUsage, recordSpend } = await import('../spend.js');
+
+test.after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+const user = { id: 'alice', limits: { dailyTokens: null } };
+
+test('adds each completion to the server total and the user\'s usage', async () => {
+  await recordSpend(0.1, { userId: 'alice', tokens: 1200 });
+  await recordSpend(0.05, { userId: 'alice', tokens: 300 });
+  await recordSpend(null, { userId: 'alice', tokens: 50 });
+
+  const summary = await getSpendSummary();
+  assert.equal(summary.today, 0.15);
+  assert.deepEqual(summary.limits, { daily: 0.5, monthly: null });
+  assert.deepEqual((await getUserUsage('alice')).today, { cost: 0.15, tokens: 1550, requests: 3 });
+});
+
+test('stops new runs once the daily cap is reached', async () => {
+  assert.equal(await checkRunLimits(user), null);
+
+  await recordSpend(0.35, { userId: 'bob', tokens: 100 });
+  const limitError = await checkRunLimits(user);
+  assert.equal(limitError.status, 402);
+  assert.equal(limitError.body.type, 'budget_exceeded');
+  assert.match(limitError.body.error, /Daily spending cap of \$0\.5 reached/);
+});
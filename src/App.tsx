@@ -1,70 +1,171 @@
-import React, { useState } from 'react';
-import { Play, Settings, MessageSquare, Sliders, Brain, AlertCircle, CheckCircle, Zap, Moon, Sun, Copy, RotateCcw, Check } from 'lucide-react';
-
-interface ApiResponse {
-  success: boolean;
-  content?: string;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-  model?: string;
-  error?: string;
-  type?: string;
-}
+import { useEffect, useRef, useState } from 'react';
+import { Play, Settings, MessageSquare, Sliders, Brain, AlertCircle, CheckCircle, Zap, Moon, Sun, Copy, RotateCcw, Check, Square, Ban, GitCompare, History, MessagesSquare, DollarSign, Save, Trash2, FileText, Table, Code, UserCircle, BookMarked, Paperclip, Grid3x3, Activity } from 'lucide-react';
+import AccountPanel from './components/AccountPanel';
+import AttachmentList from './components/AttachmentList';
+import CodeExportPanel from './components/CodeExportPanel';
+import ComparePanel from './components/ComparePanel';
+import AssertionsPanel from './components/AssertionsPanel';
+import ConversationTranscript from './components/ConversationTranscript';
+import DatasetPanel from './components/DatasetPanel';
+import EvaluationBadges from './components/EvaluationBadges';
+import HistorySidebar from './components/HistorySidebar';
+import JsonTree from './components/JsonTree';
+import LogprobHeatmap from './components/LogprobHeatmap';
+import MetricsPanel from './components/MetricsPanel';
+import PromptLibraryPanel from './components/PromptLibraryPanel';
+import SamplingControls from './components/SamplingControls';
+import SessionControls from './components/SessionControls';
+import StructuredOutputPanel from './components/StructuredOutputPanel';
+import SweepPanel from './components/SweepPanel';
+import TemplateVariablesPanel from './components/TemplateVariablesPanel';
+import ToolCallList from './components/ToolCallList';
+import TraceId from './components/TraceId';
+import GuardrailBadges from './components/GuardrailBadges';
+import { useAccount } from './hooks/useAccount';
+import { useProviders } from './hooks/useProviders';
+import { useSpendSummary } from './hooks/useSpendSummary';
+import { usePlaygroundSession } from './hooks/usePlaygroundSession';
+import { useTemplates } from './hooks/useTemplates';
+import { apiFetch } from './lib/api';
+import { MAX_ATTACHMENTS, acceptedFileTypes, dropUnsendableAttachments, hasImageAttachments, readAttachment } from './lib/attachments';
+import { calculateCost, estimateTokens, formatCost } from './lib/cost';
+import { evaluateOutput } from './lib/evaluation';
+import { emptySamplingForm, parseSamplingForm, toSamplingForm } from './lib/sampling';
+import { SESSION_VERSION } from './lib/session';
+import type { PlaygroundSession } from './lib/session';
+import { readEventStream } from './lib/sse';
+import { emptyStructuredForm, parseJsonOutput, parseStructuredForm, toStructuredForm } from './lib/structured';
+import { extractVariables, findUnboundVariables, renderTemplate } from './lib/template';
+import { testConfigs } from './testConfigs';
+import { getThemeClasses } from './theme';
+import type { ApiResponse, Assertion, Attachment, ChatMessage, Choice, EvaluationResponse, GuardrailFinding, HistoryRun, PromptTemplate, RunSettings, StreamDelta, SweepValues, TestConfig, TokenLogprob, ToolCall } from './types';
 
-interface TestConfig {
-  name: string;
-  description: string;
-  temperature: number;
-  maxTokens: number;
-  presencePenalty: number;
-  frequencyPenalty: number;
-}
+const MAX_FALLBACK_MODELS = 3;
+
+const formatTokenCount = (tokens: number) =>
+  tokens >= 1000 ? `${Math.round(tokens / 1000).toLocaleString()}K` : String(tokens);
 
 function App() {
   const [systemPrompt, setSystemPrompt] = useState('You are a helpful assistant.');
   const [userPrompt, setUserPrompt] = useState('');
+  // Images and text files sent with the next user message
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [draggingFiles, setDraggingFiles] = useState(false);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [templateName, setTemplateName] = useState<string | null>(null);
   const [temperature, setTemperature] = useState(0.7);
   const [maxTokens, setMaxTokens] = useState(1000);
   const [presencePenalty, setPresencePenalty] = useState(0.0);
   const [frequencyPenalty, setFrequencyPenalty] = useState(0.0);
   const [stopSequence, setStopSequence] = useState('');
-  const [model, setModel] = useState('gpt-3.5-turbo');
+  // Same-provider models tried in order when the selected one is unavailable
+  const [fallbackModels, setFallbackModels] = useState<string[]>([]);
+  const [samplingForm, setSamplingForm] = useState(emptySamplingForm);
+  const [provider, setProvider] = useState('');
+  const [model, setModel] = useState('');
   const [output, setOutput] = useState('');
+  const [toolCalls, setToolCalls] = useState<ToolCall[]>([]);
+  const [structuredForm, setStructuredForm] = useState(emptyStructuredForm);
+  const [showRawOutput, setShowRawOutput] = useState(false);
+  const [choices, setChoices] = useState<Choice[]>([]);
+  const [selectedChoice, setSelectedChoice] = useState(0);
+  const [logprobs, setLogprobs] = useState<TokenLogprob[]>([]);
+  const [showHeatmap, setShowHeatmap] = useState(true);
   const [isRunning, setIsRunning] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // The server's trace ID when `error` came back from a request
+  const [errorTraceId, setErrorTraceId] = useState<string | null>(null);
+  // The server's error `type`, for errors that came from it
+  const [errorType, setErrorType] = useState<string | null>(null);
   const [usage, setUsage] = useState<ApiResponse['usage'] | null>(null);
+  const [finishReason, setFinishReason] = useState<string | null>(null);
+  const [cost, setCost] = useState<number | null>(null);
+  // Whether the last run was replayed from the server's response cache
+  const [cached, setCached] = useState(false);
+  // How many upstream attempts the last run took, and the fallback that answered it if any
+  const [attempts, setAttempts] = useState<number | null>(null);
+  const [fallback, setFallback] = useState<{ from: string; model: string } | null>(null);
+  const [guardrails, setGuardrails] = useState<GuardrailFinding[]>([]);
+  const [streamDisabled, setStreamDisabled] = useState(false);
+  const [sessionSpend, setSessionSpend] = useState(0);
+  const [assertions, setAssertions] = useState<Assertion[]>([]);
+  const [evaluation, setEvaluation] = useState<EvaluationResponse | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [streamResponse, setStreamResponse] = useState(true);
+  const [cancelled, setCancelled] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [datasetMode, setDatasetMode] = useState(false);
+  const [sweepMode, setSweepMode] = useState(false);
+  const [codeExportMode, setCodeExportMode] = useState(false);
+  const [libraryMode, setLibraryMode] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showAccount, setShowAccount] = useState(false);
+  const [showMetrics, setShowMetrics] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [conversationMode, setConversationMode] = useState(false);
+  const [conversation, setConversation] = useState<ChatMessage[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [darkMode, setDarkMode] = useState(false);
   const [copied, setCopied] = useState(false);
+  // Usage is refetched after every run; everything else when the signed-in user changes
+  const { account, error: accountError, version: accountVersion, signedIn: hasToken, signIn, signOut, setProviderKey } = useAccount(historyVersion);
+  const { providers, defaultProvider, error: providersError } = useProviders(accountVersion);
+  const spendSummary = useSpendSummary(historyVersion + accountVersion);
+  const { templates, error: templatesError, saveTemplate, deleteTemplate } = useTemplates(accountVersion);
+
+  const { settings: structuredSettings, error: structuredError } = parseStructuredForm(structuredForm);
+  const { settings: samplingSettings, error: samplingError } = parseSamplingForm(samplingForm);
+  // Compare columns and dataset rows keep a single reply without logprobs
+  const sharedSamplingSettings = { topP: samplingSettings.topP, seed: samplingSettings.seed, logitBias: samplingSettings.logitBias };
+  const activeAssertions = assertions.filter((assertion) => assertion.value.trim());
+  const templateVariables = extractVariables([systemPrompt, userPrompt]);
+  const renderedSystemPrompt = renderTemplate(systemPrompt, templateValues);
+  const renderedUserPrompt = renderTemplate(userPrompt, templateValues);
+
+  const providerModels = providers.find((p) => p.id === provider)?.models ?? [];
+  const selectedModel = providerModels.find((m) => m.id === model);
+  const maxOutputTokens = selectedModel?.maxOutputTokens ?? 4000;
+  const activeFallbackModels = fallbackModels.filter((id) => id !== model && providerModels.some((m) => m.id === id));
+
+  // Keep Max Tokens within what the selected model can actually produce. Waits
+  // for the catalog so a restored session isn't clamped to the fallback limit.
+  useEffect(() => {
+    if (selectedModel && maxTokens > maxOutputTokens) {
+      setMaxTokens(maxOutputTokens);
+    }
+  }, [selectedModel, maxTokens, maxOutputTokens]);
 
-  const testConfigs: TestConfig[] = [
-    {
-      name: 'Precise & Focused',
-      description: 'Low temperature, short responses',
-      temperature: 0.0,
-      maxTokens: 50,
-      presencePenalty: 0.0,
-      frequencyPenalty: 0.0,
-    },
-    {
-      name: 'Balanced & Diverse',
-      description: 'Moderate creativity, varied vocabulary',
-      temperature: 0.7,
-      maxTokens: 150,
-      presencePenalty: 1.5,
-      frequencyPenalty: 1.5,
-    },
-    {
-      name: 'Creative & Expansive',
-      description: 'High creativity, longer responses',
-      temperature: 1.2,
-      maxTokens: 300,
-      presencePenalty: 0.0,
-      frequencyPenalty: 1.5,
-    },
-  ];
+  // Select the server's default provider once the catalog arrives
+  useEffect(() => {
+    if (provider || !defaultProvider) return;
+    const initial = providers.find((p) => p.id === defaultProvider);
+    if (!initial) return;
+    setProvider(initial.id);
+    if (!initial.models.some((m) => m.id === model)) {
+      setModel(initial.models[0]?.id ?? '');
+    }
+  }, [providers, defaultProvider, provider, model]);
+
+  const changeProvider = (id: string) => {
+    setProvider(id);
+    setModel(providers.find((p) => p.id === id)?.models[0]?.id ?? '');
+    setFallbackModels([]);
+  };
+
+  const toggleFallbackModel = (id: string) => {
+    setFallbackModels(activeFallbackModels.includes(id)
+      ? activeFallbackModels.filter((fallbackId) => fallbackId !== id)
+      : [...activeFallbackModels, id]);
+  };
+
+  const showDelivery = (result: Pick<ApiResponse, 'attempts' | 'fallbackFrom' | 'model' | 'guardrails' | 'streamDisabled'>) => {
+    setAttempts(result.attempts ?? null);
+    setFallback(result.fallbackFrom && result.model ? { from: result.fallbackFrom, model: result.model } : null);
+    setGuardrails(result.guardrails ?? []);
+    setStreamDisabled(!!result.streamDisabled);
+  };
 
   const applyTestConfig = (config: TestConfig) => {
     setTemperature(config.temperature);
@@ -73,6 +174,162 @@ function App() {
     setFrequencyPenalty(config.frequencyPenalty);
   };
 
+  const loadTemplate = (template: PromptTemplate) => {
+    setSystemPrompt(template.systemPrompt);
+    setUserPrompt(template.userPrompt);
+    setTemplateValues({ ...template.variables });
+    setAssertions(template.assertions ?? []);
+  };
+
+  const saveCurrentTemplate = async () => {
+    if (!templateName?.trim()) return;
+    // Only keep values for variables the prompts still use
+    const variables = Object.fromEntries(templateVariables.map((name) => [name, templateValues[name] ?? '']));
+    await saveTemplate({ name: templateName, description: '', systemPrompt, userPrompt, variables, assertions: activeAssertions });
+    setTemplateName(null);
+  };
+
+  const currentSettings = (): RunSettings => ({
+    systemPrompt,
+    userPrompt,
+    provider,
+    model,
+    temperature,
+    maxTokens,
+    presencePenalty,
+    frequencyPenalty,
+    stopSequence,
+    ...structuredSettings,
+    ...samplingSettings,
+    ...(activeFallbackModels.length > 0 && { fallbackModels: activeFallbackModels }),
+  });
+
+  const applySettings = (settings: RunSettings) => {
+    setSystemPrompt(settings.systemPrompt);
+    setUserPrompt(settings.userPrompt);
+    // Runs recorded before providers existed carry no provider
+    if (settings.provider) {
+      setProvider(settings.provider);
+    }
+    setModel(settings.model);
+    setTemperature(settings.temperature);
+    setMaxTokens(settings.maxTokens);
+    setPresencePenalty(settings.presencePenalty);
+    setFrequencyPenalty(settings.frequencyPenalty);
+    setStopSequence(settings.stopSequence);
+    setFallbackModels(settings.fallbackModels ?? []);
+    setStructuredForm(toStructuredForm(settings));
+    setSamplingForm(toSamplingForm(settings));
+  };
+
+  // Loads the parameter values of a sweep cell into the controls
+  const applySweepValues = (values: SweepValues) => {
+    if (values.temperature !== undefined) setTemperature(values.temperature);
+    if (values.maxTokens !== undefined) setMaxTokens(values.maxTokens);
+    if (values.presencePenalty !== undefined) setPresencePenalty(values.presencePenalty);
+    if (values.frequencyPenalty !== undefined) setFrequencyPenalty(values.frequencyPenalty);
+    const { topP } = values;
+    if (topP !== undefined) setSamplingForm((form) => ({ ...form, topP }));
+  };
+
+  const applySession = (session: PlaygroundSession) => {
+    applySettings(session.settings);
+    setStreamResponse(session.streamResponse ?? true);
+    setTemplateValues(session.templateValues ?? {});
+    setAssertions(session.assertions ?? []);
+    setConversationMode(!!session.conversation);
+    setConversation(session.conversation ?? []);
+    setAttachments([]);
+    setAttachmentError(null);
+    setOutput(session.output?.content ?? '');
+    setToolCalls(session.output?.toolCalls ?? []);
+    setChoices([]);
+    setLogprobs([]);
+    setUsage(null);
+    setCost(null);
+    setCached(false);
+    showDelivery({});
+    setFinishReason(null);
+    setEvaluation(null);
+    setError(null);
+    setErrorTraceId(null);
+    setErrorType(null);
+    setCancelled(false);
+  };
+
+  const playgroundSession: PlaygroundSession = {
+    version: SESSION_VERSION,
+    settings: currentSettings(),
+    streamResponse,
+    // Attachment data would overflow local storage and share links, so sessions keep text only
+    ...(conversationMode && { conversation: conversation.map(({ role, content }) => ({ role, content })) }),
+    templateValues,
+    assertions: activeAssertions,
+    ...(!conversationMode && (output || toolCalls.length > 0) ? { output: { content: output, toolCalls } } : {}),
+  };
+  const { error: sessionRestoreError } = usePlaygroundSession(playgroundSession, applySession);
+
+  // What the next run would send, for the code export
+  const exportPayload = {
+    ...currentSettings(),
+    systemPrompt: renderedSystemPrompt,
+    userPrompt: renderedUserPrompt,
+    ...(conversationMode && {
+      messages: [
+        ...(renderedSystemPrompt.trim() ? [{ role: 'system' as const, content: renderedSystemPrompt }] : []),
+        ...conversation,
+        ...(renderedUserPrompt.trim() ? [{ role: 'user' as const, content: renderedUserPrompt }] : []),
+      ],
+    }),
+  };
+
+  const loadHistoryRun = (run: HistoryRun) => {
+    applySettings(run);
+    if (run.messages) {
+      setConversationMode(true);
+      // History keeps only attachment summaries, which cannot be sent again
+      const messages = dropUnsendableAttachments(run.messages);
+      setConversation(run.error ? messages : [...messages, { role: 'assistant', content: run.output }]);
+      setUserPrompt('');
+    }
+    setAttachments([]);
+    setAttachmentError(null);
+    setOutput(run.output);
+    setToolCalls(run.toolCalls ?? []);
+    setChoices(run.choices ?? []);
+    setSelectedChoice(0);
+    setLogprobs([]);
+    setUsage(run.usage);
+    setCost(run.cost ?? null);
+    setCached(!!run.cached);
+    showDelivery({
+      attempts: run.attempts,
+      fallbackFrom: run.fallbackFrom,
+      model: run.responseModel ?? undefined,
+      guardrails: run.guardrails
+    });
+    setFinishReason(run.finishReason);
+    setEvaluation(null);
+    setError(run.error || null);
+    setErrorTraceId(run.error ? run.traceId ?? null : null);
+    setErrorType(run.error ? run.errorType ?? null : null);
+    setCancelled(false);
+    setShowHistory(false);
+  };
+
+  const rerunHistoryRun = (run: HistoryRun) => {
+    applySettings(run);
+    setShowHistory(false);
+    setAttachments([]);
+    setAttachmentError(null);
+    if (run.messages) {
+      setConversationMode(true);
+      runConversation(dropUnsendableAttachments(run.messages), run);
+    } else {
+      handleRunPrompt(run, []);
+    }
+  };
+
   const clearAll = () => {
     setSystemPrompt('You are a helpful assistant.');
     setUserPrompt('');
@@ -81,10 +338,30 @@ function App() {
     setPresencePenalty(0.0);
     setFrequencyPenalty(0.0);
     setStopSequence('');
-    setModel('gpt-3.5-turbo');
+    setFallbackModels([]);
+    setStructuredForm(emptyStructuredForm);
+    setSamplingForm(emptySamplingForm);
+    setTemplateValues({});
+    const initial = providers.find((p) => p.id === defaultProvider);
+    setProvider(initial?.id ?? '');
+    setModel(initial?.models[0]?.id ?? '');
     setOutput('');
+    setToolCalls([]);
+    setChoices([]);
+    setLogprobs([]);
     setError(null);
+    setErrorTraceId(null);
+    setErrorType(null);
     setUsage(null);
+    setCost(null);
+    setCached(false);
+    showDelivery({});
+    setFinishReason(null);
+    setCancelled(false);
+    setEvaluation(null);
+    setConversation([]);
+    setAttachments([]);
+    setAttachmentError(null);
   };
 
   const copyToClipboard = async () => {
@@ -99,57 +376,311 @@ function App() {
     }
   };
 
+  // Drops every cached response so the next deterministic run goes to the provider again
+  const clearResponseCache = async () => {
+    try {
+      const response = await apiFetch('/api/cache', { method: 'DELETE' });
+      const data: { success: boolean; error?: string; traceId?: string } = await response.json();
+      if (!data.success) {
+        setError(data.error || 'Failed to clear the response cache');
+        setErrorTraceId(data.traceId ?? null);
+        setErrorType(null);
+      }
+    } catch (err) {
+      console.error('Failed to clear the response cache:', err);
+      setError('Failed to connect to the server. Make sure the backend is running.');
+    }
+  };
+
   const toggleDarkMode = () => {
     setDarkMode(!darkMode);
   };
 
-  const handleRunPrompt = async () => {
-    if (!userPrompt.trim()) {
-      setError('Please enter a user prompt');
+  const handleRunPrompt = async (runSettings: RunSettings = currentSettings(), runAttachments: Attachment[] = attachments) => {
+    setErrorTraceId(null);
+    setErrorType(null);
+    if (!runSettings.userPrompt.trim() && runAttachments.length === 0) {
+      setError('Please enter a user prompt or attach a file');
+      return;
+    }
+
+    if (structuredError) {
+      setError(structuredError);
+      return;
+    }
+
+    if (samplingError) {
+      setError(samplingError);
       return;
     }
 
+    const unbound = findUnboundVariables([runSettings.systemPrompt, runSettings.userPrompt], templateValues);
+    if (unbound.length > 0) {
+      setError(`Fill in the template variables before running: ${unbound.join(', ')}`);
+      return;
+    }
+
+    // The request (and so the history entry) carries the rendered prompts
+    const settings = {
+      ...runSettings,
+      systemPrompt: renderTemplate(runSettings.systemPrompt, templateValues),
+      userPrompt: renderTemplate(runSettings.userPrompt, templateValues),
+    };
+
+    if (conversationMode) {
+      setAttachments([]);
+      await runConversation(
+        [...conversation, { role: 'user', content: settings.userPrompt, ...(runAttachments.length > 0 && { attachments: runAttachments }) }],
+        settings
+      );
+      return;
+    }
+
+    const reply = await sendChatRequest({ ...settings, ...(runAttachments.length > 0 && { attachments: runAttachments }) });
+    if (reply !== null) {
+      await runEvaluation(reply, settings);
+    }
+  };
+
+  // Scores a finished reply against the current assertions
+  const runEvaluation = async (reply: string, settings: RunSettings) => {
+    if (activeAssertions.length === 0) return;
+
+    setIsEvaluating(true);
+    const result = await evaluateOutput({
+      output: reply,
+      assertions: activeAssertions,
+      provider: settings.provider,
+      model: settings.model,
+      prompt: settings.userPrompt,
+    });
+    setEvaluation(result);
+    setIsEvaluating(false);
+
+    if (result.cost) {
+      const judgeCost = result.cost;
+      setSessionSpend((total) => total + judgeCost);
+      setHistoryVersion((version) => version + 1);
+    }
+  };
+
+  // Sends the transcript (plus the system prompt) and appends the assistant's reply
+  const runConversation = async (transcript: ChatMessage[], settings: RunSettings = currentSettings()) => {
+    setConversation(transcript);
+    setUserPrompt('');
+
+    const renderedSystem = renderTemplate(settings.systemPrompt, templateValues);
+    const messages: ChatMessage[] = renderedSystem.trim()
+      ? [{ role: 'system', content: renderedSystem }, ...transcript]
+      : transcript;
+
+    const reply = await sendChatRequest({
+      provider: settings.provider,
+      model: settings.model,
+      messages,
+      temperature: settings.temperature,
+      maxTokens: settings.maxTokens,
+      presencePenalty: settings.presencePenalty,
+      frequencyPenalty: settings.frequencyPenalty,
+      stopSequence: settings.stopSequence,
+      responseFormat: settings.responseFormat,
+      jsonSchema: settings.jsonSchema,
+      tools: settings.tools,
+      toolChoice: settings.toolChoice,
+      topP: settings.topP,
+      seed: settings.seed,
+      n: settings.n,
+      logitBias: settings.logitBias,
+      logprobs: settings.logprobs,
+      topLogprobs: settings.topLogprobs,
+      fallbackModels: settings.fallbackModels,
+    });
+
+    // Tool-call-only replies have no text to add to the transcript
+    if (reply) {
+      setConversation([...transcript, { role: 'assistant', content: reply }]);
+      await runEvaluation(reply, { ...settings, userPrompt: transcript[transcript.length - 1]?.content ?? '' });
+    }
+  };
+
+  // Reads dropped, pasted or picked files, keeping the ones that fit
+  const addAttachments = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    const results = await Promise.all(files.map(readAttachment));
+    const added = results.flatMap(({ attachment }) => (attachment ? [attachment] : []));
+    const errors = results.flatMap(({ error }) => (error ? [error] : []));
+
+    if (attachments.length + added.length > MAX_ATTACHMENTS) {
+      errors.push(`At most ${MAX_ATTACHMENTS} attachments can be sent with one message`);
+    }
+
+    setAttachments((prev) => [...prev, ...added].slice(0, MAX_ATTACHMENTS));
+    setAttachmentError(errors.length > 0 ? errors.join('; ') : null);
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments((prev) => prev.filter((_, i) => i !== index));
+    setAttachmentError(null);
+  };
+
+  const editConversationMessage = (index: number, content: string) => {
+    setConversation(conversation.map((message, i) => (i === index ? { ...message, content } : message)));
+  };
+
+  const deleteConversationMessage = (index: number) => {
+    setConversation(conversation.filter((_, i) => i !== index));
+  };
+
+  const regenerateFromMessage = (index: number) => {
+    // A user turn is answered afresh; an assistant turn is replaced by re-answering the turn before it
+    const cutoff = conversation[index].role === 'user' ? index + 1 : index;
+    runConversation(conversation.slice(0, cutoff));
+  };
+
+  // Sends one chat request and renders the reply into `output` as it arrives.
+  // Resolves with the reply text, or null if the run failed or was cancelled.
+  const sendChatRequest = async (
+    payload: Partial<RunSettings> & { messages?: ChatMessage[]; attachments?: Attachment[] }
+  ): Promise<string | null> => {
+    let reply: string | null = null;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setIsRunning(true);
     setError(null);
+    setErrorTraceId(null);
+    setErrorType(null);
     setOutput('');
+    setToolCalls([]);
+    setChoices([]);
+    setSelectedChoice(0);
+    setLogprobs([]);
+    setShowRawOutput(false);
     setUsage(null);
+    setCost(null);
+    setCached(false);
+    showDelivery({});
+    setFinishReason(null);
+    setCancelled(false);
+    setEvaluation(null);
 
     try {
-      const response = await fetch('http://localhost:3001/api/chat', {
+      const response = await apiFetch('/api/chat', {
         method: 'POST',
+        signal: controller.signal,
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          model,
-          systemPrompt,
-          userPrompt,
-          temperature,
-          maxTokens,
-          presencePenalty,
-          frequencyPenalty,
-          stopSequence,
+          ...payload,
+          // Only a single choice can be streamed
+          stream: streamResponse && !(payload.n && payload.n > 1),
         }),
       });
 
+      // Validation and setup failures still come back as plain JSON
+      if (response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        let streamed = '';
+        await readEventStream(response, ({ event, data }) => {
+          if (event === 'delta') {
+            const delta: StreamDelta = JSON.parse(data);
+            streamed += delta.content;
+            setOutput(streamed);
+          } else if (event === 'done') {
+            const result: ApiResponse = JSON.parse(data);
+            setToolCalls(result.toolCalls ?? []);
+            setLogprobs(result.logprobs ?? []);
+            setUsage(result.usage || null);
+            setCost(result.cost ?? null);
+            setCached(!!result.cached);
+            showDelivery(result);
+            setSessionSpend((total) => total + (result.cost ?? 0));
+            setFinishReason(result.finishReason || null);
+            reply = streamed;
+          } else if (event === 'error') {
+            const result: ApiResponse = JSON.parse(data);
+            setError(result.error || 'An unknown error occurred');
+            setErrorTraceId(result.traceId ?? null);
+            setErrorType(result.type ?? null);
+            showDelivery(result);
+            // Output that failed structured validation still arrives with its usage and cost
+            if (result.usage) {
+              setToolCalls(result.toolCalls ?? []);
+              setUsage(result.usage);
+              setCost(result.cost ?? null);
+              setSessionSpend((total) => total + (result.cost ?? 0));
+              setFinishReason(result.finishReason || null);
+            }
+          }
+        });
+        return reply;
+      }
+
       const data: ApiResponse = await response.json();
 
-      if (data.success && data.content) {
-        setOutput(data.content);
+      // A reply may consist only of tool calls
+      if (data.success && (data.content || data.toolCalls?.length)) {
+        reply = data.content ?? '';
+        setOutput(reply);
+        setToolCalls(data.toolCalls ?? []);
+        setChoices(data.choices ?? []);
+        setLogprobs(data.logprobs ?? []);
         setUsage(data.usage || null);
+        setCost(data.cost ?? null);
+        setCached(!!data.cached);
+        showDelivery(data);
+        setSessionSpend((total) => total + (data.cost ?? 0));
+        setFinishReason(data.finishReason || null);
       } else {
         setError(data.error || 'An unknown error occurred');
+        setErrorTraceId(data.traceId ?? null);
+        setErrorType(data.type ?? null);
+        showDelivery(data);
+        // Output that failed structured validation still arrives with its usage and cost
+        if (data.usage) {
+          setOutput(data.content ?? '');
+          setToolCalls(data.toolCalls ?? []);
+          setUsage(data.usage);
+          setCost(data.cost ?? null);
+          setSessionSpend((total) => total + (data.cost ?? 0));
+          setFinishReason(data.finishReason || null);
+        }
       }
     } catch (err) {
+      if (controller.signal.aborted) {
+        setCancelled(true);
+        return null;
+      }
       console.error('Request failed:', err);
       setError('Failed to connect to the server. Make sure the backend is running.');
     } finally {
+      abortControllerRef.current = null;
       setIsRunning(false);
+      setHistoryVersion((version) => version + 1);
     }
+
+    return reply;
   };
 
+  // Shows another of the returned choices in the output panel
+  const selectChoice = (index: number) => {
+    const choice = choices[index];
+    setSelectedChoice(index);
+    setOutput(choice.content);
+    setToolCalls(choice.toolCalls ?? []);
+    setLogprobs(choice.logprobs ?? []);
+    setFinishReason(choice.finishReason);
+  };
+
+  const handleStopPrompt = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Key problems come with setup steps; everything else is shown as the server worded it
   const getErrorMessage = (error: string) => {
-    if (error.includes('API key')) {
+    if (errorType === 'invalid_key' || errorType === 'missing_key') {
       return (
         <div className="space-y-2">
           <p>{error}</p>
@@ -176,17 +707,25 @@ function App() {
     return error;
   };
 
-  const themeClasses = {
-    bg: darkMode ? 'bg-gradient-to-br from-gray-900 via-blue-900 to-indigo-900' : 'bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100',
-    card: darkMode ? 'bg-gray-800/70 backdrop-blur-sm border-gray-700/20' : 'bg-white/70 backdrop-blur-sm border-white/20',
-    text: darkMode ? 'text-gray-100' : 'text-gray-800',
-    textSecondary: darkMode ? 'text-gray-300' : 'text-gray-600',
-    textMuted: darkMode ? 'text-gray-400' : 'text-gray-500',
-    input: darkMode ? 'bg-gray-700 border-gray-600 text-gray-100 focus:ring-blue-400 focus:border-blue-400' : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500',
-    configCard: darkMode ? 'bg-gray-700/50 hover:bg-gray-600/50 border-gray-600 hover:border-blue-400' : 'bg-gradient-to-br from-white to-gray-50 hover:from-amber-50 hover:to-orange-50 border-gray-200 hover:border-amber-300',
-    outputBg: darkMode ? 'bg-gray-700' : 'bg-gray-50',
-    outputText: darkMode ? 'text-gray-200' : 'text-gray-700',
-  };
+  const themeClasses = getThemeClasses(darkMode);
+
+  // JSON replies are shown as a tree once complete
+  const parsedOutput = !conversationMode && !isRunning && output && structuredForm.responseFormat !== 'text'
+    ? parseJsonOutput(output)
+    : null;
+
+  // Prompt side of the next run: system prompt, any transcript so far and the new message
+  const estimatedPromptTokens = estimateTokens([
+    renderedSystemPrompt,
+    ...(conversationMode ? conversation.map((message) => message.content) : []),
+    renderedUserPrompt,
+  ]);
+
+  const signedInUser = account?.user?.role !== 'anonymous' ? account?.user : undefined;
+  // Open the account panel unprompted when the server turns away anonymous users or the stored token
+  const needsSignIn = (!!account?.authRequired && !signedInUser) || (hasToken && !account && !!accountError);
+  // The server only shows metrics to admins when sign-in is required
+  const canViewMetrics = !!account && (!account.authRequired || signedInUser?.role === 'admin');
 
   return (
     <div className={`min-h-screen ${themeClasses.bg} transition-colors duration-300`}>
@@ -206,6 +745,49 @@ function App() {
               {darkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
             </button>
           </div>
+          <div className="flex flex-wrap items-center justify-center gap-2 mb-3 text-sm">
+            <button
+              onClick={() => setShowAccount(!showAccount)}
+              className={`flex items-center gap-1 px-3 py-1 rounded-full transition-colors ${showAccount ? 'bg-sky-600 hover:bg-sky-700 text-white' : themeClasses.secondaryButton}`}
+              title="Sign in, check your usage and manage your provider keys"
+            >
+              <UserCircle className="w-4 h-4" />
+              {signedInUser ? signedInUser.name : 'Sign in'}
+            </button>
+            {canViewMetrics && (
+              <button
+                onClick={() => setShowMetrics(!showMetrics)}
+                className={`flex items-center gap-1 px-3 py-1 rounded-full transition-colors ${showMetrics ? 'bg-emerald-600 hover:bg-emerald-700 text-white' : themeClasses.secondaryButton}`}
+                title="Chart completions, errors, latency and tokens across the server"
+              >
+                <Activity className="w-4 h-4" />
+                Metrics
+              </button>
+            )}
+            <span
+              className={`flex items-center gap-1 px-3 py-1 rounded-full font-mono ${darkMode ? 'bg-emerald-900/50 text-emerald-300' : 'bg-emerald-100 text-emerald-800'}`}
+              title="Spent on runs since this page was opened"
+            >
+              <DollarSign className="w-4 h-4" />
+              Session {formatCost(sessionSpend)}
+            </span>
+            {spendSummary?.limits.daily && (
+              <span
+                className={`px-3 py-1 rounded-full font-mono ${spendSummary.today >= spendSummary.limits.daily ? 'bg-red-100 text-red-800' : themeClasses.secondaryButton}`}
+                title="Server-wide spend today (UTC) against the daily cap"
+              >
+                Today {formatCost(spendSummary.today)} / {formatCost(spendSummary.limits.daily)}
+              </span>
+            )}
+            {spendSummary?.limits.monthly && (
+              <span
+                className={`px-3 py-1 rounded-full font-mono ${spendSummary.month >= spendSummary.limits.monthly ? 'bg-red-100 text-red-800' : themeClasses.secondaryButton}`}
+                title="Server-wide spend this month (UTC) against the monthly cap"
+              >
+                Month {formatCost(spendSummary.month)} / {formatCost(spendSummary.limits.monthly)}
+              </span>
+            )}
+          </div>
           <p className={`${themeClasses.textSecondary} text-lg`}>Fine-tune your AI interactions with precision controls</p>
         </div>
 
@@ -213,17 +795,95 @@ function App() {
           {/* Controls Panel */}
           <div className="space-y-6">
             {/* Action Buttons */}
-            <div className="flex gap-3">
+            <div className="flex flex-wrap gap-3">
               <button
                 onClick={clearAll}
-                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${darkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-300' : 'bg-gray-200 hover:bg-gray-300 text-gray-700'}`}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${themeClasses.secondaryButton}`}
                 title="Clear all inputs and output"
               >
                 <RotateCcw className="w-4 h-4" />
                 Clear All
               </button>
+              <button
+                onClick={() => setCompareMode(!compareMode)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${compareMode ? 'bg-teal-600 hover:bg-teal-700 text-white' : themeClasses.secondaryButton}`}
+                title="Run the same prompt against several configurations side by side"
+              >
+                <GitCompare className="w-4 h-4" />
+                Compare
+              </button>
+              <button
+                onClick={() => setDatasetMode(!datasetMode)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${datasetMode ? 'bg-orange-600 hover:bg-orange-700 text-white' : themeClasses.secondaryButton}`}
+                title="Run the prompt template over every row of a CSV or JSONL file"
+              >
+                <Table className="w-4 h-4" />
+                Dataset
+              </button>
+              <button
+                onClick={() => setSweepMode(!sweepMode)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${sweepMode ? 'bg-cyan-600 hover:bg-cyan-700 text-white' : themeClasses.secondaryButton}`}
+                title="Run the prompt over a grid of parameter values and compare the results"
+              >
+                <Grid3x3 className="w-4 h-4" />
+                Sweep
+              </button>
+              <button
+                onClick={() => setConversationMode(!conversationMode)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${conversationMode ? 'bg-blue-600 hover:bg-blue-700 text-white' : themeClasses.secondaryButton}`}
+                title="Hold a multi-turn conversation instead of a single prompt"
+              >
+                <MessagesSquare className="w-4 h-4" />
+                Conversation
+              </button>
+              <button
+                onClick={() => setCodeExportMode(!codeExportMode)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${codeExportMode ? 'bg-violet-600 hover:bg-violet-700 text-white' : themeClasses.secondaryButton}`}
+                title="Export the current request as curl, Node or Python code"
+              >
+                <Code className="w-4 h-4" />
+                Code
+              </button>
+              <button
+                onClick={() => setLibraryMode(!libraryMode)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${libraryMode ? 'bg-fuchsia-600 hover:bg-fuchsia-700 text-white' : themeClasses.secondaryButton}`}
+                title="Save named, versioned prompts and pick the one served in production"
+              >
+                <BookMarked className="w-4 h-4" />
+                Library
+              </button>
+              <button
+                onClick={() => setShowHistory(true)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${themeClasses.secondaryButton}`}
+                title="Browse, reload and diff previous runs"
+              >
+                <History className="w-4 h-4" />
+                History
+              </button>
             </div>
 
+            {(showAccount || needsSignIn) && (
+              <AccountPanel
+                account={account}
+                accountError={accountError}
+                hasToken={hasToken}
+                providers={providers}
+                onSignIn={signIn}
+                onSignOut={signOut}
+                onSetProviderKey={setProviderKey}
+                darkMode={darkMode}
+                theme={themeClasses}
+              />
+            )}
+
+            <SessionControls
+              session={playgroundSession}
+              onImport={applySession}
+              restoreError={sessionRestoreError}
+              darkMode={darkMode}
+              theme={themeClasses}
+            />
+
             {/* Test Configs Section */}
             <div className={`${themeClasses.card} rounded-2xl p-6 shadow-lg border`}>
               <div className="flex items-center gap-2 mb-4">
@@ -265,6 +925,42 @@ function App() {
                   </button>
                 ))}
               </div>
+
+              {(templates.length > 0 || templatesError) && (
+                <div className="mt-4">
+                  <h3 className={`text-sm font-medium ${themeClasses.textSecondary} mb-2`}>Saved Templates</h3>
+                  {templatesError && (
+                    <p className={`text-xs mb-2 ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{templatesError}</p>
+                  )}
+                  <div className="space-y-2 max-h-48 overflow-y-auto">
+                    {templates.map((template) => (
+                      <div
+                        key={template.id}
+                        className={`flex items-center gap-2 px-3 py-2 ${themeClasses.configCard} border rounded-lg`}
+                      >
+                        <button
+                          onClick={() => loadTemplate(template)}
+                          className="flex-1 min-w-0 text-left"
+                          title="Load this template's prompts and variable values"
+                        >
+                          <div className={`flex items-center gap-1 text-sm font-medium ${themeClasses.text} truncate`}>
+                            <FileText className="w-3 h-3 flex-shrink-0 text-fuchsia-600" />
+                            {template.name}
+                          </div>
+                          <div className={`text-xs ${themeClasses.textMuted} truncate`}>{template.userPrompt}</div>
+                        </button>
+                        <button
+                          onClick={() => deleteTemplate(template.id)}
+                          className={`p-1 rounded ${themeClasses.textMuted} hover:text-red-600`}
+                          title="Delete template"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Prompts Section */}
@@ -272,6 +968,46 @@ function App() {
               <div className="flex items-center gap-2 mb-4">
                 <MessageSquare className="w-5 h-5 text-blue-600" />
                 <h2 className={`text-xl font-semibold ${themeClasses.text}`}>Prompts</h2>
+                {templateName === null ? (
+                  <button
+                    onClick={() => setTemplateName('')}
+                    disabled={!userPrompt.trim()}
+                    className={`ml-auto flex items-center gap-1 px-2 py-1 text-xs rounded-md ${themeClasses.secondaryButton} disabled:opacity-50 disabled:cursor-not-allowed`}
+                    title="Save these prompts and assertions as a reusable template"
+                  >
+                    <Save className="w-3 h-3" />
+                    Save as Template
+                  </button>
+                ) : (
+                  <div className="ml-auto flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={templateName}
+                      onChange={(e) => setTemplateName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveCurrentTemplate();
+                        if (e.key === 'Escape') setTemplateName(null);
+                      }}
+                      maxLength={100}
+                      className={`px-2 py-1 text-sm ${themeClasses.input} rounded-md`}
+                      placeholder="Template name"
+                      autoFocus
+                    />
+                    <button
+                      onClick={saveCurrentTemplate}
+                      disabled={!templateName.trim()}
+                      className="px-2 py-1 text-xs rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setTemplateName(null)}
+                      className={`px-2 py-1 text-xs rounded-md ${themeClasses.secondaryButton}`}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
               </div>
               
               <div className="space-y-4">
@@ -290,19 +1026,105 @@ function App() {
                 
                 <div>
                   <label htmlFor="user-prompt" className={`block text-sm font-medium ${themeClasses.textSecondary} mb-2`}>
-                    User Prompt *
+                    {conversationMode ? 'Next Message *' : 'User Prompt *'}
                   </label>
                   <textarea
                     id="user-prompt"
                     value={userPrompt}
                     onChange={(e) => setUserPrompt(e.target.value)}
-                    className={`w-full h-32 px-3 py-2 ${themeClasses.input} rounded-lg resize-none transition-colors`}
-                    placeholder="Enter your prompt here..."
+                    onDragOver={(e) => {
+                      if (!e.dataTransfer.types.includes('Files')) return;
+                      e.preventDefault();
+                      setDraggingFiles(true);
+                    }}
+                    onDragLeave={() => setDraggingFiles(false)}
+                    onDrop={(e) => {
+                      if (e.dataTransfer.files.length === 0) return;
+                      e.preventDefault();
+                      setDraggingFiles(false);
+                      addAttachments(Array.from(e.dataTransfer.files));
+                    }}
+                    onPaste={(e) => {
+                      // Pasted text is left to the textarea; pasted images and files are attached
+                      if (e.clipboardData.files.length === 0) return;
+                      e.preventDefault();
+                      addAttachments(Array.from(e.clipboardData.files));
+                    }}
+                    className={`w-full h-32 px-3 py-2 ${themeClasses.input} rounded-lg resize-none transition-colors ${draggingFiles ? 'ring-2 ring-blue-500' : ''}`}
+                    placeholder="Enter your prompt here... Use {{name}} for template variables, or drop in images and text files"
                   />
+                  <div className="flex items-center gap-3 mt-2">
+                    <button
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={attachments.length >= MAX_ATTACHMENTS}
+                      className={`flex items-center gap-1 px-2 py-1 text-xs rounded-md ${themeClasses.secondaryButton} disabled:opacity-50 disabled:cursor-not-allowed`}
+                      title="Attach images or text files to this message"
+                    >
+                      <Paperclip className="w-3 h-3" />
+                      Attach
+                    </button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      multiple
+                      accept={acceptedFileTypes}
+                      onChange={(e) => {
+                        addAttachments(Array.from(e.target.files ?? []));
+                        // Lets the same file be picked again after removing it
+                        e.target.value = '';
+                      }}
+                      className="hidden"
+                    />
+                    {attachments.length > 0 && (
+                      <span className={`text-xs ${themeClasses.textMuted}`}>
+                        {attachments.length} of {MAX_ATTACHMENTS} attachments
+                      </span>
+                    )}
+                  </div>
+                  {attachments.length > 0 && (
+                    <div className="mt-3">
+                      <AttachmentList attachments={attachments} onRemove={removeAttachment} darkMode={darkMode} theme={themeClasses} />
+                    </div>
+                  )}
+                  {hasImageAttachments(attachments) && selectedModel && !selectedModel.vision && (
+                    <p className={`text-xs mt-2 ${darkMode ? 'text-amber-300' : 'text-amber-700'}`}>
+                      {selectedModel.name} does not accept images; pick a vision-capable model before running.
+                    </p>
+                  )}
+                  {attachmentError && (
+                    <p className={`text-xs mt-2 ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{attachmentError}</p>
+                  )}
                 </div>
               </div>
             </div>
 
+            {templateVariables.length > 0 && (
+              <TemplateVariablesPanel
+                variables={templateVariables}
+                values={templateValues}
+                onChange={(name, value) => setTemplateValues((prev) => ({ ...prev, [name]: value }))}
+                renderedSystemPrompt={renderedSystemPrompt}
+                renderedUserPrompt={renderedUserPrompt}
+                darkMode={darkMode}
+                theme={themeClasses}
+              />
+            )}
+
+            <StructuredOutputPanel
+              form={structuredForm}
+              onChange={setStructuredForm}
+              error={structuredError}
+              darkMode={darkMode}
+              theme={themeClasses}
+            />
+
+            <AssertionsPanel
+              assertions={assertions}
+              onChange={setAssertions}
+              models={providerModels}
+              theme={themeClasses}
+            />
+
             {/* Model Selection */}
             <div className={`${themeClasses.card} rounded-2xl p-6 shadow-lg border`}>
               <div className="flex items-center gap-2 mb-4">
@@ -310,21 +1132,93 @@ function App() {
                 <h2 className={`text-xl font-semibold ${themeClasses.text}`}>Model Configuration</h2>
               </div>
               
-              <div>
-                <label htmlFor="model" className={`block text-sm font-medium ${themeClasses.textSecondary} mb-2`}>
-                  Model
-                </label>
-                <select
-                  id="model"
-                  value={model}
-                  onChange={(e) => setModel(e.target.value)}
-                  className={`w-full px-3 py-2 ${themeClasses.input} rounded-lg transition-colors`}
-                >
-                  <option value="gpt-3.5-turbo">GPT-3.5 Turbo</option>
-                  <option value="gpt-4">GPT-4</option>
-                  <option value="gpt-4-turbo-preview">GPT-4 Turbo</option>
-                </select>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="provider" className={`block text-sm font-medium ${themeClasses.textSecondary} mb-2`}>
+                    Provider
+                  </label>
+                  <select
+                    id="provider"
+                    value={provider}
+                    onChange={(e) => changeProvider(e.target.value)}
+                    disabled={providers.length === 0}
+                    className={`w-full px-3 py-2 ${themeClasses.input} rounded-lg transition-colors`}
+                  >
+                    {providers.length === 0 && <option value="">Loading...</option>}
+                    {providers.map((p) => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="model" className={`block text-sm font-medium ${themeClasses.textSecondary} mb-2`}>
+                    Model
+                  </label>
+                  <select
+                    id="model"
+                    value={model}
+                    onChange={(e) => setModel(e.target.value)}
+                    disabled={providerModels.length === 0}
+                    className={`w-full px-3 py-2 ${themeClasses.input} rounded-lg transition-colors`}
+                  >
+                    {providerModels.map((m) => (
+                      <option key={m.id} value={m.id}>{m.name}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
+              {providerModels.length > 1 && (
+                <div className="mt-4">
+                  <span className={`block text-sm font-medium ${themeClasses.textSecondary} mb-2`}>
+                    Fallback models
+                    <span className={`block text-xs font-normal ${themeClasses.textMuted}`}>
+                      Tried in the order picked when the model is unavailable or keeps failing
+                    </span>
+                  </span>
+                  <div className="flex flex-wrap gap-2">
+                    {providerModels.filter((m) => m.id !== model).map((m) => {
+                      const position = activeFallbackModels.indexOf(m.id);
+                      return (
+                        <button
+                          key={m.id}
+                          onClick={() => toggleFallbackModel(m.id)}
+                          disabled={position === -1 && activeFallbackModels.length >= MAX_FALLBACK_MODELS}
+                          className={`px-3 py-1 text-xs rounded-lg transition-colors ${position !== -1 ? 'bg-emerald-600 hover:bg-emerald-700 text-white' : themeClasses.secondaryButton} disabled:opacity-50 disabled:cursor-not-allowed`}
+                        >
+                          {position !== -1 && `${position + 1}. `}
+                          {m.name}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+              {selectedModel && (
+                <div className={`mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs font-mono ${themeClasses.textMuted}`}>
+                  <span title="Context window">ctx {formatTokenCount(selectedModel.contextWindow)}</span>
+                  <span title="Maximum output tokens">out {formatTokenCount(selectedModel.maxOutputTokens)}</span>
+                  <span title="USD per 1M input / output tokens">
+                    ${selectedModel.pricing.input} / ${selectedModel.pricing.output} per 1M
+                  </span>
+                </div>
+              )}
+              {providersError && (
+                <p className={`mt-2 text-xs ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{providersError}</p>
+              )}
+
+              <label htmlFor="stream-response" className="mt-4 flex items-center justify-between cursor-pointer">
+                <span className={`text-sm font-medium ${themeClasses.textSecondary}`}>
+                  Stream response
+                  <span className={`block text-xs font-normal ${themeClasses.textMuted}`}>Show tokens as they are generated</span>
+                </span>
+                <input
+                  type="checkbox"
+                  id="stream-response"
+                  checked={streamResponse}
+                  onChange={(e) => setStreamResponse(e.target.checked)}
+                  className="w-4 h-4 accent-blue-600"
+                />
+              </label>
             </div>
 
             {/* Parameters Section */}
@@ -375,7 +1269,7 @@ function App() {
                     type="range"
                     id="max-tokens"
                     min="1"
-                    max="4000"
+                    max={maxOutputTokens}
                     step="50"
                     value={maxTokens}
                     onChange={(e) => setMaxTokens(parseInt(e.target.value))}
@@ -383,7 +1277,7 @@ function App() {
                   />
                   <div className={`flex justify-between text-xs ${themeClasses.textMuted} mt-1`}>
                     <span>1</span>
-                    <span>4000</span>
+                    <span>{maxOutputTokens.toLocaleString()}</span>
                   </div>
                 </div>
 
@@ -400,7 +1294,7 @@ function App() {
                   <input
                     type="range"
                     id="presence-penalty"
-                    min="0"
+                    min="-2"
                     max="2"
                     step="0.1"
                     value={presencePenalty}
@@ -408,7 +1302,7 @@ function App() {
                     className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
                   />
                   <div className={`flex justify-between text-xs ${themeClasses.textMuted} mt-1`}>
-                    <span>0.0</span>
+                    <span>-2.0</span>
                     <span>2.0</span>
                   </div>
                 </div>
@@ -426,7 +1320,7 @@ function App() {
                   <input
                     type="range"
                     id="frequency-penalty"
-                    min="0"
+                    min="-2"
                     max="2"
                     step="0.1"
                     value={frequencyPenalty}
@@ -434,7 +1328,7 @@ function App() {
                     className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
                   />
                   <div className={`flex justify-between text-xs ${themeClasses.textMuted} mt-1`}>
-                    <span>0.0</span>
+                    <span>-2.0</span>
                     <span>2.0</span>
                   </div>
                 </div>
@@ -453,24 +1347,61 @@ function App() {
                     placeholder="\\n, END, STOP"
                   />
                 </div>
+
+                <SamplingControls
+                  form={samplingForm}
+                  onChange={setSamplingForm}
+                  error={samplingError}
+                  darkMode={darkMode}
+                  theme={themeClasses}
+                />
               </div>
             </div>
 
+            {/* Cost Estimate */}
+            {selectedModel && (
+              <div className={`flex items-center justify-between px-4 py-2 rounded-xl text-sm ${themeClasses.card} border`}>
+                <span className={themeClasses.textSecondary}>Estimated cost</span>
+                <span
+                  className={`font-mono ${themeClasses.text}`}
+                  title={`~${estimatedPromptTokens} prompt tokens + up to ${maxTokens} completion tokens`}
+                >
+                  {formatCost(calculateCost(selectedModel.pricing, estimatedPromptTokens, 0))}
+                  {' – '}
+                  {formatCost(calculateCost(selectedModel.pricing, estimatedPromptTokens, maxTokens))}
+                </span>
+              </div>
+            )}
+
             {/* Run Button */}
-            <button
-              onClick={handleRunPrompt}
-              disabled={isRunning || !userPrompt.trim()}
-              className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-4 px-8 rounded-2xl transition-all duration-200 flex items-center justify-center gap-3 shadow-lg hover:shadow-xl disabled:cursor-not-allowed"
-            >
-              <Play className={`w-5 h-5 ${isRunning ? 'animate-pulse' : ''}`} />
-              {isRunning ? 'Running Prompt...' : 'Run Prompt'}
-            </button>
+            <div className="flex gap-3">
+              <button
+                onClick={() => handleRunPrompt()}
+                disabled={isRunning || (!userPrompt.trim() && attachments.length === 0)}
+                className="flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-4 px-8 rounded-2xl transition-all duration-200 flex items-center justify-center gap-3 shadow-lg hover:shadow-xl disabled:cursor-not-allowed"
+              >
+                <Play className={`w-5 h-5 ${isRunning ? 'animate-pulse' : ''}`} />
+                {conversationMode
+                  ? isRunning ? 'Sending Message...' : 'Send Message'
+                  : isRunning ? 'Running Prompt...' : 'Run Prompt'}
+              </button>
+              {isRunning && (
+                <button
+                  onClick={handleStopPrompt}
+                  className="bg-gradient-to-r from-rose-500 to-red-600 hover:from-rose-600 hover:to-red-700 text-white font-semibold py-4 px-6 rounded-2xl transition-all duration-200 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl"
+                  title="Stop the running prompt"
+                >
+                  <Square className="w-4 h-4 fill-current" />
+                  Stop
+                </button>
+              )}
+            </div>
           </div>
 
           {/* Output Panel */}
           <div className={`${themeClasses.card} rounded-2xl p-6 shadow-lg border`}>
             <div className="flex items-center justify-between mb-4">
-              <h2 className={`text-xl font-semibold ${themeClasses.text}`}>Output</h2>
+              <h2 className={`text-xl font-semibold ${themeClasses.text}`}>{conversationMode ? 'Conversation' : 'Output'}</h2>
               <div className="flex items-center gap-2">
                 {usage && (
                   <div className={`flex items-center gap-2 text-sm ${themeClasses.textSecondary}`}>
@@ -478,10 +1409,28 @@ function App() {
                     <span>{usage.total_tokens} tokens</span>
                   </div>
                 )}
+                {logprobs.length > 0 && !isRunning && (
+                  <button
+                    onClick={() => setShowHeatmap(!showHeatmap)}
+                    className={`flex items-center gap-1 px-3 py-1 rounded-lg transition-colors ${themeClasses.secondaryButton}`}
+                    title={showHeatmap ? 'Show the plain output text' : 'Color the output by token probability'}
+                  >
+                    <span className="text-xs">{showHeatmap ? 'Text' : 'Heatmap'}</span>
+                  </button>
+                )}
+                {parsedOutput && (
+                  <button
+                    onClick={() => setShowRawOutput(!showRawOutput)}
+                    className={`flex items-center gap-1 px-3 py-1 rounded-lg transition-colors ${themeClasses.secondaryButton}`}
+                    title={showRawOutput ? 'Show the output as a JSON tree' : 'Show the raw output text'}
+                  >
+                    <span className="text-xs">{showRawOutput ? 'Tree' : 'Raw'}</span>
+                  </button>
+                )}
                 {output && (
                   <button
                     onClick={copyToClipboard}
-                    className={`flex items-center gap-1 px-3 py-1 rounded-lg transition-colors ${darkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-300' : 'bg-gray-200 hover:bg-gray-300 text-gray-700'}`}
+                    className={`flex items-center gap-1 px-3 py-1 rounded-lg transition-colors ${themeClasses.secondaryButton}`}
                     title="Copy output to clipboard"
                   >
                     {copied ? (
@@ -500,6 +1449,25 @@ function App() {
               </div>
             </div>
 
+            {/* Evaluation */}
+            {(isEvaluating || evaluation) && (
+              <div className="mb-4">
+                <EvaluationBadges evaluation={evaluation} isEvaluating={isEvaluating} darkMode={darkMode} />
+              </div>
+            )}
+
+            {/* Guardrails */}
+            {guardrails.length > 0 && (
+              <div className="mb-4">
+                <GuardrailBadges guardrails={guardrails} darkMode={darkMode} />
+              </div>
+            )}
+            {streamDisabled && (
+              <div className={`mb-4 text-xs ${themeClasses.textMuted}`}>
+                Not streamed: the server's output guardrails can redact or block replies, so they are sent whole.
+              </div>
+            )}
+
             {/* Error Display */}
             {error && (
               <div className={`mb-4 p-4 ${darkMode ? 'bg-red-900/50 border-red-700' : 'bg-red-50 border-red-200'} border rounded-lg`}>
@@ -507,6 +1475,22 @@ function App() {
                   <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
                   <div className={`${darkMode ? 'text-red-300' : 'text-red-700'} text-sm`}>
                     {getErrorMessage(error)}
+                    {attempts !== null && attempts > 1 && (
+                      <div className="mt-1 text-xs opacity-75">Gave up after {attempts} attempts.</div>
+                    )}
+                    <TraceId traceId={errorTraceId} />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Cancelled Notice */}
+            {cancelled && (
+              <div className={`mb-4 p-4 ${darkMode ? 'bg-amber-900/40 border-amber-700' : 'bg-amber-50 border-amber-200'} border rounded-lg`}>
+                <div className="flex items-start gap-2">
+                  <Ban className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+                  <div className={`${darkMode ? 'text-amber-300' : 'text-amber-800'} text-sm`}>
+                    Run cancelled.{output ? ' The partial output received so far is shown below.' : ''}
                   </div>
                 </div>
               </div>
@@ -528,15 +1512,88 @@ function App() {
                     <span>Total tokens:</span>
                     <span className="font-mono">{usage.total_tokens}</span>
                   </div>
+                  {cost !== null && (
+                    <div className="flex justify-between pt-1">
+                      <span>Cost:</span>
+                      <span className="font-mono">{formatCost(cost)}</span>
+                    </div>
+                  )}
+                  {finishReason && (
+                    <div className="flex justify-between pt-1">
+                      <span>Finish reason:</span>
+                      <span className="font-mono">{finishReason}</span>
+                    </div>
+                  )}
+                  {fallback && (
+                    <div className="flex justify-between pt-1" title={`${fallback.from} was unavailable, so a fallback model answered`}>
+                      <span>Answered by:</span>
+                      <span className="font-mono">{fallback.model} (fallback)</span>
+                    </div>
+                  )}
+                  {attempts !== null && attempts > 1 && (
+                    <div className="flex justify-between pt-1" title="Transient upstream errors were retried">
+                      <span>Attempts:</span>
+                      <span className="font-mono">{attempts}</span>
+                    </div>
+                  )}
+                  {cached && (
+                    <div className="flex justify-between pt-1" title="Replayed from the server's response cache; no tokens were billed">
+                      <span>Cache:</span>
+                      <span className="flex items-center gap-2">
+                        <span className="font-mono">hit</span>
+                        <button onClick={clearResponseCache} className="text-xs underline">
+                          Clear cache
+                        </button>
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
 
+            {/* Choice Tabs */}
+            {!conversationMode && choices.length > 1 && (
+              <div className="mb-2 flex flex-wrap gap-2">
+                {choices.map((_, index) => (
+                  <button
+                    key={index}
+                    onClick={() => selectChoice(index)}
+                    className={`px-3 py-1 text-xs rounded-lg transition-colors ${selectedChoice === index ? 'bg-blue-600 hover:bg-blue-700 text-white' : themeClasses.secondaryButton}`}
+                  >
+                    Choice {index + 1}
+                  </button>
+                ))}
+              </div>
+            )}
+
             <div className={`${themeClasses.outputBg} rounded-lg p-4 min-h-[500px] max-h-[500px] overflow-y-auto`}>
-              {output ? (
-                <pre className={`text-sm ${themeClasses.outputText} whitespace-pre-wrap leading-relaxed`}>
-                  {output}
-                </pre>
+              {conversationMode ? (
+                <ConversationTranscript
+                  messages={conversation}
+                  pendingContent={isRunning ? output : ''}
+                  isRunning={isRunning}
+                  darkMode={darkMode}
+                  theme={themeClasses}
+                  onEdit={editConversationMessage}
+                  onDelete={deleteConversationMessage}
+                  onRegenerate={regenerateFromMessage}
+                />
+              ) : output || toolCalls.length > 0 ? (
+                <div className="space-y-4">
+                  {toolCalls.length > 0 && <ToolCallList toolCalls={toolCalls} darkMode={darkMode} theme={themeClasses} />}
+                  {parsedOutput && !showRawOutput ? (
+                    <div className={`text-sm font-mono ${themeClasses.outputText}`}>
+                      <JsonTree value={parsedOutput.value} darkMode={darkMode} />
+                    </div>
+                  ) : logprobs.length > 0 && showHeatmap && !isRunning ? (
+                    <LogprobHeatmap logprobs={logprobs} darkMode={darkMode} theme={themeClasses} />
+                  ) : output ? (
+                    <pre className={`text-sm ${themeClasses.outputText} whitespace-pre-wrap leading-relaxed`}>
+                      {output}
+                      {isRunning && <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-blue-500 animate-pulse" />}
+                    </pre>
+                  ) : null}
+                </div>
               ) : !error ? (
                 <div className={`flex items-center justify-center h-full ${themeClasses.textMuted}`}>
                   <div className="text-center">
@@ -549,9 +1606,89 @@ function App() {
             </div>
           </div>
         </div>
+
+        {compareMode && (
+          <ComparePanel
+            darkMode={darkMode}
+            theme={themeClasses}
+            systemPrompt={renderedSystemPrompt}
+            userPrompt={renderedUserPrompt}
+            stopSequence={stopSequence}
+            provider={provider}
+            models={providerModels}
+            current={{ model, temperature, maxTokens, presencePenalty, frequencyPenalty }}
+            assertions={activeAssertions}
+            structured={structuredSettings}
+            sampling={sharedSamplingSettings}
+            onComplete={(batchCost) => {
+              setSessionSpend((total) => total + batchCost);
+              setHistoryVersion((version) => version + 1);
+            }}
+          />
+        )}
+
+        {sweepMode && (
+          <SweepPanel
+            darkMode={darkMode}
+            theme={themeClasses}
+            systemPrompt={renderedSystemPrompt}
+            userPrompt={renderedUserPrompt}
+            settings={{ provider, model, temperature, maxTokens, presencePenalty, frequencyPenalty, stopSequence }}
+            structured={structuredSettings}
+            sampling={sharedSamplingSettings}
+            assertions={activeAssertions}
+            onApply={applySweepValues}
+            onComplete={(sweepCost) => {
+              setSessionSpend((total) => total + sweepCost);
+              setHistoryVersion((version) => version + 1);
+            }}
+          />
+        )}
+
+        {codeExportMode && (
+          <CodeExportPanel darkMode={darkMode} theme={themeClasses} payload={exportPayload} />
+        )}
+
+        {libraryMode && (
+          <PromptLibraryPanel
+            darkMode={darkMode}
+            theme={themeClasses}
+            settings={currentSettings()}
+            onLoad={applySettings}
+            refreshKey={accountVersion}
+          />
+        )}
+
+        {showMetrics && canViewMetrics && <MetricsPanel darkMode={darkMode} theme={themeClasses} />}
+
+        {datasetMode && (
+          <DatasetPanel
+            darkMode={darkMode}
+            theme={themeClasses}
+            systemPrompt={systemPrompt}
+            userPrompt={userPrompt}
+            variables={templateVariables}
+            settings={{ provider, model, temperature, maxTokens, presencePenalty, frequencyPenalty, stopSequence, ...structuredSettings, ...sharedSamplingSettings, ...(activeFallbackModels.length > 0 && { fallbackModels: activeFallbackModels }) }}
+            onComplete={(runCost) => {
+              setSessionSpend((total) => total + runCost);
+              setHistoryVersion((version) => version + 1);
+            }}
+          />
+        )}
       </div>
+
+      <HistorySidebar
+        open={showHistory}
+        onClose={() => setShowHistory(false)}
+        darkMode={darkMode}
+        theme={themeClasses}
+        refreshKey={historyVersion}
+        isRunning={isRunning}
+        onLoad={loadHistoryRun}
+        onRerun={rerunHistoryRun}
+      />
     </div>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { KeyRound, LogIn, LogOut, UserCircle } from 'lucide-react';
+import type { ThemeClasses } from '../theme';
+import type { AuthResponse, ProviderInfo } from '../types';
+
+interface AccountPanelProps {
+  account: AuthResponse | null;
+  // Set when the account could not be loaded, e.g. for a revoked token
+  accountError: string | null;
+  // Whether a token is stored in this browser, even one the server rejects
+  hasToken: boolean;
+  providers: ProviderInfo[];
+  onSignIn: (token: string) => Promise<string | null>;
+  onSignOut: () => void;
+  onSetProviderKey: (providerId: string, apiKey: string | null) => Promise<string | null>;
+  darkMode: boolean;
+  theme: ThemeClasses;
+}
+
+function AccountPanel({ account, accountError, hasToken, providers, onSignIn, onSignOut, onSetProviderKey, darkMode, theme }: AccountPanelProps) {
+  const [token, setToken] = useState('');
+  const [keyDrafts, setKeyDrafts] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const user = account?.user;
+  const signedIn = !!user && user.role !== 'anonymous';
+  const usage = account?.usage;
+  const keyProviders = account?.byokEnabled ? providers.filter((provider) => provider.userKeys) : [];
+
+  const signIn = async () => {
+    setIsSaving(true);
+    const result = await onSignIn(token.trim());
+    setIsSaving(false);
+    setError(result);
+    if (!result) setToken('');
+  };
+
+  const saveKey = async (providerId: string, apiKey: string | null) => {
+    setIsSaving(true);
+    const result = await onSetProviderKey(providerId, apiKey);
+    setIsSaving(false);
+    setError(result);
+    if (!result) setKeyDrafts((prev) => ({ ...prev, [providerId]: '' }));
+  };
+
+  const shownError = error ?? accountError;
+
+  return (
+    <div className={`${theme.card} rounded-2xl p-6 shadow-lg border`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <UserCircle className="w-5 h-5 text-sky-600" />
+          <h2 className={`text-xl font-semibold ${theme.text}`}>Account</h2>
+        </div>
+        {hasToken && (
+          <button
+            onClick={onSignOut}
+            className={`flex items-center gap-1 px-3 py-1 rounded-lg transition-colors ${theme.secondaryButton}`}
+            title="Forget the API token stored in this browser"
+          >
+            <LogOut className="w-4 h-4" />
+            <span className="text-xs">Sign out</span>
+          </button>
+        )}
+      </div>
+
+      {signedIn && user ? (
+        <div className="space-y-2 text-sm">
+          <div className={theme.text}>
+            Signed in as <span className="font-semibold">{user.name}</span>
+            {user.role === 'admin' && <span className={`ml-2 text-xs ${theme.textMuted}`}>(admin)</span>}
+          </div>
+          {usage && (
+            <div className={`font-mono ${theme.textSecondary}`}>
+              Today: {usage.today.tokens.toLocaleString()}
+              {user.limits.dailyTokens ? ` / ${user.limits.dailyTokens.toLocaleString()}` : ''} tokens,{' '}
+              {usage.today.requests} {usage.today.requests === 1 ? 'request' : 'requests'}
+            </div>
+          )}
+          {usage && user.limits.dailyTokens && (
+            <div className={`h-2 rounded-full overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+              <div
+                className={`h-full ${usage.today.tokens >= user.limits.dailyTokens ? 'bg-red-500' : 'bg-sky-500'}`}
+                style={{ width: `${Math.min(100, (usage.today.tokens / user.limits.dailyTokens) * 100)}%` }}
+              />
+            </div>
+          )}
+          <div className={`text-xs ${theme.textMuted}`}>
+            Up to {user.limits.rateLimit} requests per 15 minutes
+            {user.limits.dailyTokens ? '' : ', no daily token quota'}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className={`text-sm ${theme.textSecondary}`}>
+            {account?.authRequired
+              ? 'This server requires an API token. Ask an administrator for one.'
+              : 'You are using the playground anonymously, with limits shared per IP address. Sign in with an API token to get your own.'}
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && token.trim()) signIn();
+              }}
+              placeholder="pp_..."
+              className={`flex-1 px-3 py-2 text-sm rounded-lg border font-mono ${theme.input}`}
+            />
+            <button
+              onClick={signIn}
+              disabled={!token.trim() || isSaving}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg transition-colors bg-sky-600 hover:bg-sky-700 text-white disabled:opacity-50"
+            >
+              <LogIn className="w-4 h-4" />
+              Sign in
+            </button>
+          </div>
+        </div>
+      )}
+
+      {signedIn && user && keyProviders.length > 0 && (
+        <div className={`mt-4 pt-4 border-t ${darkMode ? 'border-gray-700' : 'border-gray-200'} space-y-3`}>
+          <div className={`flex items-center gap-2 text-sm font-medium ${theme.text}`}>
+            <KeyRound className="w-4 h-4" />
+            Your provider keys
+          </div>
+          {keyProviders.map((provider) => {
+            const hasKey = user.keys.includes(provider.id);
+            const draft = keyDrafts[provider.id] ?? '';
+            return (
+              <div key={provider.id} className="space-y-1">
+                <div className={`text-xs ${theme.textMuted}`}>
+                  {provider.name}: {hasKey ? 'runs on your key' : 'runs on the server key, if it has one'}
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="password"
+                    value={draft}
+                    onChange={(e) => setKeyDrafts((prev) => ({ ...prev, [provider.id]: e.target.value }))}
+                    placeholder={hasKey ? 'Replace your key' : 'Paste your API key'}
+                    className={`flex-1 px-3 py-1.5 text-sm rounded-lg border font-mono ${theme.input}`}
+                  />
+                  <button
+                    onClick={() => saveKey(provider.id, draft.trim())}
+                    disabled={!draft.trim() || isSaving}
+                    className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${theme.secondaryButton} disabled:opacity-50`}
+                  >
+                    Save
+                  </button>
+                  {hasKey && (
+                    <button
+                      onClick={() => saveKey(provider.id, null)}
+                      disabled={isSaving}
+                      className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${theme.secondaryButton} disabled:opacity-50`}
+                      title="Remove your key and fall back to the server key"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          <p className={`text-xs ${theme.textMuted}`}>Keys are stored encrypted on the server and never sent back to the browser.</p>
+        </div>
+      )}
+
+      {shownError && <p className={`text-sm mt-3 ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{shownError}</p>}
+    </div>
+  );
+}
+
+export default AccountPanel;
@@ -0,0 +1,121 @@
+import { ClipboardCheck, Plus, Trash2 } from 'lucide-react';
+import { assertionLabels, assertionPlaceholders, createAssertionId } from '../lib/evaluation';
+import type { ThemeClasses } from '../theme';
+import type { Assertion, AssertionType, ModelInfo } from '../types';
+
+interface AssertionsPanelProps {
+  assertions: Assertion[];
+  onChange: (assertions: Assertion[]) => void;
+  // Models available as LLM judges
+  models: ModelInfo[];
+  theme: ThemeClasses;
+}
+
+// Types whose value is usually longer than one line
+const multilineTypes: AssertionType[] = ['json_schema', 'equals', 'llm_judge'];
+
+function AssertionsPanel({ assertions, onChange, models, theme }: AssertionsPanelProps) {
+  const update = (id: string, changes: Partial<Assertion>) => {
+    onChange(assertions.map((assertion) => (assertion.id === id ? { ...assertion, ...changes } : assertion)));
+  };
+
+  const remove = (id: string) => {
+    onChange(assertions.filter((assertion) => assertion.id !== id));
+  };
+
+  const add = () => {
+    onChange([...assertions, { id: createAssertionId(), type: 'contains', value: '' }]);
+  };
+
+  return (
+    <div className={`${theme.card} rounded-2xl p-6 shadow-lg border`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-lime-600" />
+          <h2 className={`text-xl font-semibold ${theme.text}`}>Assertions</h2>
+        </div>
+        <button
+          onClick={add}
+          className={`flex items-center gap-1 px-2 py-1 text-xs rounded-md ${theme.secondaryButton}`}
+          title="Add an assertion checked after every run"
+        >
+          <Plus className="w-3 h-3" />
+          Add
+        </button>
+      </div>
+
+      {assertions.length === 0 ? (
+        <p className={`text-sm ${theme.textMuted}`}>
+          Add assertions to score every run and comparison automatically.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {assertions.map((assertion) => (
+            <div key={assertion.id} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <select
+                  value={assertion.type}
+                  onChange={(e) => update(assertion.id, { type: e.target.value as AssertionType })}
+                  className={`px-2 py-1 text-sm ${theme.input} rounded-lg transition-colors`}
+                >
+                  {(Object.keys(assertionLabels) as AssertionType[]).map((type) => (
+                    <option key={type} value={type}>{assertionLabels[type]}</option>
+                  ))}
+                </select>
+                {assertion.type === 'llm_judge' && (
+                  <>
+                    <select
+                      value={assertion.model ?? ''}
+                      onChange={(e) => update(assertion.id, { model: e.target.value || undefined })}
+                      className={`flex-1 min-w-0 px-2 py-1 text-sm ${theme.input} rounded-lg transition-colors`}
+                      title="Model that grades the output"
+                    >
+                      <option value="">Run's model</option>
+                      {models.map((m) => (
+                        <option key={m.id} value={m.id}>{m.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={assertion.threshold ?? 7}
+                      onChange={(e) => update(assertion.id, { threshold: Number(e.target.value) })}
+                      className={`w-16 px-2 py-1 text-sm ${theme.input} rounded-lg transition-colors`}
+                      title="Minimum passing score out of 10"
+                    />
+                  </>
+                )}
+                <button
+                  onClick={() => remove(assertion.id)}
+                  className={`ml-auto p-1 rounded ${theme.textMuted} hover:text-red-600`}
+                  title="Remove assertion"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {multilineTypes.includes(assertion.type) ? (
+                <textarea
+                  value={assertion.value}
+                  onChange={(e) => update(assertion.id, { value: e.target.value })}
+                  className={`w-full h-20 px-3 py-2 text-sm ${theme.input} rounded-lg resize-y transition-colors ${assertion.type === 'json_schema' ? 'font-mono' : ''}`}
+                  placeholder={assertionPlaceholders[assertion.type]}
+                />
+              ) : (
+                <input
+                  type={assertion.type === 'max_length' ? 'number' : 'text'}
+                  value={assertion.value}
+                  onChange={(e) => update(assertion.id, { value: e.target.value })}
+                  className={`w-full px-3 py-2 text-sm ${theme.input} rounded-lg transition-colors ${assertion.type === 'regex' ? 'font-mono' : ''}`}
+                  placeholder={assertionPlaceholders[assertion.type]}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AssertionsPanel;
@@ -0,0 +1,61 @@
+import { FileText, Image, X } from 'lucide-react';
+import { formatBytes } from '../lib/attachments';
+import type { ThemeClasses } from '../theme';
+import type { Attachment } from '../types';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  // Shows a remove button on each attachment when set
+  onRemove?: (index: number) => void;
+  darkMode: boolean;
+  theme: ThemeClasses;
+  // Smaller previews for dense lists such as run history
+  compact?: boolean;
+}
+
+function AttachmentList({ attachments, onRemove, darkMode, theme, compact = false }: AttachmentListProps) {
+  const size = compact ? 'w-10 h-10' : 'w-16 h-16';
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment, index) => (
+        <div
+          key={`${attachment.name}-${index}`}
+          className={`relative flex items-center gap-2 rounded-lg border ${darkMode ? 'border-gray-600' : 'border-gray-200'} ${attachment.type === 'file' ? 'px-2 py-1' : ''}`}
+          title={`${attachment.name} (${formatBytes(attachment.size)})`}
+        >
+          {attachment.type === 'image' ? (
+            attachment.thumbnail || attachment.data ? (
+              <img
+                src={attachment.thumbnail ?? `data:${attachment.mimeType};base64,${attachment.data}`}
+                alt={attachment.name}
+                className={`${size} object-cover rounded-lg`}
+              />
+            ) : (
+              <div className={`${size} flex items-center justify-center ${theme.textMuted}`}>
+                <Image className="w-5 h-5" />
+              </div>
+            )
+          ) : (
+            <>
+              <FileText className={`w-4 h-4 flex-shrink-0 ${theme.textMuted}`} />
+              <span className={`text-xs ${theme.textSecondary} max-w-[10rem] truncate`}>{attachment.name}</span>
+              {!compact && <span className={`text-xs ${theme.textMuted}`}>{formatBytes(attachment.size)}</span>}
+            </>
+          )}
+          {onRemove && (
+            <button
+              onClick={() => onRemove(index)}
+              className={`${attachment.type === 'image' ? 'absolute -top-2 -right-2 rounded-full shadow' : 'rounded'} p-0.5 transition-colors ${theme.secondaryButton}`}
+              title="Remove attachment"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default AttachmentList;
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { Check, Code, Copy, AlertCircle } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+import { DEFAULT_BASE_URL, generateSnippet, snippetLanguages } from '../lib/codegen';
+import type { SnippetLanguage } from '../lib/codegen';
+import type { ThemeClasses } from '../theme';
+import type { ChatMessage, ChatRequestPreview, RunSettings } from '../types';
+
+interface CodeExportPanelProps {
+  darkMode: boolean;
+  theme: ThemeClasses;
+  // The /api/chat payload a run would send right now, prompts already rendered
+  payload: Partial<RunSettings> & { messages?: ChatMessage[] };
+}
+
+// Wait for typing to pause before asking the server for the request body
+const PREVIEW_DELAY_MS = 300;
+
+function CodeExportPanel({ darkMode, theme, payload }: CodeExportPanelProps) {
+  const [language, setLanguage] = useState<SnippetLanguage>('curl');
+  const [preview, setPreview] = useState<ChatRequestPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const serializedPayload = JSON.stringify(payload);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await apiFetch('/api/chat/request', {
+          method: 'POST',
+          signal: controller.signal,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: serializedPayload,
+        });
+        const data: ChatRequestPreview = await response.json();
+        if (data.success && data.requestBody) {
+          setPreview(data);
+          setError(null);
+        } else {
+          setPreview(null);
+          setError(data.error || 'Failed to build the request');
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to build the request:', err);
+        setError('Failed to connect to the server. Make sure the backend is running.');
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [serializedPayload]);
+
+  const snippet = preview?.requestBody
+    ? generateSnippet(language, preview.requestBody, preview.baseURL ?? DEFAULT_BASE_URL)
+    : '';
+
+  const copySnippet = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+    }
+  };
+
+  return (
+    <div className={`${theme.card} rounded-2xl p-6 shadow-lg border mt-8`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Code className="w-5 h-5 text-violet-600" />
+          <h2 className={`text-xl font-semibold ${theme.text}`}>Export Code</h2>
+        </div>
+        {snippet && (
+          <button
+            onClick={copySnippet}
+            className={`flex items-center gap-1 px-3 py-1 rounded-lg transition-colors ${theme.secondaryButton}`}
+            title="Copy the snippet to the clipboard"
+          >
+            {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+            <span className="text-xs">{copied ? 'Copied!' : 'Copy'}</span>
+          </button>
+        )}
+      </div>
+
+      <p className={`text-sm ${theme.textMuted} mb-4`}>
+        The exact request the playground sends for the current settings, without streaming. The API key is read
+        from the <code>OPENAI_API_KEY</code> environment variable.
+        {preview && !preview.baseURL && ' This provider has no upstream API, so the snippet targets OpenAI.'}
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {snippetLanguages.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setLanguage(option.value)}
+            className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${language === option.value ? 'bg-violet-600 hover:bg-violet-700 text-white' : theme.secondaryButton}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {error ? (
+        <div className={`p-4 ${darkMode ? 'bg-red-900/50 border-red-700' : 'bg-red-50 border-red-200'} border rounded-lg`}>
+          <div className="flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
+            <div className={`${darkMode ? 'text-red-300' : 'text-red-700'} text-sm`}>{error}</div>
+          </div>
+        </div>
+      ) : (
+        <pre className={`${theme.outputBg} ${theme.outputText} rounded-lg p-4 text-sm font-mono overflow-x-auto max-h-[500px]`}>
+          {snippet}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+export default CodeExportPanel;
@@ -0,0 +1,440 @@
+import { useMemo, useRef, useState } from 'react';
+import { GitCompare, Play, Square, Plus, X, Clock, AlertCircle, Ban, Highlighter } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+import { formatCost } from '../lib/cost';
+import { evaluateOutput } from '../lib/evaluation';
+import type { SamplingSettings } from '../lib/sampling';
+import type { StructuredSettings } from '../lib/structured';
+import { diffWords, similarity } from '../lib/diff';
+import { testConfigs } from '../testConfigs';
+import EvaluationBadges from './EvaluationBadges';
+import GuardrailBadges from './GuardrailBadges';
+import ToolCallList from './ToolCallList';
+import TraceId from './TraceId';
+import type { ThemeClasses } from '../theme';
+import type { Assertion, BatchResponse, BatchResult, BatchRun, EvaluationResponse, ModelInfo, TestConfig } from '../types';
+
+const MAX_COLUMNS = 6;
+
+interface CompareColumn extends BatchRun {
+  id: string;
+}
+
+interface ComparePanelProps {
+  darkMode: boolean;
+  theme: ThemeClasses;
+  systemPrompt: string;
+  userPrompt: string;
+  stopSequence: string;
+  provider: string;
+  models: ModelInfo[];
+  // Current controls, used for the "Add current settings" column
+  current: Omit<BatchRun, 'label'>;
+  // JSON mode, schema and tools shared by every column
+  structured: StructuredSettings;
+  // Top P, seed and logit bias shared by every column
+  sampling: SamplingSettings;
+  // Checked against every successful column once the comparison finishes
+  assertions: Assertion[];
+  // Called after every comparison with its total cost in USD
+  onComplete?: (cost: number) => void;
+}
+
+let nextColumnId = 0;
+const createColumnId = () => `column-${nextColumnId++}`;
+
+const toBatchRun = (column: CompareColumn): BatchRun => ({
+  label: column.label,
+  model: column.model,
+  temperature: column.temperature,
+  maxTokens: column.maxTokens,
+  presencePenalty: column.presencePenalty,
+  frequencyPenalty: column.frequencyPenalty,
+});
+
+const fromTestConfig = (config: TestConfig, model: string): Omit<CompareColumn, 'id'> => ({
+  label: config.name,
+  model,
+  temperature: config.temperature,
+  maxTokens: config.maxTokens,
+  presencePenalty: config.presencePenalty,
+  frequencyPenalty: config.frequencyPenalty,
+});
+
+function ComparePanel({ darkMode, theme, systemPrompt, userPrompt, stopSequence, provider, models, current, assertions, structured, sampling, onComplete }: ComparePanelProps) {
+  const [columns, setColumns] = useState<CompareColumn[]>(() =>
+    testConfigs.map((config) => ({ ...fromTestConfig(config, current.model), id: createColumnId() }))
+  );
+  const [results, setResults] = useState<BatchResult[] | null>(null);
+  const [evaluations, setEvaluations] = useState<(EvaluationResponse | null)[]>([]);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorTraceId, setErrorTraceId] = useState<string | null>(null);
+  const [cancelled, setCancelled] = useState(false);
+  const [highlightDiffs, setHighlightDiffs] = useState(true);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const addColumn = (column: Omit<CompareColumn, 'id'>) => {
+    if (columns.length >= MAX_COLUMNS) return;
+    setColumns([...columns, { ...column, id: createColumnId() }]);
+    setResults(null);
+  };
+
+  const removeColumn = (id: string) => {
+    setColumns(columns.filter((column) => column.id !== id));
+    setResults(null);
+  };
+
+  const updateColumnModel = (id: string, model: string) => {
+    setColumns(columns.map((column) => (column.id === id ? { ...column, model } : column)));
+    setResults(null);
+  };
+
+  const addCurrentSettings = () => {
+    const customCount = columns.filter((column) => column.label.startsWith('Custom')).length;
+    addColumn({ label: `Custom ${customCount + 1}`, ...current });
+  };
+
+  const handleRunComparison = async () => {
+    setErrorTraceId(null);
+    if (!userPrompt.trim()) {
+      setError('Please enter a user prompt');
+      return;
+    }
+
+    let batchCost = 0;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsRunning(true);
+    setError(null);
+    setResults(null);
+    setEvaluations([]);
+    setCancelled(false);
+
+    try {
+      const response = await apiFetch('/api/chat/batch', {
+        method: 'POST',
+        signal: controller.signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          provider,
+          systemPrompt,
+          userPrompt,
+          stopSequence,
+          ...structured,
+          ...sampling,
+          runs: columns.map(toBatchRun),
+        }),
+      });
+
+      const data: BatchResponse = await response.json();
+
+      if (data.success && data.results) {
+        setResults(data.results);
+        batchCost = data.results.reduce((total, result) => total + (result.cost ?? 0), 0);
+
+        if (assertions.length > 0) {
+          setIsEvaluating(true);
+          const batchEvaluations = await Promise.all(data.results.map((result, index) =>
+            result.success && result.content
+              ? evaluateOutput({
+                  output: result.content,
+                  assertions,
+                  provider,
+                  model: columns[index].model,
+                  prompt: userPrompt,
+                }, controller.signal)
+              : null
+          ));
+          setEvaluations(batchEvaluations);
+          batchCost += batchEvaluations.reduce((total, evaluation) => total + (evaluation?.cost ?? 0), 0);
+        }
+      } else {
+        setError(data.error || 'An unknown error occurred');
+        setErrorTraceId(data.traceId ?? null);
+      }
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setCancelled(true);
+        return;
+      }
+      console.error('Comparison request failed:', err);
+      setError('Failed to connect to the server. Make sure the backend is running.');
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+      setIsEvaluating(false);
+      onComplete?.(batchCost);
+    }
+  };
+
+  const handleStopComparison = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // The first successful column is the baseline every other output is diffed against
+  const baselineIndex = results?.findIndex((result) => result.success && result.content) ?? -1;
+  const baseline = baselineIndex >= 0 ? results?.[baselineIndex].content ?? '' : '';
+
+  const diffs = useMemo(() => {
+    if (!results || baselineIndex < 0) return [];
+    return results.map((result, index) =>
+      index !== baselineIndex && result.success && result.content ? diffWords(baseline, result.content) : null
+    );
+  }, [results, baselineIndex, baseline]);
+
+  // Share of assertions each column passed; failed runs score zero
+  const scores = results && evaluations.length > 0
+    ? results.map((_, index) => evaluations[index]?.score ?? 0)
+    : [];
+  const bestScore = scores.length > 0 ? Math.max(...scores) : null;
+
+  const unusedConfigs = testConfigs.filter((config) => !columns.some((column) => column.label === config.name));
+
+  return (
+    <div className={`${theme.card} rounded-2xl p-6 shadow-lg border mt-8`}>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-teal-600" />
+          <h2 className={`text-xl font-semibold ${theme.text}`}>Compare Configurations</h2>
+        </div>
+        <label className={`flex items-center gap-2 text-sm ${theme.textSecondary} cursor-pointer`}>
+          <input
+            type="checkbox"
+            checked={highlightDiffs}
+            onChange={(e) => setHighlightDiffs(e.target.checked)}
+            className="w-4 h-4 accent-teal-600"
+          />
+          <Highlighter className="w-4 h-4" />
+          Highlight differences
+        </label>
+      </div>
+
+      <p className={`text-sm ${theme.textMuted} mb-4`}>
+        Runs the current system and user prompt against every column in parallel.
+      </p>
+
+      {/* Column setup */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-3 mb-4">
+        {columns.map((column) => (
+          <div key={column.id} className={`p-4 ${theme.configCard} border rounded-xl`}>
+            <div className="flex items-start justify-between gap-2 mb-2">
+              <span className={`font-semibold ${theme.text}`}>{column.label}</span>
+              <button
+                onClick={() => removeColumn(column.id)}
+                disabled={isRunning}
+                className={`${theme.textMuted} hover:text-red-600 disabled:opacity-50`}
+                title="Remove column"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <select
+              value={column.model}
+              onChange={(e) => updateColumnModel(column.id, e.target.value)}
+              disabled={isRunning}
+              className={`w-full px-2 py-1 mb-2 text-sm ${theme.input} rounded-lg transition-colors`}
+            >
+              {!models.some((m) => m.id === column.model) && <option value={column.model}>{column.model}</option>}
+              {models.map((m) => (
+                <option key={m.id} value={m.id}>{m.name}</option>
+              ))}
+            </select>
+            <div className={`grid grid-cols-2 gap-x-4 text-xs font-mono ${theme.textMuted}`}>
+              <span>Temp: {column.temperature}</span>
+              <span>Tokens: {column.maxTokens}</span>
+              <span>Presence: {column.presencePenalty}</span>
+              <span>Frequency: {column.frequencyPenalty}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {unusedConfigs.map((config) => (
+          <button
+            key={config.name}
+            onClick={() => addColumn(fromTestConfig(config, current.model))}
+            disabled={isRunning || columns.length >= MAX_COLUMNS}
+            className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg ${theme.secondaryButton} disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            <Plus className="w-4 h-4" />
+            {config.name}
+          </button>
+        ))}
+        <button
+          onClick={addCurrentSettings}
+          disabled={isRunning || columns.length >= MAX_COLUMNS}
+          className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg ${theme.secondaryButton} disabled:opacity-50 disabled:cursor-not-allowed`}
+          title="Add a column with the current model and parameters"
+        >
+          <Plus className="w-4 h-4" />
+          Current settings
+        </button>
+      </div>
+
+      <div className="flex gap-3 mb-6">
+        <button
+          onClick={handleRunComparison}
+          disabled={isRunning || columns.length === 0 || !userPrompt.trim()}
+          className="flex-1 bg-gradient-to-r from-teal-600 to-emerald-600 hover:from-teal-700 hover:to-emerald-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-200 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl disabled:cursor-not-allowed"
+        >
+          <Play className={`w-5 h-5 ${isRunning ? 'animate-pulse' : ''}`} />
+          {isRunning ? `Running ${columns.length} Configurations...` : `Run Comparison (${columns.length})`}
+        </button>
+        {isRunning && (
+          <button
+            onClick={handleStopComparison}
+            className="bg-gradient-to-r from-rose-500 to-red-600 hover:from-rose-600 hover:to-red-700 text-white font-semibold py-3 px-5 rounded-xl transition-all duration-200 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl"
+            title="Stop the comparison"
+          >
+            <Square className="w-4 h-4 fill-current" />
+            Stop
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className={`mb-4 p-4 ${darkMode ? 'bg-red-900/50 border-red-700' : 'bg-red-50 border-red-200'} border rounded-lg`}>
+          <div className="flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
+            <div className={`${darkMode ? 'text-red-300' : 'text-red-700'} text-sm`}>
+              {error}
+              <TraceId traceId={errorTraceId} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {cancelled && (
+        <div className={`mb-4 p-4 ${darkMode ? 'bg-amber-900/40 border-amber-700' : 'bg-amber-50 border-amber-200'} border rounded-lg`}>
+          <div className="flex items-start gap-2">
+            <Ban className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+            <div className={`${darkMode ? 'text-amber-300' : 'text-amber-800'} text-sm`}>Comparison cancelled.</div>
+          </div>
+        </div>
+      )}
+
+      {results && scores.length > 0 && bestScore !== null && (
+        <div className={`mb-4 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm ${theme.textSecondary}`}>
+          <span className="font-semibold">Assertion scores:</span>
+          {results.map((result, index) => (
+            <span key={index} className={scores[index] === bestScore ? 'font-semibold text-lime-600' : ''}>
+              {result.label} {Math.round(scores[index] * 100)}%
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Results */}
+      {results && (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {results.map((result, index) => {
+            const diff = diffs[index];
+            return (
+              <div key={index} className={`${theme.outputBg} rounded-xl p-4 flex flex-col`}>
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  <div>
+                    <div className={`font-semibold ${theme.text}`}>{result.label}</div>
+                    {result.model && <div className={`text-xs font-mono ${theme.textMuted}`}>{result.model}</div>}
+                  </div>
+                  <div className="flex flex-col items-end gap-1">
+                    <span className={`flex items-center gap-1 text-xs ${theme.textSecondary}`}>
+                      <Clock className="w-3 h-3" />
+                      {(result.latencyMs / 1000).toFixed(2)}s
+                    </span>
+                    {result.attempts !== undefined && result.attempts > 1 && (
+                      <span className={`text-xs ${theme.textMuted}`} title="Transient upstream errors were retried">
+                        {result.attempts} attempts
+                      </span>
+                    )}
+                    {index === baselineIndex && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-teal-100 text-teal-800">Baseline</span>
+                    )}
+                    {diff && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">
+                        {Math.round(similarity(diff) * 100)}% similar
+                      </span>
+                    )}
+                    {scores.length > 0 && (
+                      <span
+                        className={`text-xs px-2 py-0.5 rounded-full font-semibold ${scores[index] === bestScore ? 'bg-lime-600 text-white' : 'bg-gray-200 text-gray-700'}`}
+                        title="Share of assertions passed"
+                      >
+                        Score {Math.round(scores[index] * 100)}%
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                {result.usage && (
+                  <div className={`grid grid-cols-3 gap-2 text-xs font-mono mb-3 ${theme.textMuted}`}>
+                    <span title="Prompt tokens">in {result.usage.prompt_tokens}</span>
+                    <span title="Completion tokens">out {result.usage.completion_tokens}</span>
+                    <span title="Total tokens" className="font-semibold">Σ {result.usage.total_tokens}</span>
+                    {result.cost != null && <span title="Cost" className="col-span-3">{formatCost(result.cost)}</span>}
+                  </div>
+                )}
+
+                {result.guardrails && result.guardrails.length > 0 && (
+                  <div className="mb-3">
+                    <GuardrailBadges guardrails={result.guardrails} darkMode={darkMode} />
+                  </div>
+                )}
+
+                {(evaluations[index] || (isEvaluating && result.success)) && (
+                  <div className="mb-3">
+                    <EvaluationBadges evaluation={evaluations[index] ?? null} isEvaluating={isEvaluating} darkMode={darkMode} />
+                  </div>
+                )}
+
+                {result.toolCalls && result.toolCalls.length > 0 && (
+                  <div className="mb-3">
+                    <ToolCallList toolCalls={result.toolCalls} darkMode={darkMode} theme={theme} />
+                  </div>
+                )}
+
+                {result.success ? (
+                  <pre className={`flex-1 text-sm ${theme.outputText} whitespace-pre-wrap leading-relaxed max-h-[400px] overflow-y-auto`}>
+                    {highlightDiffs && diff
+                      ? diff
+                          .filter((part) => part.op !== 'delete')
+                          .map((part, partIndex) =>
+                            part.op === 'insert' ? (
+                              <mark
+                                key={partIndex}
+                                className={`${darkMode ? 'bg-amber-700/60 text-amber-100' : 'bg-amber-200 text-amber-900'} rounded-sm`}
+                              >
+                                {part.value}
+                              </mark>
+                            ) : (
+                              <span key={partIndex}>{part.value}</span>
+                            )
+                          )
+                      : result.content}
+                  </pre>
+                ) : (
+                  <div className={`flex items-start gap-2 text-sm ${darkMode ? 'text-red-300' : 'text-red-700'}`}>
+                    <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span>{result.error}</span>
+                  </div>
+                )}
+
+                {result.finishReason && (
+                  <div className={`text-xs mt-2 ${theme.textMuted}`}>Finish reason: {result.finishReason}</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ComparePanel;
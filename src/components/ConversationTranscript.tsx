@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { User, Bot, Pencil, Trash2, RefreshCw, Check, X, MessagesSquare } from 'lucide-react';
+import AttachmentList from './AttachmentList';
+import type { ThemeClasses } from '../theme';
+import type { ChatMessage } from '../types';
+
+interface ConversationTranscriptProps {
+  messages: ChatMessage[];
+  // Assistant reply currently streaming in, shown after the last message
+  pendingContent: string;
+  isRunning: boolean;
+  darkMode: boolean;
+  theme: ThemeClasses;
+  onEdit: (index: number, content: string) => void;
+  onDelete: (index: number) => void;
+  onRegenerate: (index: number) => void;
+}
+
+function ConversationTranscript({
+  messages,
+  pendingContent,
+  isRunning,
+  darkMode,
+  theme,
+  onEdit,
+  onDelete,
+  onRegenerate,
+}: ConversationTranscriptProps) {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setDraft(messages[index].content);
+  };
+
+  const saveEdit = () => {
+    // A message that carries attachments may be left without text
+    if (editingIndex === null || (!draft.trim() && !messages[editingIndex].attachments?.length)) return;
+    onEdit(editingIndex, draft);
+    setEditingIndex(null);
+  };
+
+  // Regenerating needs a user turn to answer: an assistant message is replaced
+  // by answering the user turn before it, a user message is answered afresh
+  const canRegenerate = (index: number) =>
+    messages[index].role === 'user' || (index > 0 && messages[index - 1].role === 'user');
+
+  if (messages.length === 0 && !isRunning) {
+    return (
+      <div className={`flex items-center justify-center h-full ${theme.textMuted}`}>
+        <div className="text-center">
+          <MessagesSquare className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p>Your conversation will appear here</p>
+          <p className="text-sm mt-1">Type a message in the prompt box, then click "Send Message"</p>
+        </div>
+      </div>
+    );
+  }
+
+  const bubbleClasses = (role: ChatMessage['role']) =>
+    role === 'user'
+      ? darkMode ? 'bg-blue-900/60 border-blue-700' : 'bg-blue-50 border-blue-200'
+      : darkMode ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200';
+
+  return (
+    <div className="space-y-3">
+      {messages.map((message, index) => (
+        <div key={index} className={`group p-3 rounded-xl border ${bubbleClasses(message.role)}`}>
+          <div className="flex items-center justify-between mb-1">
+            <span className={`flex items-center gap-1 text-xs font-semibold uppercase tracking-wide ${theme.textMuted}`}>
+              {message.role === 'user' ? <User className="w-3 h-3" /> : <Bot className="w-3 h-3" />}
+              {message.role}
+            </span>
+            {editingIndex !== index && (
+              <div className="flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                <button
+                  onClick={() => startEditing(index)}
+                  disabled={isRunning}
+                  className={`p-1 rounded ${theme.textMuted} hover:text-blue-600 disabled:opacity-50`}
+                  title="Edit message"
+                >
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => onRegenerate(index)}
+                  disabled={isRunning || !canRegenerate(index)}
+                  className={`p-1 rounded ${theme.textMuted} hover:text-emerald-600 disabled:opacity-50`}
+                  title={message.role === 'user' ? 'Regenerate the reply to this message' : 'Regenerate this reply'}
+                >
+                  <RefreshCw className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => onDelete(index)}
+                  disabled={isRunning}
+                  className={`p-1 rounded ${theme.textMuted} hover:text-red-600 disabled:opacity-50`}
+                  title="Delete message"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+          </div>
+
+          {editingIndex === index ? (
+            <div className="space-y-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className={`w-full h-24 px-2 py-1 text-sm ${theme.input} rounded-lg resize-y`}
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setEditingIndex(null)}
+                  className={`flex items-center gap-1 px-2 py-1 text-xs rounded-md ${theme.secondaryButton}`}
+                >
+                  <X className="w-3 h-3" />
+                  Cancel
+                </button>
+                <button
+                  onClick={saveEdit}
+                  disabled={!draft.trim() && !messages[editingIndex].attachments?.length}
+                  className="flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                >
+                  <Check className="w-3 h-3" />
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <pre className={`text-sm ${theme.outputText} whitespace-pre-wrap leading-relaxed`}>{message.content}</pre>
+          )}
+          {message.attachments && message.attachments.length > 0 && (
+            <div className="mt-2">
+              <AttachmentList attachments={message.attachments} darkMode={darkMode} theme={theme} compact />
+            </div>
+          )}
+        </div>
+      ))}
+
+      {isRunning && (
+        <div className={`p-3 rounded-xl border ${bubbleClasses('assistant')}`}>
+          <span className={`flex items-center gap-1 text-xs font-semibold uppercase tracking-wide mb-1 ${theme.textMuted}`}>
+            <Bot className="w-3 h-3" />
+            assistant
+          </span>
+          <pre className={`text-sm ${theme.outputText} whitespace-pre-wrap leading-relaxed`}>
+            {pendingContent}
+            <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-blue-500 animate-pulse" />
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ConversationTranscript;
@@ -0,0 +1,425 @@
+import { useRef, useState } from 'react';
+import { Table, Upload, Play, Square, AlertCircle, Ban, Download } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+import { formatCost } from '../lib/cost';
+import { parseDataset, toCsv, toJsonl, downloadFile } from '../lib/dataset';
+import type { Dataset } from '../lib/dataset';
+import { readEventStream } from '../lib/sse';
+import GuardrailBadges from './GuardrailBadges';
+import TraceId from './TraceId';
+import type { ThemeClasses } from '../theme';
+import type { ApiResponse, DatasetRowResult, DatasetSummary, RunSettings } from '../types';
+
+const MAX_ROWS = 500;
+
+interface DatasetPanelProps {
+  darkMode: boolean;
+  theme: ThemeClasses;
+  // Unrendered prompts; every row fills in the template variables
+  systemPrompt: string;
+  userPrompt: string;
+  variables: string[];
+  settings: Omit<RunSettings, 'systemPrompt' | 'userPrompt'>;
+  // Called after every dataset run with its total cost in USD
+  onComplete?: (cost: number) => void;
+}
+
+function DatasetPanel({ darkMode, theme, systemPrompt, userPrompt, variables, settings, onComplete }: DatasetPanelProps) {
+  const [fileName, setFileName] = useState('');
+  const [dataset, setDataset] = useState<Dataset | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [concurrency, setConcurrency] = useState(3);
+  const [results, setResults] = useState<(DatasetRowResult | undefined)[]>([]);
+  const [summary, setSummary] = useState<DatasetSummary | null>(null);
+  const [completed, setCompleted] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorTraceId, setErrorTraceId] = useState<string | null>(null);
+  const [cancelled, setCancelled] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Variables map to the same-named column until the user picks another
+  const columnFor = (variable: string) =>
+    mapping[variable] ?? (dataset?.columns.includes(variable) ? variable : '');
+
+  const unmapped = variables.filter((variable) => !columnFor(variable));
+
+  const loadFile = async (file: File) => {
+    setError(null);
+    setResults([]);
+    setSummary(null);
+    setCompleted(0);
+    setMapping({});
+
+    try {
+      const parsed = parseDataset(file.name, await file.text());
+      if (parsed.rows.length === 0) {
+        setError('The file contains no data rows');
+        setDataset(null);
+        return;
+      }
+      if (parsed.rows.length > MAX_ROWS) {
+        setError(`Datasets are limited to ${MAX_ROWS} rows (this file has ${parsed.rows.length})`);
+        setDataset(null);
+        return;
+      }
+      setFileName(file.name);
+      setDataset(parsed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+      setDataset(null);
+    }
+  };
+
+  const handleRunDataset = async () => {
+    setErrorTraceId(null);
+    if (!dataset) return;
+    if (!userPrompt.trim()) {
+      setError('Please enter a user prompt');
+      return;
+    }
+    if (unmapped.length > 0) {
+      setError(`Map a column to every template variable: ${unmapped.join(', ')}`);
+      return;
+    }
+
+    let runCost = 0;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsRunning(true);
+    setError(null);
+    setResults(new Array(dataset.rows.length).fill(undefined));
+    setSummary(null);
+    setCompleted(0);
+    setCancelled(false);
+
+    try {
+      const response = await apiFetch('/api/datasets/run', {
+        method: 'POST',
+        signal: controller.signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...settings,
+          systemPrompt,
+          userPrompt,
+          concurrency,
+          rows: dataset.rows.map((row) =>
+            Object.fromEntries(variables.map((variable) => [variable, row[columnFor(variable)] ?? '']))
+          ),
+        }),
+      });
+
+      // Validation and budget failures still come back as plain JSON
+      if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        const data: ApiResponse = await response.json();
+        setError(data.error || 'An unknown error occurred');
+        setErrorTraceId(data.traceId ?? null);
+        return;
+      }
+
+      await readEventStream(response, ({ event, data }) => {
+        if (event === 'result') {
+          const result: DatasetRowResult = JSON.parse(data);
+          setResults((prev) => prev.map((existing, index) => (index === result.index ? result : existing)));
+          setCompleted(result.completed);
+        } else if (event === 'done') {
+          const done: DatasetSummary = JSON.parse(data);
+          setSummary(done);
+          runCost = done.cost;
+        } else if (event === 'error') {
+          const result: ApiResponse = JSON.parse(data);
+          setError(result.error || 'An unknown error occurred');
+          setErrorTraceId(result.traceId ?? null);
+        }
+      });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setCancelled(true);
+        return;
+      }
+      console.error('Dataset run failed:', err);
+      setError('Failed to connect to the server. Make sure the backend is running.');
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+      onComplete?.(runCost);
+    }
+  };
+
+  const handleStopDataset = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Original row values followed by the run's outcome
+  const exportRows = () =>
+    (dataset?.rows ?? []).map((row, index) => {
+      const result = results[index];
+      return {
+        ...row,
+        output: result?.content ?? '',
+        prompt_tokens: String(result?.usage?.prompt_tokens ?? ''),
+        completion_tokens: String(result?.usage?.completion_tokens ?? ''),
+        total_tokens: String(result?.usage?.total_tokens ?? ''),
+        latency_ms: String(result?.latencyMs ?? ''),
+        attempts: String(result?.attempts ?? ''),
+        model: result?.model ?? '',
+        error: result?.success === false ? result.error ?? '' : '',
+        error_type: result?.success === false ? result.type ?? '' : '',
+      };
+    });
+
+  const exportResults = (format: 'csv' | 'jsonl') => {
+    const rows = exportRows();
+    const baseName = fileName.replace(/\.[^.]+$/, '') || 'dataset';
+    if (format === 'csv') {
+      const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+      downloadFile(`${baseName}-results.csv`, toCsv(columns, rows), 'text/csv');
+    } else {
+      downloadFile(`${baseName}-results.jsonl`, toJsonl(rows), 'application/x-ndjson');
+    }
+  };
+
+  const total = dataset?.rows.length ?? 0;
+  const hasResults = results.some((result) => result);
+
+  return (
+    <div className={`${theme.card} rounded-2xl p-6 shadow-lg border mt-8`}>
+      <div className="flex items-center gap-2 mb-4">
+        <Table className="w-5 h-5 text-orange-600" />
+        <h2 className={`text-xl font-semibold ${theme.text}`}>Dataset Run</h2>
+      </div>
+
+      <p className={`text-sm ${theme.textMuted} mb-4`}>
+        Runs the prompt template once per row of a CSV or JSONL file with the current model and parameters.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <label
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg cursor-pointer ${theme.secondaryButton} ${isRunning ? 'opacity-50 pointer-events-none' : ''}`}
+        >
+          <Upload className="w-4 h-4" />
+          {dataset ? 'Replace file' : 'Upload CSV / JSONL'}
+          <input
+            type="file"
+            accept=".csv,.jsonl,.ndjson,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {dataset && (
+          <span className={`text-sm ${theme.textSecondary}`}>
+            {fileName} · {dataset.rows.length} rows · {dataset.columns.length} columns
+          </span>
+        )}
+      </div>
+
+      {dataset && (
+        <div className="mb-4">
+          <h3 className={`text-sm font-medium ${theme.textSecondary} mb-2`}>Column mapping</h3>
+          {variables.length === 0 ? (
+            <p className={`text-sm ${theme.textMuted}`}>
+              The prompts have no {'{{variables}}'}, so every row sends the same prompt.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-3">
+              {variables.map((variable) => (
+                <div key={variable}>
+                  <label htmlFor={`column-${variable}`} className={`block text-xs font-mono ${theme.textMuted} mb-1`}>
+                    {`{{${variable}}}`}
+                  </label>
+                  <select
+                    id={`column-${variable}`}
+                    value={columnFor(variable)}
+                    onChange={(e) => setMapping((prev) => ({ ...prev, [variable]: e.target.value }))}
+                    disabled={isRunning}
+                    className={`w-full px-2 py-1 text-sm ${theme.input} rounded-lg transition-colors ${columnFor(variable) ? '' : 'ring-1 ring-amber-400'}`}
+                  >
+                    <option value="">Select a column...</option>
+                    {dataset.columns.map((column) => (
+                      <option key={column} value={column}>{column}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-3 mb-4">
+        <label className={`flex items-center gap-2 text-sm ${theme.textSecondary}`}>
+          Concurrency
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            disabled={isRunning}
+            className={`px-2 py-1 ${theme.input} rounded-lg transition-colors`}
+          >
+            {[1, 2, 3, 4, 5].map((value) => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex gap-3 mb-6">
+        <button
+          onClick={handleRunDataset}
+          disabled={isRunning || !dataset || unmapped.length > 0 || !userPrompt.trim()}
+          className="flex-1 bg-gradient-to-r from-orange-500 to-amber-600 hover:from-orange-600 hover:to-amber-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-200 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl disabled:cursor-not-allowed"
+        >
+          <Play className={`w-5 h-5 ${isRunning ? 'animate-pulse' : ''}`} />
+          {isRunning ? `Running ${completed}/${total} Rows...` : `Run Dataset (${total})`}
+        </button>
+        {isRunning && (
+          <button
+            onClick={handleStopDataset}
+            className="bg-gradient-to-r from-rose-500 to-red-600 hover:from-rose-600 hover:to-red-700 text-white font-semibold py-3 px-5 rounded-xl transition-all duration-200 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl"
+            title="Stop the dataset run"
+          >
+            <Square className="w-4 h-4 fill-current" />
+            Stop
+          </button>
+        )}
+      </div>
+
+      {(isRunning || hasResults) && total > 0 && (
+        <div className="mb-4">
+          <div className={`h-2 rounded-full overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+            <div
+              className="h-full bg-gradient-to-r from-orange-500 to-amber-500 transition-all duration-300"
+              style={{ width: `${(completed / total) * 100}%` }}
+            />
+          </div>
+          <div className={`flex justify-between text-xs mt-1 ${theme.textMuted}`}>
+            <span>{completed} of {total} rows</span>
+            {summary && (
+              <span>
+                {summary.succeeded} succeeded · {summary.failed} failed · {formatCost(summary.cost)} · {(summary.latencyMs / 1000).toFixed(1)}s
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className={`mb-4 p-4 ${darkMode ? 'bg-red-900/50 border-red-700' : 'bg-red-50 border-red-200'} border rounded-lg`}>
+          <div className="flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
+            <div className={`${darkMode ? 'text-red-300' : 'text-red-700'} text-sm`}>
+              {error}
+              <TraceId traceId={errorTraceId} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {cancelled && (
+        <div className={`mb-4 p-4 ${darkMode ? 'bg-amber-900/40 border-amber-700' : 'bg-amber-50 border-amber-200'} border rounded-lg`}>
+          <div className="flex items-start gap-2">
+            <Ban className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+            <div className={`${darkMode ? 'text-amber-300' : 'text-amber-800'} text-sm`}>
+              Dataset run cancelled after {completed} of {total} rows.
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Results */}
+      {dataset && hasResults && (
+        <>
+          <div className="flex justify-end gap-2 mb-2">
+            <button
+              onClick={() => exportResults('csv')}
+              disabled={isRunning}
+              className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg ${theme.secondaryButton} disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              <Download className="w-4 h-4" />
+              CSV
+            </button>
+            <button
+              onClick={() => exportResults('jsonl')}
+              disabled={isRunning}
+              className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg ${theme.secondaryButton} disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              <Download className="w-4 h-4" />
+              JSONL
+            </button>
+          </div>
+          <div className={`${theme.outputBg} rounded-xl overflow-x-auto max-h-[600px] overflow-y-auto`}>
+            <table className={`w-full text-sm ${theme.outputText}`}>
+              <thead className={`sticky top-0 ${theme.outputBg} text-left text-xs uppercase tracking-wide ${theme.textMuted}`}>
+                <tr>
+                  <th className="p-2">#</th>
+                  <th className="p-2">Input</th>
+                  <th className="p-2">Output</th>
+                  <th className="p-2 text-right">Tokens</th>
+                  <th className="p-2 text-right">Latency</th>
+                  <th className="p-2">Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {dataset.rows.map((row, index) => {
+                  const result = results[index];
+                  return (
+                    <tr key={index} className={`align-top border-t ${darkMode ? 'border-gray-600' : 'border-gray-200'}`}>
+                      <td className={`p-2 font-mono ${theme.textMuted}`}>{index + 1}</td>
+                      <td className="p-2 max-w-xs">
+                        {variables.map((variable) => (
+                          <div key={variable} className="truncate" title={row[columnFor(variable)]}>
+                            <span className={`font-mono text-xs ${theme.textMuted}`}>{variable}:</span> {row[columnFor(variable)]}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="p-2 min-w-[16rem]">
+                        {result?.success ? (
+                          <div className="whitespace-pre-wrap line-clamp-4" title={result.content}>{result.content}</div>
+                        ) : result ? (
+                          <span className={darkMode ? 'text-red-300' : 'text-red-700'}>{result.error}</span>
+                        ) : (
+                          <span className={theme.textMuted}>{isRunning ? 'Pending...' : '—'}</span>
+                        )}
+                        {result?.guardrails && (
+                          <div className="mt-1">
+                            <GuardrailBadges guardrails={result.guardrails} darkMode={darkMode} />
+                          </div>
+                        )}
+                      </td>
+                      <td className="p-2 text-right font-mono">{result?.usage?.total_tokens ?? ''}</td>
+                      <td className="p-2 text-right font-mono">
+                        {result ? `${(result.latencyMs / 1000).toFixed(2)}s` : ''}
+                        {result && result.attempts > 1 && (
+                          <div className={`text-xs ${theme.textMuted}`}>{result.attempts} attempts</div>
+                        )}
+                        {result?.fallbackFrom && (
+                          <div className={`text-xs ${theme.textMuted}`} title={`${result.fallbackFrom} was unavailable`}>
+                            via {result.model}
+                          </div>
+                        )}
+                      </td>
+                      <td className="p-2 font-mono text-xs">
+                        {result?.success === false && (
+                          <span className={darkMode ? 'text-red-300' : 'text-red-700'}>{result.type}</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default DatasetPanel;
@@ -0,0 +1,39 @@
+import type { DiffPart } from '../lib/diff';
+
+interface DiffViewProps {
+  parts: DiffPart[];
+  darkMode: boolean;
+  className?: string;
+}
+
+function DiffView({ parts, darkMode, className = '' }: DiffViewProps) {
+  return (
+    <pre className={`text-sm whitespace-pre-wrap leading-relaxed ${className}`}>
+      {parts.map((part, index) => {
+        if (part.op === 'insert') {
+          return (
+            <ins
+              key={index}
+              className={`no-underline rounded-sm ${darkMode ? 'bg-green-800/60 text-green-100' : 'bg-green-200 text-green-900'}`}
+            >
+              {part.value}
+            </ins>
+          );
+        }
+        if (part.op === 'delete') {
+          return (
+            <del
+              key={index}
+              className={`rounded-sm ${darkMode ? 'bg-red-800/60 text-red-100' : 'bg-red-200 text-red-900'}`}
+            >
+              {part.value}
+            </del>
+          );
+        }
+        return <span key={index}>{part.value}</span>;
+      })}
+    </pre>
+  );
+}
+
+export default DiffView;
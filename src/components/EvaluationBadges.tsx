@@ -0,0 +1,60 @@
+import { CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import { assertionLabels } from '../lib/evaluation';
+import type { EvaluationResponse } from '../types';
+
+interface EvaluationBadgesProps {
+  evaluation: EvaluationResponse | null;
+  isEvaluating: boolean;
+  darkMode: boolean;
+}
+
+function EvaluationBadges({ evaluation, isEvaluating, darkMode }: EvaluationBadgesProps) {
+  if (isEvaluating) {
+    return (
+      <div className={`flex items-center gap-1 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Evaluating...
+      </div>
+    );
+  }
+
+  if (!evaluation) return null;
+
+  if (!evaluation.success || !evaluation.results) {
+    return (
+      <div className={`text-xs ${darkMode ? 'text-red-300' : 'text-red-700'}`}>
+        Evaluation failed: {evaluation.error || 'unknown error'}
+      </div>
+    );
+  }
+
+  const allPassed = evaluation.passed === evaluation.total;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span
+        className={`px-2 py-0.5 text-xs font-semibold rounded-full ${allPassed ? 'bg-green-600 text-white' : 'bg-red-600 text-white'}`}
+        title="Assertions passed"
+      >
+        {evaluation.passed}/{evaluation.total} passed
+      </span>
+      {evaluation.results.map((result, index) => (
+        <span
+          key={result.id ?? index}
+          className={`flex items-center gap-1 px-2 py-0.5 text-xs rounded-full ${
+            result.passed
+              ? darkMode ? 'bg-green-900/50 text-green-300' : 'bg-green-100 text-green-800'
+              : darkMode ? 'bg-red-900/50 text-red-300' : 'bg-red-100 text-red-800'
+          }`}
+          title={result.message}
+        >
+          {result.passed ? <CheckCircle className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+          {assertionLabels[result.type]}
+          {result.score !== undefined && ` ${result.score}/10`}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default EvaluationBadges;
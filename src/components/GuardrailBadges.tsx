@@ -0,0 +1,43 @@
+import { ShieldAlert } from 'lucide-react';
+import type { GuardrailFinding } from '../types';
+
+interface GuardrailBadgesProps {
+  guardrails: GuardrailFinding[] | null | undefined;
+  darkMode: boolean;
+}
+
+const actionLabels: Record<GuardrailFinding['action'], string> = {
+  redact: 'redacted',
+  block: 'blocked',
+  flag: 'flagged'
+};
+
+// One chip per guardrail rule that fired on the prompt or the reply
+function GuardrailBadges({ guardrails, darkMode }: GuardrailBadgesProps) {
+  if (!guardrails || guardrails.length === 0) return null;
+
+  const actionClasses: Record<GuardrailFinding['action'], string> = {
+    block: darkMode ? 'bg-red-900/50 text-red-300' : 'bg-red-100 text-red-800',
+    redact: darkMode ? 'bg-amber-900/50 text-amber-300' : 'bg-amber-100 text-amber-800',
+    flag: darkMode ? 'bg-blue-900/50 text-blue-300' : 'bg-blue-100 text-blue-800'
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {guardrails.map((finding) => (
+        <span
+          key={`${finding.stage}:${finding.rule}`}
+          className={`flex items-center gap-1 px-2 py-0.5 text-xs rounded-full ${actionClasses[finding.action]}`}
+          title={finding.categories?.length ? `Categories: ${finding.categories.join(', ')}` : `Guardrail rule ${finding.rule}`}
+        >
+          <ShieldAlert className="w-3 h-3" />
+          {finding.name} {actionLabels[finding.action]}
+          {finding.count !== undefined && finding.count > 1 && ` ×${finding.count}`}
+          {` (${finding.stage === 'input' ? 'prompt' : 'reply'})`}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default GuardrailBadges;
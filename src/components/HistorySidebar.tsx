@@ -0,0 +1,285 @@
+import { useEffect, useMemo, useState } from 'react';
+import { History, Search, X, Upload, Play, Trash2, GitCompare, AlertCircle, Clock } from 'lucide-react';
+import AttachmentList from './AttachmentList';
+import DiffView from './DiffView';
+import { apiFetch } from '../lib/api';
+import { formatCost } from '../lib/cost';
+import { diffWords, similarity } from '../lib/diff';
+import type { ThemeClasses } from '../theme';
+import type { HistoryResponse, HistoryRun } from '../types';
+
+interface HistorySidebarProps {
+  open: boolean;
+  onClose: () => void;
+  darkMode: boolean;
+  theme: ThemeClasses;
+  // Bumped by the parent after every run so the list refetches
+  refreshKey: number;
+  isRunning: boolean;
+  onLoad: (run: HistoryRun) => void;
+  onRerun: (run: HistoryRun) => void;
+}
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+function HistorySidebar({ open, onClose, darkMode, theme, refreshKey, isRunning, onLoad, onRerun }: HistorySidebarProps) {
+  const [runs, setRuns] = useState<HistoryRun[]>([]);
+  const [total, setTotal] = useState(0);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showDiff, setShowDiff] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const controller = new AbortController();
+    // Debounce typing in the search box
+    const timeoutId = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams({ q: query });
+        const response = await apiFetch(`/api/history?${params}`, { signal: controller.signal });
+        const data: HistoryResponse = await response.json();
+        if (data.success && data.runs) {
+          setRuns(data.runs);
+          setTotal(data.total ?? data.runs.length);
+          setError(null);
+        } else {
+          setError(data.error || 'Failed to load history');
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load history:', err);
+        setError('Failed to connect to the server. Make sure the backend is running.');
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    }, 250);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [open, query, refreshKey]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      if (prev.includes(id)) return prev.filter((selected) => selected !== id);
+      // Keep at most two runs selected, dropping the oldest selection
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const deleteRun = async (id: string) => {
+    try {
+      const response = await apiFetch(`/api/history/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      const data: HistoryResponse = await response.json();
+      if (!data.success) {
+        setError(data.error || 'Failed to delete run');
+        return;
+      }
+      setRuns((prev) => prev.filter((run) => run.id !== id));
+      setTotal((prev) => Math.max(0, prev - 1));
+      setSelectedIds((prev) => prev.filter((selected) => selected !== id));
+    } catch (err) {
+      console.error('Failed to delete run:', err);
+      setError('Failed to connect to the server. Make sure the backend is running.');
+    }
+  };
+
+  const selectedRuns = selectedIds
+    .map((id) => runs.find((run) => run.id === id))
+    .filter((run): run is HistoryRun => !!run);
+
+  // Older run on the left so the diff reads as "what changed"
+  const [diffBase, diffTarget] = [...selectedRuns].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  const diffParts = useMemo(
+    () => (showDiff && diffBase && diffTarget ? diffWords(diffBase.output, diffTarget.output) : []),
+    [showDiff, diffBase, diffTarget]
+  );
+
+  if (!open) return null;
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-black/30" onClick={onClose} />
+      <aside
+        className={`fixed right-0 top-0 z-40 h-full w-full sm:w-[28rem] flex flex-col shadow-2xl ${darkMode ? 'bg-gray-900 border-gray-700' : 'bg-white border-gray-200'} border-l`}
+      >
+        <div className={`flex items-center justify-between p-4 border-b ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          <div className="flex items-center gap-2">
+            <History className="w-5 h-5 text-indigo-600" />
+            <h2 className={`text-lg font-semibold ${theme.text}`}>Run History</h2>
+            <span className={`text-xs ${theme.textMuted}`}>({total})</span>
+          </div>
+          <button onClick={onClose} className={`${theme.textMuted} hover:text-red-600`} title="Close history">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="relative">
+            <Search className={`w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 ${theme.textMuted}`} />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className={`w-full pl-9 pr-3 py-2 ${theme.input} rounded-lg transition-colors`}
+              placeholder="Search prompts, outputs, models..."
+            />
+          </div>
+          <button
+            onClick={() => setShowDiff(true)}
+            disabled={selectedRuns.length !== 2}
+            className={`w-full flex items-center justify-center gap-2 px-3 py-2 text-sm rounded-lg ${theme.secondaryButton} disabled:opacity-50 disabled:cursor-not-allowed`}
+            title="Select two runs to diff their outputs"
+          >
+            <GitCompare className="w-4 h-4" />
+            Diff selected outputs ({selectedRuns.length}/2)
+          </button>
+          {error && (
+            <div className={`flex items-start gap-2 text-sm ${darkMode ? 'text-red-300' : 'text-red-700'}`}>
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-3">
+          {!isLoading && runs.length === 0 && !error && (
+            <p className={`text-sm text-center mt-8 ${theme.textMuted}`}>
+              {query ? 'No runs match your search.' : 'Runs will appear here once you press Run Prompt.'}
+            </p>
+          )}
+          {runs.map((run) => {
+            const selected = selectedIds.includes(run.id);
+            return (
+              <div
+                key={run.id}
+                className={`p-3 rounded-xl border transition-colors ${selected ? 'border-indigo-400 ring-1 ring-indigo-400' : darkMode ? 'border-gray-700' : 'border-gray-200'} ${theme.outputBg}`}
+              >
+                <div className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selected}
+                    onChange={() => toggleSelected(run.id)}
+                    className="mt-1 w-4 h-4 accent-indigo-600"
+                    title="Select for diff"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className={`flex items-center justify-between gap-2 text-xs ${theme.textMuted}`}>
+                      <span>{formatTimestamp(run.timestamp)}</span>
+                      <span className="font-mono">{run.responseModel || run.model}</span>
+                    </div>
+                    {run.label && (
+                      <div className="text-xs font-medium text-teal-600 mt-0.5">Compare · {run.label}</div>
+                    )}
+                    <p className={`text-sm font-medium ${theme.text} truncate mt-1`} title={run.userPrompt}>
+                      {run.userPrompt}
+                    </p>
+                    {run.attachments && run.attachments.length > 0 && (
+                      <div className="mt-1">
+                        <AttachmentList attachments={run.attachments} darkMode={darkMode} theme={theme} compact />
+                      </div>
+                    )}
+                    {run.error ? (
+                      <p className={`text-xs mt-1 ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{run.error}</p>
+                    ) : (
+                      <p className={`text-xs mt-1 ${theme.textSecondary} line-clamp-2`}>{run.output}</p>
+                    )}
+                    <div className={`flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs font-mono ${theme.textMuted}`}>
+                      <span>T {run.temperature}</span>
+                      <span>max {run.maxTokens}</span>
+                      {run.usage && <span>{run.usage.total_tokens} tok</span>}
+                      {run.cost != null && <span>{formatCost(run.cost)}</span>}
+                      {run.cached && <span title="Replayed from the response cache">cached</span>}
+                      {run.fallbackFrom && (
+                        <span title={`${run.fallbackFrom} was unavailable`}>via {run.responseModel}</span>
+                      )}
+                      {run.attempts !== undefined && run.attempts > 1 && <span>{run.attempts} attempts</span>}
+                      {run.guardrails && run.guardrails.length > 0 && (
+                        <span title={run.guardrails.map(({ name, action }) => `${name} ${action}`).join(', ')}>
+                          {run.guardrails.length} guardrail{run.guardrails.length === 1 ? '' : 's'}
+                        </span>
+                      )}
+                      <span className="flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {(run.latencyMs / 1000).toFixed(2)}s
+                      </span>
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                      <button
+                        onClick={() => onLoad(run)}
+                        className={`flex items-center gap-1 px-2 py-1 text-xs rounded-md ${theme.secondaryButton}`}
+                        title="Load this run's settings and output"
+                      >
+                        <Upload className="w-3 h-3" />
+                        Load
+                      </button>
+                      <button
+                        onClick={() => onRerun(run)}
+                        disabled={isRunning}
+                        className={`flex items-center gap-1 px-2 py-1 text-xs rounded-md ${theme.secondaryButton} disabled:opacity-50 disabled:cursor-not-allowed`}
+                        title="Load this run's settings and run it again"
+                      >
+                        <Play className="w-3 h-3" />
+                        Re-run
+                      </button>
+                      <button
+                        onClick={() => deleteRun(run.id)}
+                        className={`ml-auto flex items-center gap-1 px-2 py-1 text-xs rounded-md ${theme.textMuted} hover:text-red-600`}
+                        title="Delete this run"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </aside>
+
+      {showDiff && diffBase && diffTarget && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={() => setShowDiff(false)}>
+          <div
+            className={`w-full max-w-4xl max-h-[85vh] flex flex-col rounded-2xl shadow-2xl ${darkMode ? 'bg-gray-900' : 'bg-white'}`}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className={`flex items-center justify-between p-4 border-b ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+              <div>
+                <h3 className={`font-semibold ${theme.text}`}>Output diff</h3>
+                <p className={`text-xs ${theme.textMuted}`}>
+                  <span className={darkMode ? 'text-red-300' : 'text-red-700'}>
+                    {formatTimestamp(diffBase.timestamp)} · {diffBase.responseModel || diffBase.model} · T {diffBase.temperature}
+                  </span>
+                  {' → '}
+                  <span className={darkMode ? 'text-green-300' : 'text-green-700'}>
+                    {formatTimestamp(diffTarget.timestamp)} · {diffTarget.responseModel || diffTarget.model} · T {diffTarget.temperature}
+                  </span>
+                  {' · '}
+                  {Math.round(similarity(diffParts) * 100)}% similar
+                </p>
+              </div>
+              <button onClick={() => setShowDiff(false)} className={`${theme.textMuted} hover:text-red-600`} title="Close diff">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className={`flex-1 overflow-y-auto p-4 ${theme.outputText}`}>
+              <DiffView parts={diffParts} darkMode={darkMode} />
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default HistorySidebar;
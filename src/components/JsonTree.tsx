@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+interface JsonTreeProps {
+  value: unknown;
+  darkMode: boolean;
+  // Property name or array index shown before the value
+  label?: string;
+  depth?: number;
+}
+
+// Nodes deeper than this start collapsed
+const AUTO_EXPAND_DEPTH = 3;
+
+function JsonTree({ value, darkMode, label, depth = 0 }: JsonTreeProps) {
+  const [expanded, setExpanded] = useState(depth < AUTO_EXPAND_DEPTH);
+
+  const keyLabel = label !== undefined && (
+    <span className={darkMode ? 'text-sky-300' : 'text-sky-800'}>{label}: </span>
+  );
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Array.isArray(value)
+      ? value.map((item, index) => [String(index), item] as const)
+      : Object.entries(value);
+    const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+
+    if (entries.length === 0) {
+      return <div>{keyLabel}{open}{close}</div>;
+    }
+
+    return (
+      <div>
+        <button onClick={() => setExpanded(!expanded)} className="inline-flex items-center hover:opacity-75">
+          {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          {keyLabel}
+          {open}
+          {!expanded && <span className="opacity-60"> {entries.length} {entries.length === 1 ? 'item' : 'items'} {close}</span>}
+        </button>
+        {expanded && (
+          <>
+            <div className={`ml-2 pl-3 border-l ${darkMode ? 'border-gray-600' : 'border-gray-300'}`}>
+              {entries.map(([key, item]) => (
+                <JsonTree key={key} value={item} label={key} darkMode={darkMode} depth={depth + 1} />
+              ))}
+            </div>
+            <div>{close}</div>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const valueClass =
+    typeof value === 'string'
+      ? darkMode ? 'text-emerald-300' : 'text-emerald-700'
+      : typeof value === 'number'
+        ? darkMode ? 'text-amber-300' : 'text-amber-700'
+        : darkMode ? 'text-fuchsia-300' : 'text-fuchsia-700';
+
+  return (
+    <div className="pl-3">
+      {keyLabel}
+      <span className={`${valueClass} whitespace-pre-wrap`}>{JSON.stringify(value)}</span>
+    </div>
+  );
+}
+
+export default JsonTree;
@@ -0,0 +1,56 @@
+import type { ThemeClasses } from '../theme';
+import type { TokenLogprob } from '../types';
+
+interface LogprobHeatmapProps {
+  logprobs: TokenLogprob[];
+  darkMode: boolean;
+  theme: ThemeClasses;
+}
+
+const formatPercent = (logprob: number) => `${(Math.exp(logprob) * 100).toFixed(1)}%`;
+
+// Confident tokens stay unshaded so uncertain spans stand out
+const probabilityBands = [
+  { min: 0.9, label: '≥ 90%', light: '', dark: '' },
+  { min: 0.5, label: '50–90%', light: 'bg-yellow-100', dark: 'bg-yellow-700/40' },
+  { min: 0.2, label: '20–50%', light: 'bg-orange-200', dark: 'bg-orange-700/50' },
+  { min: 0, label: '< 20%', light: 'bg-red-300', dark: 'bg-red-700/60' },
+];
+
+const bandFor = (logprob: number) =>
+  probabilityBands.find((band) => Math.exp(logprob) >= band.min) ?? probabilityBands[probabilityBands.length - 1];
+
+function LogprobHeatmap({ logprobs, darkMode, theme }: LogprobHeatmapProps) {
+  return (
+    <div className="space-y-3">
+      <div className={`flex flex-wrap items-center gap-3 text-xs ${theme.textMuted}`}>
+        <span>Token probability:</span>
+        {probabilityBands.map((band) => (
+          <span key={band.label} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded border ${darkMode ? 'border-gray-600' : 'border-gray-300'} ${darkMode ? band.dark : band.light}`} />
+            {band.label}
+          </span>
+        ))}
+      </div>
+      <pre className={`text-sm ${theme.outputText} whitespace-pre-wrap leading-relaxed`}>
+        {logprobs.map((entry, index) => {
+          const band = bandFor(entry.logprob);
+          // The tooltip lists the chosen token's probability, then the alternatives the model weighed
+          const tooltip = [
+            `${JSON.stringify(entry.token)} ${formatPercent(entry.logprob)}`,
+            ...entry.topLogprobs
+              .filter((alternative) => alternative.token !== entry.token)
+              .map((alternative) => `  ${JSON.stringify(alternative.token)} ${formatPercent(alternative.logprob)}`),
+          ].join('\n');
+          return (
+            <span key={index} title={tooltip} className={`rounded-sm ${darkMode ? band.dark : band.light}`}>
+              {entry.token}
+            </span>
+          );
+        })}
+      </pre>
+    </div>
+  );
+}
+
+export default LogprobHeatmap;
@@ -0,0 +1,193 @@
+import { Activity, AlertCircle } from 'lucide-react';
+import { useMetrics } from '../hooks/useMetrics';
+import type { ThemeClasses } from '../theme';
+import type { MetricsPoint } from '../types';
+
+interface MetricsPanelProps {
+  darkMode: boolean;
+  theme: ThemeClasses;
+}
+
+interface BarChartProps {
+  title: string;
+  points: MetricsPoint[];
+  // Drawn as the bar; `inner`, if given, is drawn inside it in a stronger colour
+  value: (point: MetricsPoint) => number | null;
+  inner?: (point: MetricsPoint) => number | null;
+  format: (value: number) => string;
+  barClass: string;
+  innerClass?: string;
+  legend?: string;
+  theme: ThemeClasses;
+}
+
+const formatTime = (time: string) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+const formatLatency = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms}ms`);
+
+// One bar per minute, scaled to the busiest minute in view
+function BarChart({ title, points, value, inner, format, barClass, innerClass, legend, theme }: BarChartProps) {
+  const max = Math.max(0, ...points.map((point) => value(point) ?? 0));
+
+  return (
+    <div className={`${theme.outputBg} rounded-xl p-3`}>
+      <div className="flex items-baseline justify-between mb-2">
+        <span className={`text-sm font-medium ${theme.textSecondary}`}>{title}</span>
+        <span className={`text-xs font-mono ${theme.textMuted}`}>{max > 0 ? `max ${format(max)}` : 'no data'}</span>
+      </div>
+      <div className="flex items-end gap-px h-24">
+        {points.map((point) => {
+          const outer = value(point) ?? 0;
+          const innerValue = inner?.(point) ?? 0;
+          return (
+            <div
+              key={point.time}
+              className="flex-1 h-full flex items-end"
+              title={`${formatTime(point.time)}: ${value(point) === null ? '–' : format(outer)}${inner && inner(point) !== null ? ` (${format(innerValue)})` : ''}`}
+            >
+              <div className={`w-full rounded-t-sm flex items-end ${barClass}`} style={{ height: max > 0 ? `${(outer / max) * 100}%` : 0 }}>
+                {inner && outer > 0 && (
+                  <div className={`w-full rounded-t-sm ${innerClass}`} style={{ height: `${(innerValue / outer) * 100}%` }} />
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className={`flex justify-between mt-1 text-xs ${theme.textMuted}`}>
+        <span>{points.length > 0 ? formatTime(points[0].time) : ''}</span>
+        {legend && <span>{legend}</span>}
+        <span>now</span>
+      </div>
+    </div>
+  );
+}
+
+function MetricsPanel({ darkMode, theme }: MetricsPanelProps) {
+  const { metrics, error } = useMetrics();
+
+  const series = metrics?.series ?? [];
+  const models = metrics?.models ?? [];
+  const errorTypes = Object.entries(metrics?.errorTypes ?? {}).sort(([, a], [, b]) => b - a);
+  const totalCompletions = models.reduce((total, model) => total + model.completions, 0);
+  const totalErrors = models.reduce((total, model) => total + model.errors, 0);
+
+  return (
+    <div className={`${theme.card} rounded-2xl p-6 shadow-lg border mt-8`}>
+      <div className="flex items-center gap-2 mb-4">
+        <Activity className="w-5 h-5 text-emerald-600" />
+        <h2 className={`text-xl font-semibold ${theme.text}`}>Server Metrics</h2>
+      </div>
+
+      <p className={`text-sm ${theme.textMuted} mb-4`}>
+        Completions, errors and latency across every user of this server for the last hour, refreshed every 15 seconds.
+        {metrics?.startedAt && ` Counting since the server started at ${new Date(metrics.startedAt).toLocaleString()}.`}
+      </p>
+
+      {error && (
+        <div className={`mb-4 p-4 ${darkMode ? 'bg-red-900/50 border-red-700' : 'bg-red-50 border-red-200'} border rounded-lg`}>
+          <div className="flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
+            <div className={`${darkMode ? 'text-red-300' : 'text-red-700'} text-sm`}>{error}</div>
+          </div>
+        </div>
+      )}
+
+      {metrics && (
+        <>
+          <div className={`flex flex-wrap gap-x-6 gap-y-1 mb-4 text-sm font-mono ${theme.textSecondary}`}>
+            <span>{(metrics.httpRequests ?? 0).toLocaleString()} HTTP requests</span>
+            <span>{totalCompletions.toLocaleString()} completions</span>
+            <span>
+              {totalErrors.toLocaleString()} errors
+              {totalCompletions > 0 && ` (${((totalErrors / totalCompletions) * 100).toFixed(1)}%)`}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <BarChart
+              title="Completions per minute"
+              points={series}
+              value={(point) => point.completions}
+              inner={(point) => point.errors}
+              format={(value) => value.toLocaleString()}
+              barClass="bg-emerald-400/60"
+              innerClass="bg-red-500"
+              legend="red: errors"
+              theme={theme}
+            />
+            <BarChart
+              title="Latency per minute"
+              points={series}
+              value={(point) => point.p95LatencyMs}
+              inner={(point) => point.p50LatencyMs}
+              format={formatLatency}
+              barClass="bg-sky-400/50"
+              innerClass="bg-sky-600"
+              legend="p50 inside p95"
+              theme={theme}
+            />
+            <BarChart
+              title="Tokens per minute"
+              points={series}
+              value={(point) => point.tokens}
+              format={(value) => value.toLocaleString()}
+              barClass="bg-violet-500"
+              theme={theme}
+            />
+            <div className={`${theme.outputBg} rounded-xl p-3`}>
+              <div className={`text-sm font-medium mb-2 ${theme.textSecondary}`}>Errors by type</div>
+              {errorTypes.length > 0 ? (
+                <div className="space-y-1 text-sm font-mono">
+                  {errorTypes.map(([type, count]) => (
+                    <div key={type} className="flex justify-between">
+                      <span className={theme.outputText}>{type}</span>
+                      <span className="text-red-600">{count.toLocaleString()}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className={`text-sm ${theme.textMuted}`}>No failed completions.</div>
+              )}
+            </div>
+          </div>
+
+          {models.length > 0 ? (
+            <div className={`${theme.outputBg} rounded-xl overflow-x-auto`}>
+              <table className={`w-full text-sm ${theme.outputText}`}>
+                <thead className={`text-left text-xs uppercase tracking-wide ${theme.textMuted}`}>
+                  <tr>
+                    <th className="p-2">Model</th>
+                    <th className="p-2 text-right">Completions</th>
+                    <th className="p-2 text-right">Errors</th>
+                    <th className="p-2 text-right">Prompt tokens</th>
+                    <th className="p-2 text-right">Completion tokens</th>
+                    <th className="p-2 text-right">Avg latency</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {models.map((model) => (
+                    <tr key={`${model.provider}:${model.model}`} className={`border-t ${darkMode ? 'border-gray-600' : 'border-gray-200'}`}>
+                      <td className="p-2">
+                        <span className="font-mono">{model.model}</span>
+                        <span className={`ml-2 text-xs ${theme.textMuted}`}>{model.provider}</span>
+                      </td>
+                      <td className="p-2 text-right font-mono">{model.completions.toLocaleString()}</td>
+                      <td className={`p-2 text-right font-mono ${model.errors > 0 ? 'text-red-600' : ''}`}>{model.errors.toLocaleString()}</td>
+                      <td className="p-2 text-right font-mono">{model.promptTokens.toLocaleString()}</td>
+                      <td className="p-2 text-right font-mono">{model.completionTokens.toLocaleString()}</td>
+                      <td className="p-2 text-right font-mono">{model.averageLatencyMs === null ? '–' : formatLatency(model.averageLatencyMs)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className={`text-sm ${theme.textMuted}`}>No completions since the server started.</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default MetricsPanel;
@@ -0,0 +1,268 @@
+import { useEffect, useState } from 'react';
+import { BookMarked, GitCompare, RotateCcw, Save, Star, Trash2, Upload } from 'lucide-react';
+import DiffView from './DiffView';
+import { usePromptLibrary } from '../hooks/usePromptLibrary';
+import { diffLines, diffWords } from '../lib/diff';
+import type { DiffPart } from '../lib/diff';
+import type { ThemeClasses } from '../theme';
+import type { LibraryPrompt, PromptVersion, RunSettings } from '../types';
+
+interface PromptLibraryPanelProps {
+  darkMode: boolean;
+  theme: ThemeClasses;
+  // What "Save version" stores: the current prompts, unrendered, and parameters
+  settings: RunSettings;
+  onLoad: (settings: RunSettings) => void;
+  // Bumped by the parent when the signed-in user changes
+  refreshKey: number;
+}
+
+// Side-by-side columns: the old text with deletions, the new text with insertions
+const splitDiff = (parts: DiffPart[]) => ({
+  before: parts.filter((part) => part.op !== 'insert'),
+  after: parts.filter((part) => part.op !== 'delete'),
+});
+
+// Everything except the prompts, one setting per line so the diff lines up
+const formatSettings = (settings: RunSettings) =>
+  JSON.stringify(
+    Object.fromEntries(Object.entries(settings).filter(([key]) => key !== 'systemPrompt' && key !== 'userPrompt')),
+    null,
+    2
+  );
+
+const formatDate = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+function PromptLibraryPanel({ darkMode, theme, settings, onLoad, refreshKey }: PromptLibraryPanelProps) {
+  const { prompts, error, loadPrompt, savePrompt, rollbackPrompt, setProductionVersion, deletePrompt } = usePromptLibrary(refreshKey);
+  const [name, setName] = useState('');
+  const [note, setNote] = useState('');
+  const [selected, setSelected] = useState<LibraryPrompt | null>(null);
+  const [diffVersions, setDiffVersions] = useState<number[]>([]);
+
+  // Drop the selection if the prompt is gone once the list is refetched
+  useEffect(() => {
+    if (selected && !prompts.some((prompt) => prompt.id === selected.id)) {
+      setSelected(null);
+    }
+  }, [prompts, selected]);
+
+  const select = async (id: string) => {
+    const prompt = await loadPrompt(id);
+    if (prompt) {
+      setSelected(prompt);
+      setName(prompt.name);
+      setDiffVersions([]);
+    }
+  };
+
+  const save = async () => {
+    const prompt = await savePrompt(name.trim(), note.trim(), settings);
+    if (prompt) {
+      setSelected(prompt);
+      setNote('');
+    }
+  };
+
+  const rollback = async (version: number) => {
+    if (!selected) return;
+    const prompt = await rollbackPrompt(selected.id, version);
+    if (prompt) setSelected(prompt);
+  };
+
+  const toggleProduction = async (version: number) => {
+    if (!selected) return;
+    const prompt = await setProductionVersion(selected.id, selected.productionVersion === version ? null : version);
+    if (prompt) setSelected(prompt);
+  };
+
+  const remove = async (id: string) => {
+    await deletePrompt(id);
+    if (selected?.id === id) setSelected(null);
+  };
+
+  const toggleDiffVersion = (version: number) => {
+    setDiffVersions((prev) => {
+      if (prev.includes(version)) return prev.filter((selectedVersion) => selectedVersion !== version);
+      // Keep at most two versions selected, dropping the oldest selection
+      return [...prev, version].slice(-2);
+    });
+  };
+
+  const [older, newer] = [...diffVersions]
+    .sort((a, b) => a - b)
+    .map((version) => selected?.versions.find((candidate) => candidate.version === version))
+    .filter((version): version is PromptVersion => !!version);
+
+  const diffSections = older && newer
+    ? [
+        { label: 'System prompt', ...splitDiff(diffWords(older.settings.systemPrompt, newer.settings.systemPrompt)) },
+        { label: 'User prompt', ...splitDiff(diffWords(older.settings.userPrompt, newer.settings.userPrompt)) },
+        { label: 'Parameters', ...splitDiff(diffLines(formatSettings(older.settings), formatSettings(newer.settings))) },
+      ]
+    : [];
+
+  return (
+    <div className={`${theme.card} rounded-2xl p-6 shadow-lg border mt-8`}>
+      <div className="flex items-center gap-2 mb-4">
+        <BookMarked className="w-5 h-5 text-fuchsia-600" />
+        <h2 className={`text-xl font-semibold ${theme.text}`}>Prompt Library</h2>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Prompt name"
+          className={`w-48 px-3 py-2 text-sm rounded-lg border ${theme.input}`}
+        />
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && name.trim()) save();
+          }}
+          placeholder="What changed in this version?"
+          className={`flex-1 min-w-[200px] px-3 py-2 text-sm rounded-lg border ${theme.input}`}
+        />
+        <button
+          onClick={save}
+          disabled={!name.trim()}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg transition-colors bg-fuchsia-600 hover:bg-fuchsia-700 text-white disabled:opacity-50"
+          title="Save the current prompts and parameters as a new version under this name"
+        >
+          <Save className="w-4 h-4" />
+          Save version
+        </button>
+      </div>
+
+      {error && <p className={`text-sm mb-4 ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{error}</p>}
+
+      <div className="grid md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          {prompts.length === 0 && (
+            <p className={`text-sm ${theme.textMuted}`}>No saved prompts yet. Name the current prompt and save a version.</p>
+          )}
+          {prompts.map((prompt) => (
+            <div
+              key={prompt.id}
+              className={`flex items-center gap-2 p-3 border rounded-lg ${selected?.id === prompt.id ? 'border-fuchsia-500' : theme.configCard}`}
+            >
+              <button onClick={() => select(prompt.id)} className="flex-1 min-w-0 text-left">
+                <div className={`text-sm font-medium ${theme.text} truncate`}>{prompt.name}</div>
+                <div className={`text-xs ${theme.textMuted}`}>
+                  v{prompt.latestVersion}
+                  {prompt.productionVersion !== null && ` · production v${prompt.productionVersion}`}
+                </div>
+              </button>
+              <button
+                onClick={() => remove(prompt.id)}
+                className={`p-1 rounded transition-colors ${theme.textMuted} hover:text-red-600`}
+                title="Delete this prompt and all its versions"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="md:col-span-2">
+          {selected ? (
+            <div className="space-y-2">
+              <p className={`text-xs ${theme.textMuted}`}>
+                {selected.productionVersion !== null
+                  ? <>Applications can fetch the production version from <code>GET /api/prompts/by-name/{encodeURIComponent(selected.name)}</code>.</>
+                  : 'Tag a version as production to serve it by name.'}
+                {' '}Tick two versions to compare them.
+              </p>
+              {[...selected.versions].reverse().map((version) => {
+                const isLatest = version.version === selected.versions[selected.versions.length - 1].version;
+                const isProduction = version.version === selected.productionVersion;
+                return (
+                  <div key={version.version} className={`flex items-start gap-3 p-3 border rounded-lg ${theme.configCard}`}>
+                    <input
+                      type="checkbox"
+                      checked={diffVersions.includes(version.version)}
+                      onChange={() => toggleDiffVersion(version.version)}
+                      className="w-4 h-4 mt-0.5 accent-fuchsia-600"
+                      title="Select for comparison"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className={`flex items-center gap-2 text-sm ${theme.text}`}>
+                        <span className="font-mono font-semibold">v{version.version}</span>
+                        {isProduction && (
+                          <span className={`px-2 py-0.5 text-xs rounded-full ${darkMode ? 'bg-fuchsia-900/50 text-fuchsia-300' : 'bg-fuchsia-100 text-fuchsia-800'}`}>
+                            production
+                          </span>
+                        )}
+                        <span className="truncate">{version.note || <span className={theme.textMuted}>No note</span>}</span>
+                      </div>
+                      <div className={`text-xs ${theme.textMuted}`}>
+                        {version.author} · {formatDate(version.createdAt)} · {version.settings.model}
+                      </div>
+                    </div>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => onLoad(version.settings)}
+                        className={`p-1.5 rounded transition-colors ${theme.secondaryButton}`}
+                        title="Load this version into the playground"
+                      >
+                        <Upload className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => toggleProduction(version.version)}
+                        className={`p-1.5 rounded transition-colors ${isProduction ? 'bg-fuchsia-600 hover:bg-fuchsia-700 text-white' : theme.secondaryButton}`}
+                        title={isProduction ? 'Remove the production tag' : 'Tag this version as production'}
+                      >
+                        <Star className="w-4 h-4" />
+                      </button>
+                      {!isLatest && (
+                        <button
+                          onClick={() => rollback(version.version)}
+                          className={`p-1.5 rounded transition-colors ${theme.secondaryButton}`}
+                          title="Save this version again as the newest one"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className={`text-sm ${theme.textMuted}`}>Select a prompt to see its versions.</p>
+          )}
+        </div>
+      </div>
+
+      {older && newer && (
+        <div className="mt-6">
+          <div className={`flex items-center gap-2 mb-3 text-sm font-medium ${theme.text}`}>
+            <GitCompare className="w-4 h-4" />
+            v{older.version} → v{newer.version}
+          </div>
+          <div className="space-y-4">
+            {diffSections.map((section) => (
+              <div key={section.label}>
+                <h3 className={`text-sm font-medium ${theme.textSecondary} mb-2`}>{section.label}</h3>
+                <div className="grid md:grid-cols-2 gap-3">
+                  <div className={`${theme.outputBg} ${theme.outputText} rounded-lg p-3 max-h-[300px] overflow-y-auto`}>
+                    <DiffView parts={section.before} darkMode={darkMode} />
+                  </div>
+                  <div className={`${theme.outputBg} ${theme.outputText} rounded-lg p-3 max-h-[300px] overflow-y-auto`}>
+                    <DiffView parts={section.after} darkMode={darkMode} />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PromptLibraryPanel;
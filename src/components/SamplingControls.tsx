@@ -0,0 +1,188 @@
+import { Plus, X } from 'lucide-react';
+import type { SamplingForm } from '../lib/sampling';
+import type { ThemeClasses } from '../theme';
+
+interface SamplingControlsProps {
+  form: SamplingForm;
+  onChange: (form: SamplingForm) => void;
+  // Parse error for the seed or logit bias, shown under the fields
+  error: string | null;
+  darkMode: boolean;
+  theme: ThemeClasses;
+}
+
+const MAX_CHOICES = 8;
+const MAX_TOP_LOGPROBS = 20;
+
+// Rendered inside the Parameters card, below the core sliders
+function SamplingControls({ form, onChange, error, darkMode, theme }: SamplingControlsProps) {
+  const update = (changes: Partial<SamplingForm>) => onChange({ ...form, ...changes });
+
+  const updateBias = (index: number, changes: Partial<SamplingForm['logitBias'][number]>) =>
+    update({ logitBias: form.logitBias.map((row, i) => (i === index ? { ...row, ...changes } : row)) });
+
+  return (
+    <>
+      {/* Top P */}
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <label htmlFor="top-p" className={`text-sm font-medium ${theme.textSecondary}`}>
+            Top P
+          </label>
+          <span className="text-sm font-mono bg-cyan-50 dark:bg-cyan-900/50 px-2 py-1 rounded text-cyan-700 dark:text-cyan-300">
+            {form.topP.toFixed(2)}
+          </span>
+        </div>
+        <input
+          type="range"
+          id="top-p"
+          min="0"
+          max="1"
+          step="0.05"
+          value={form.topP}
+          onChange={(e) => update({ topP: parseFloat(e.target.value) })}
+          className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+        />
+        <div className={`flex justify-between text-xs ${theme.textMuted} mt-1`}>
+          <span>0.00 (Top token only)</span>
+          <span>1.00 (Full distribution)</span>
+        </div>
+      </div>
+
+      {/* Seed and Choices */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="seed" className={`block text-sm font-medium ${theme.textSecondary} mb-2`}>
+            Seed
+          </label>
+          <input
+            type="text"
+            id="seed"
+            inputMode="numeric"
+            value={form.seed}
+            onChange={(e) => update({ seed: e.target.value })}
+            className={`w-full px-3 py-2 ${theme.input} rounded-lg transition-colors`}
+            placeholder="Random"
+          />
+        </div>
+        <div>
+          <label htmlFor="choices" className={`block text-sm font-medium ${theme.textSecondary} mb-2`}>
+            Choices (n)
+          </label>
+          <input
+            type="number"
+            id="choices"
+            min="1"
+            max={MAX_CHOICES}
+            value={form.n}
+            onChange={(e) => update({ n: Math.min(MAX_CHOICES, Math.max(1, parseInt(e.target.value) || 1)) })}
+            className={`w-full px-3 py-2 ${theme.input} rounded-lg transition-colors`}
+          />
+        </div>
+      </div>
+      {form.n > 1 && (
+        <p className={`-mt-4 text-xs ${theme.textMuted}`}>
+          Responses with several choices are not streamed.
+        </p>
+      )}
+
+      {/* Logit Bias */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className={`text-sm font-medium ${theme.textSecondary}`}>Logit Bias (token IDs)</span>
+          <button
+            onClick={() => update({ logitBias: [...form.logitBias, { token: '', bias: 0 }] })}
+            className={`flex items-center gap-1 px-2 py-1 text-xs rounded-lg transition-colors ${theme.secondaryButton}`}
+            title="Bias a token ID up or down"
+          >
+            <Plus className="w-3 h-3" />
+            Add token
+          </button>
+        </div>
+        {form.logitBias.length === 0 ? (
+          <p className={`text-xs ${theme.textMuted}`}>
+            No biased tokens. -100 bans a token, 100 forces it.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {form.logitBias.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={row.token}
+                  onChange={(e) => updateBias(index, { token: e.target.value })}
+                  className={`w-28 px-2 py-1 text-sm font-mono ${theme.input} rounded-lg transition-colors`}
+                  placeholder="Token ID"
+                  aria-label="Token ID"
+                />
+                <input
+                  type="range"
+                  min="-100"
+                  max="100"
+                  step="1"
+                  value={row.bias}
+                  onChange={(e) => updateBias(index, { bias: parseInt(e.target.value) })}
+                  className="flex-1 h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                  aria-label="Bias"
+                />
+                <span className={`w-10 text-right text-xs font-mono ${theme.textSecondary}`}>{row.bias}</span>
+                <button
+                  onClick={() => update({ logitBias: form.logitBias.filter((_, i) => i !== index) })}
+                  className={`p-1 rounded transition-colors ${theme.secondaryButton}`}
+                  title="Remove this token"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <p className={`mt-2 text-xs ${theme.textMuted}`}>
+          Keys are numeric token IDs from the model's tokenizer. Look words up in the{' '}
+          <a href="https://platform.openai.com/tokenizer" target="_blank" rel="noopener noreferrer" className="underline">
+            OpenAI tokenizer
+          </a>{' '}
+          with its token IDs view; local models have their own vocabularies.
+        </p>
+      </div>
+
+      {/* Logprobs */}
+      <div>
+        <label htmlFor="logprobs" className="flex items-center justify-between cursor-pointer">
+          <span className={`text-sm font-medium ${theme.textSecondary}`}>
+            Logprobs
+            <span className={`block text-xs font-normal ${theme.textMuted}`}>Color the output by token probability</span>
+          </span>
+          <input
+            type="checkbox"
+            id="logprobs"
+            checked={form.logprobs}
+            onChange={(e) => update({ logprobs: e.target.checked })}
+            className="w-4 h-4 accent-blue-600"
+          />
+        </label>
+        {form.logprobs && (
+          <div className="mt-2 flex items-center justify-between">
+            <label htmlFor="top-logprobs" className={`text-xs ${theme.textMuted}`}>
+              Top alternatives per token
+            </label>
+            <input
+              type="number"
+              id="top-logprobs"
+              min="0"
+              max={MAX_TOP_LOGPROBS}
+              value={form.topLogprobs}
+              onChange={(e) => update({ topLogprobs: Math.min(MAX_TOP_LOGPROBS, Math.max(0, parseInt(e.target.value) || 0)) })}
+              className={`w-20 px-2 py-1 text-sm ${theme.input} rounded-lg transition-colors`}
+            />
+          </div>
+        )}
+      </div>
+
+      {error && <p className={`text-sm ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{error}</p>}
+    </>
+  );
+}
+
+export default SamplingControls;
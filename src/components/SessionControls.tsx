@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Check, Download, Link, Share2, Upload } from 'lucide-react';
+import { downloadFile } from '../lib/dataset';
+import { encodeSessionFragment, validateSession } from '../lib/session';
+import type { PlaygroundSession } from '../lib/session';
+import type { ThemeClasses } from '../theme';
+
+interface SessionControlsProps {
+  // The current playground, output included when there is one
+  session: PlaygroundSession;
+  onImport: (session: PlaygroundSession) => void;
+  // Set when a shared link could not be loaded on startup
+  restoreError: string | null;
+  darkMode: boolean;
+  theme: ThemeClasses;
+}
+
+function SessionControls({ session, onImport, restoreError, darkMode, theme }: SessionControlsProps) {
+  const [includeOutput, setIncludeOutput] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const shareable = (): PlaygroundSession => {
+    if (includeOutput) return session;
+    const copy = { ...session };
+    delete copy.output;
+    return copy;
+  };
+
+  const copyLink = async () => {
+    try {
+      const fragment = await encodeSessionFragment(shareable());
+      await navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}${fragment}`);
+      setError(null);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy session link:', err);
+      setError('Failed to copy the link to the clipboard');
+    }
+  };
+
+  const exportFile = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`playground-session-${date}.json`, JSON.stringify(shareable(), null, 2), 'application/json');
+  };
+
+  const importFile = async (file: File) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setError('The file is not valid JSON');
+      return;
+    }
+
+    const result = await validateSession(parsed);
+    setError(result.error);
+    if (result.session) {
+      onImport(result.session);
+    }
+  };
+
+  const shownError = error ?? restoreError;
+
+  return (
+    <div className={`${theme.card} rounded-2xl p-6 shadow-lg border`}>
+      <div className="flex items-center gap-2 mb-4">
+        <Share2 className="w-5 h-5 text-cyan-600" />
+        <h2 className={`text-xl font-semibold ${theme.text}`}>Session</h2>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={copyLink}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${theme.secondaryButton}`}
+          title="Copy a link that opens the playground exactly as it is now"
+        >
+          {linkCopied ? <Check className="w-4 h-4 text-green-600" /> : <Link className="w-4 h-4" />}
+          {linkCopied ? 'Link copied!' : 'Copy link'}
+        </button>
+        <button
+          onClick={exportFile}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${theme.secondaryButton}`}
+          title="Download the session as a JSON file"
+        >
+          <Download className="w-4 h-4" />
+          Export
+        </button>
+        <label
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg cursor-pointer transition-colors ${theme.secondaryButton}`}
+          title="Load a session exported from the playground"
+        >
+          <Upload className="w-4 h-4" />
+          Import
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <label htmlFor="include-output" className={`flex items-center gap-2 text-sm cursor-pointer ${theme.textSecondary}`}>
+          <input
+            type="checkbox"
+            id="include-output"
+            checked={includeOutput}
+            onChange={(e) => setIncludeOutput(e.target.checked)}
+            disabled={!session.output}
+            className="w-4 h-4 accent-blue-600"
+          />
+          Include output
+        </label>
+      </div>
+
+      <p className={`text-xs mt-3 ${theme.textMuted}`}>
+        The session is also saved in this browser and restored when the page is reloaded.
+      </p>
+
+      {shownError && <p className={`text-sm mt-2 ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{shownError}</p>}
+    </div>
+  );
+}
+
+export default SessionControls;
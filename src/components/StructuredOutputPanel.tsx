@@ -0,0 +1,120 @@
+import { Braces } from 'lucide-react';
+import type { StructuredForm } from '../lib/structured';
+import type { ThemeClasses } from '../theme';
+import type { ResponseFormat, ToolChoice } from '../types';
+
+interface StructuredOutputPanelProps {
+  form: StructuredForm;
+  onChange: (form: StructuredForm) => void;
+  // Parse error for the schema or tools JSON, shown under the fields
+  error: string | null;
+  darkMode: boolean;
+  theme: ThemeClasses;
+}
+
+const formatOptions: { value: ResponseFormat; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'json_object', label: 'JSON mode' },
+  { value: 'json_schema', label: 'JSON schema' },
+];
+
+const schemaPlaceholder = `{
+  "type": "object",
+  "properties": { "answer": { "type": "string" } },
+  "required": ["answer"],
+  "additionalProperties": false
+}`;
+
+const toolsPlaceholder = `[
+  {
+    "name": "get_weather",
+    "description": "Current weather for a city",
+    "parameters": {
+      "type": "object",
+      "properties": { "city": { "type": "string" } },
+      "required": ["city"]
+    }
+  }
+]`;
+
+function StructuredOutputPanel({ form, onChange, error, darkMode, theme }: StructuredOutputPanelProps) {
+  const update = (changes: Partial<StructuredForm>) => onChange({ ...form, ...changes });
+
+  return (
+    <div className={`${theme.card} rounded-2xl p-6 shadow-lg border`}>
+      <div className="flex items-center gap-2 mb-4">
+        <Braces className="w-5 h-5 text-sky-600" />
+        <h2 className={`text-xl font-semibold ${theme.text}`}>Structured Output</h2>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <span className={`block text-sm font-medium ${theme.textSecondary} mb-2`}>Response format</span>
+          <div className="flex gap-2">
+            {formatOptions.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => update({ responseFormat: option.value })}
+                className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${form.responseFormat === option.value ? 'bg-sky-600 hover:bg-sky-700 text-white' : theme.secondaryButton}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {form.responseFormat === 'json_object' && (
+            <p className={`text-xs mt-2 ${theme.textMuted}`}>
+              OpenAI requires the word "JSON" to appear somewhere in the prompts for JSON mode.
+            </p>
+          )}
+        </div>
+
+        {form.responseFormat === 'json_schema' && (
+          <div>
+            <label htmlFor="json-schema" className={`block text-sm font-medium ${theme.textSecondary} mb-2`}>
+              JSON Schema
+            </label>
+            <textarea
+              id="json-schema"
+              value={form.schemaText}
+              onChange={(e) => update({ schemaText: e.target.value })}
+              className={`w-full h-40 px-3 py-2 text-sm font-mono ${theme.input} rounded-lg resize-y transition-colors`}
+              placeholder={schemaPlaceholder}
+              spellCheck={false}
+            />
+          </div>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label htmlFor="tools" className={`text-sm font-medium ${theme.textSecondary}`}>
+              Tools / functions
+            </label>
+            <select
+              value={form.toolChoice}
+              onChange={(e) => update({ toolChoice: e.target.value as ToolChoice })}
+              disabled={!form.toolsText.trim()}
+              className={`px-2 py-1 text-sm ${theme.input} rounded-lg transition-colors disabled:opacity-50`}
+              title="Whether the model may, must or must not call a tool"
+            >
+              <option value="auto">Auto</option>
+              <option value="required">Required</option>
+              <option value="none">None</option>
+            </select>
+          </div>
+          <textarea
+            id="tools"
+            value={form.toolsText}
+            onChange={(e) => update({ toolsText: e.target.value })}
+            className={`w-full h-32 px-3 py-2 text-sm font-mono ${theme.input} rounded-lg resize-y transition-colors`}
+            placeholder={toolsPlaceholder}
+            spellCheck={false}
+          />
+        </div>
+
+        {error && <p className={`text-sm ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{error}</p>}
+      </div>
+    </div>
+  );
+}
+
+export default StructuredOutputPanel;
@@ -0,0 +1,421 @@
+import { useRef, useState } from 'react';
+import { Grid3x3, Play, Square, Plus, X, AlertCircle, Ban, Upload } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+import { formatCost } from '../lib/cost';
+import type { SamplingSettings } from '../lib/sampling';
+import type { StructuredSettings } from '../lib/structured';
+import { MAX_REPEATS, MAX_SWEEP_RUNS, expandAxis, summarizeCell, sweepParameterInfo, toAxisForm } from '../lib/sweep';
+import type { SweepAxisForm } from '../lib/sweep';
+import { readEventStream } from '../lib/sse';
+import TraceId from './TraceId';
+import type { ThemeClasses } from '../theme';
+import type { ApiResponse, Assertion, RunSettings, SweepAxis, SweepParameter, SweepRunResult, SweepSummary, SweepValues } from '../types';
+
+const MAX_AXES = 2;
+
+interface SweepPanelProps {
+  darkMode: boolean;
+  theme: ThemeClasses;
+  systemPrompt: string;
+  userPrompt: string;
+  // Current controls; the swept parameters override them per run
+  settings: Pick<RunSettings, 'provider' | 'model' | 'temperature' | 'maxTokens' | 'presencePenalty' | 'frequencyPenalty' | 'stopSequence'>;
+  // JSON mode, schema and tools shared by every run
+  structured: StructuredSettings;
+  // Top P, seed and logit bias shared by every run
+  sampling: SamplingSettings;
+  // Checked against every successful run to score each cell
+  assertions: Assertion[];
+  // Loads a cell's parameter values into the playground controls
+  onApply: (values: SweepValues) => void;
+  // Called after every sweep with its total cost in USD
+  onComplete?: (cost: number) => void;
+}
+
+const formatValue = (parameter: SweepParameter, value: number) =>
+  sweepParameterInfo[parameter].integer ? String(value) : value.toFixed(2).replace(/\.?0+$/, '');
+
+function SweepPanel({ darkMode, theme, systemPrompt, userPrompt, settings, structured, sampling, assertions, onApply, onComplete }: SweepPanelProps) {
+  const [axisForms, setAxisForms] = useState<SweepAxisForm[]>([toAxisForm('temperature'), toAxisForm('presencePenalty')]);
+  const [repeats, setRepeats] = useState(1);
+  const [concurrency, setConcurrency] = useState(3);
+  // The axes of the sweep being shown, kept apart from the form so edits don't reshape the grid
+  const [sweptAxes, setSweptAxes] = useState<SweepAxis[]>([]);
+  const [results, setResults] = useState<SweepRunResult[]>([]);
+  const [summary, setSummary] = useState<SweepSummary | null>(null);
+  const [completed, setCompleted] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorTraceId, setErrorTraceId] = useState<string | null>(null);
+  const [cancelled, setCancelled] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const expanded = axisForms.map(expandAxis);
+  const axisError = expanded.find((axis) => axis.error)?.error ?? null;
+  const totalRuns = expanded.reduce((total, axis) => total * axis.values.length, repeats);
+  const sizeError = !axisError && totalRuns > MAX_SWEEP_RUNS
+    ? `This sweep needs ${totalRuns} runs; at most ${MAX_SWEEP_RUNS} are allowed`
+    : null;
+
+  const unusedParameters = (Object.keys(sweepParameterInfo) as SweepParameter[]).filter(
+    (parameter) => !axisForms.some((axis) => axis.parameter === parameter)
+  );
+
+  const updateAxis = (index: number, updates: Partial<SweepAxisForm>) => {
+    setAxisForms(axisForms.map((axis, i) => (i === index ? { ...axis, ...updates } : axis)));
+  };
+
+  const handleRunSweep = async () => {
+    setErrorTraceId(null);
+    if (!userPrompt.trim()) {
+      setError('Please enter a user prompt');
+      return;
+    }
+    if (axisError || sizeError) {
+      setError(axisError ?? sizeError);
+      return;
+    }
+
+    const axes: SweepAxis[] = axisForms.map((axis, index) => ({ parameter: axis.parameter, values: expanded[index].values }));
+    let sweepCost = 0;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsRunning(true);
+    setError(null);
+    setSweptAxes(axes);
+    setTotal(totalRuns);
+    setResults([]);
+    setSummary(null);
+    setCompleted(0);
+    setCancelled(false);
+
+    try {
+      const response = await apiFetch('/api/sweeps/run', {
+        method: 'POST',
+        signal: controller.signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...settings,
+          ...structured,
+          ...sampling,
+          systemPrompt,
+          userPrompt,
+          axes,
+          repeats,
+          concurrency,
+          ...(assertions.length > 0 && { assertions }),
+        }),
+      });
+
+      // Validation and budget failures still come back as plain JSON
+      if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        const data: ApiResponse = await response.json();
+        setError(data.error || 'An unknown error occurred');
+        setErrorTraceId(data.traceId ?? null);
+        return;
+      }
+
+      await readEventStream(response, ({ event, data }) => {
+        if (event === 'result') {
+          const result: SweepRunResult = JSON.parse(data);
+          setResults((prev) => [...prev, result]);
+          setCompleted(result.completed);
+        } else if (event === 'done') {
+          const done: SweepSummary = JSON.parse(data);
+          setSummary(done);
+          sweepCost = done.cost;
+        } else if (event === 'error') {
+          const result: ApiResponse = JSON.parse(data);
+          setError(result.error || 'An unknown error occurred');
+          setErrorTraceId(result.traceId ?? null);
+        }
+      });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setCancelled(true);
+        return;
+      }
+      console.error('Parameter sweep failed:', err);
+      setError('Failed to connect to the server. Make sure the backend is running.');
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+      onComplete?.(sweepCost);
+    }
+  };
+
+  const handleStopSweep = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const [rowAxis, columnAxis] = sweptAxes;
+  const columnValues = columnAxis?.values ?? [null];
+  const cells = rowAxis
+    ? rowAxis.values.map((_, row) =>
+        columnValues.map((_, column) => summarizeCell(results.filter((result) => result.cell === row * columnValues.length + column)))
+      )
+    : [];
+  const scores = cells.flat().flatMap((cell) => (cell.score !== null ? [cell.score] : []));
+  const bestScore = scores.length > 0 ? Math.max(...scores) : null;
+
+  return (
+    <div className={`${theme.card} rounded-2xl p-6 shadow-lg border mt-8`}>
+      <div className="flex items-center gap-2 mb-4">
+        <Grid3x3 className="w-5 h-5 text-cyan-600" />
+        <h2 className={`text-xl font-semibold ${theme.text}`}>Parameter Sweep</h2>
+      </div>
+
+      <p className={`text-sm ${theme.textMuted} mb-4`}>
+        Runs the prompt for every combination of one or two parameters with the current model and other settings.
+        {assertions.length > 0 && ' Each run is scored against the assertions.'}
+      </p>
+
+      <div className="space-y-3 mb-4">
+        {axisForms.map((axis, index) => {
+          const { values, error: rangeError } = expanded[index];
+          return (
+            <div key={index} className={`p-3 border rounded-lg ${theme.configCard}`}>
+              <div className="flex flex-wrap items-end gap-3">
+                <label className={`text-xs ${theme.textMuted}`}>
+                  {index === 0 ? 'Rows' : 'Columns'}
+                  <select
+                    value={axis.parameter}
+                    onChange={(e) => updateAxis(index, toAxisForm(e.target.value as SweepParameter))}
+                    disabled={isRunning}
+                    className={`block mt-1 px-2 py-1 text-sm ${theme.input} rounded-lg transition-colors`}
+                  >
+                    {[axis.parameter, ...unusedParameters].map((parameter) => (
+                      <option key={parameter} value={parameter}>{sweepParameterInfo[parameter].label}</option>
+                    ))}
+                  </select>
+                </label>
+                {(['from', 'to', 'step'] as const).map((field) => (
+                  <label key={field} className={`text-xs ${theme.textMuted}`}>
+                    {field === 'from' ? 'From' : field === 'to' ? 'To' : 'Step'}
+                    <input
+                      type="number"
+                      value={Number.isNaN(axis[field]) ? '' : axis[field]}
+                      onChange={(e) => updateAxis(index, { [field]: e.target.valueAsNumber })}
+                      step={sweepParameterInfo[axis.parameter].integer ? 1 : 0.1}
+                      disabled={isRunning}
+                      className={`block mt-1 w-24 px-2 py-1 text-sm ${theme.input} rounded-lg transition-colors`}
+                    />
+                  </label>
+                ))}
+                {axisForms.length > 1 && (
+                  <button
+                    onClick={() => setAxisForms(axisForms.filter((_, i) => i !== index))}
+                    disabled={isRunning}
+                    className={`ml-auto p-1.5 rounded transition-colors ${theme.textMuted} hover:text-red-600 disabled:opacity-50`}
+                    title="Stop sweeping this parameter"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              <div className={`text-xs mt-2 font-mono ${rangeError ? (darkMode ? 'text-red-300' : 'text-red-700') : theme.textMuted}`}>
+                {rangeError ?? values.map((value) => formatValue(axis.parameter, value)).join(' · ')}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        {axisForms.length < MAX_AXES && (
+          <button
+            onClick={() => setAxisForms([...axisForms, toAxisForm(unusedParameters[0])])}
+            disabled={isRunning}
+            className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg ${theme.secondaryButton} disabled:opacity-50`}
+          >
+            <Plus className="w-4 h-4" />
+            Add parameter
+          </button>
+        )}
+        <label className={`flex items-center gap-2 text-sm ${theme.textSecondary}`}>
+          Repeats
+          <select
+            value={repeats}
+            onChange={(e) => setRepeats(Number(e.target.value))}
+            disabled={isRunning}
+            className={`px-2 py-1 ${theme.input} rounded-lg transition-colors`}
+          >
+            {Array.from({ length: MAX_REPEATS }, (_, i) => i + 1).map((value) => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </label>
+        <label className={`flex items-center gap-2 text-sm ${theme.textSecondary}`}>
+          Concurrency
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            disabled={isRunning}
+            className={`px-2 py-1 ${theme.input} rounded-lg transition-colors`}
+          >
+            {[1, 2, 3, 4, 5].map((value) => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </label>
+        {!axisError && (
+          <span className={`text-sm ${sizeError ? (darkMode ? 'text-red-300' : 'text-red-700') : theme.textMuted}`}>
+            {totalRuns} runs{sizeError && ` (max ${MAX_SWEEP_RUNS})`}
+          </span>
+        )}
+      </div>
+
+      <div className="flex gap-3 mb-6">
+        <button
+          onClick={handleRunSweep}
+          disabled={isRunning || !userPrompt.trim() || !!axisError || !!sizeError}
+          className="flex-1 bg-gradient-to-r from-cyan-500 to-sky-600 hover:from-cyan-600 hover:to-sky-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-200 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl disabled:cursor-not-allowed"
+        >
+          <Play className={`w-5 h-5 ${isRunning ? 'animate-pulse' : ''}`} />
+          {isRunning ? `Running ${completed}/${total} Runs...` : `Run Sweep (${axisError ? '—' : totalRuns})`}
+        </button>
+        {isRunning && (
+          <button
+            onClick={handleStopSweep}
+            className="bg-gradient-to-r from-rose-500 to-red-600 hover:from-rose-600 hover:to-red-700 text-white font-semibold py-3 px-5 rounded-xl transition-all duration-200 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl"
+            title="Stop the sweep"
+          >
+            <Square className="w-4 h-4 fill-current" />
+            Stop
+          </button>
+        )}
+      </div>
+
+      {(isRunning || results.length > 0) && total > 0 && (
+        <div className="mb-4">
+          <div className={`h-2 rounded-full overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+            <div
+              className="h-full bg-gradient-to-r from-cyan-500 to-sky-500 transition-all duration-300"
+              style={{ width: `${(completed / total) * 100}%` }}
+            />
+          </div>
+          <div className={`flex justify-between text-xs mt-1 ${theme.textMuted}`}>
+            <span>{completed} of {total} runs</span>
+            {summary && (
+              <span>
+                {summary.succeeded} succeeded · {summary.failed} failed · {formatCost(summary.cost)} · {(summary.latencyMs / 1000).toFixed(1)}s
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className={`mb-4 p-4 ${darkMode ? 'bg-red-900/50 border-red-700' : 'bg-red-50 border-red-200'} border rounded-lg`}>
+          <div className="flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
+            <div className={`${darkMode ? 'text-red-300' : 'text-red-700'} text-sm`}>
+              {error}
+              <TraceId traceId={errorTraceId} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {cancelled && (
+        <div className={`mb-4 p-4 ${darkMode ? 'bg-amber-900/40 border-amber-700' : 'bg-amber-50 border-amber-200'} border rounded-lg`}>
+          <div className="flex items-start gap-2">
+            <Ban className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+            <div className={`${darkMode ? 'text-amber-300' : 'text-amber-800'} text-sm`}>
+              Sweep cancelled after {completed} of {total} runs.
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Results grid: one row per value of the first parameter, one column per value of the second */}
+      {rowAxis && results.length > 0 && (
+        <div className={`${theme.outputBg} rounded-xl overflow-x-auto max-h-[700px] overflow-y-auto`}>
+          <table className={`w-full text-sm ${theme.outputText}`}>
+            <thead className={`sticky top-0 ${theme.outputBg} text-left text-xs ${theme.textMuted}`}>
+              <tr>
+                <th className="p-2 font-mono whitespace-nowrap">
+                  {sweepParameterInfo[rowAxis.parameter].label}
+                  {columnAxis && ` ↓ · ${sweepParameterInfo[columnAxis.parameter].label} →`}
+                </th>
+                {columnValues.map((value, column) => (
+                  <th key={column} className="p-2 font-mono">
+                    {columnAxis && value !== null ? formatValue(columnAxis.parameter, value) : 'Result'}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rowAxis.values.map((rowValue, row) => (
+                <tr key={row} className={`align-top border-t ${darkMode ? 'border-gray-600' : 'border-gray-200'}`}>
+                  <td className={`p-2 font-mono ${theme.textMuted}`}>{formatValue(rowAxis.parameter, rowValue)}</td>
+                  {cells[row].map((cell, column) => {
+                    const values: SweepValues = {
+                      [rowAxis.parameter]: rowValue,
+                      ...(columnAxis && { [columnAxis.parameter]: columnAxis.values[column] }),
+                    };
+                    const isBest = bestScore !== null && cell.score === bestScore;
+                    return (
+                      <td key={column} className="p-2 min-w-[14rem]">
+                        <div className={`p-2 rounded-lg border ${isBest ? 'border-green-500 ring-1 ring-green-500' : darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                          {cell.runs.length === 0 ? (
+                            <span className={theme.textMuted}>{isRunning ? 'Pending...' : '—'}</span>
+                          ) : (
+                            <div className="space-y-1">
+                              {[...cell.runs].sort((a, b) => a.repeat - b.repeat).map((run) => (
+                                run.success ? (
+                                  <div key={run.index} className="whitespace-pre-wrap line-clamp-3 text-xs" title={run.content}>
+                                    {run.content}
+                                  </div>
+                                ) : (
+                                  <div key={run.index} className={`text-xs ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{run.error}</div>
+                                )
+                              ))}
+                            </div>
+                          )}
+                          {cell.runs.length > 0 && (
+                            <div className={`flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs font-mono ${theme.textMuted}`}>
+                              {cell.length !== null && <span title="Average reply length">{Math.round(cell.length)} chars</span>}
+                              {cell.tokens !== null && <span title="Average total tokens">{Math.round(cell.tokens)} tok</span>}
+                              {cell.latencyMs !== null && <span title="Average latency">{(cell.latencyMs / 1000).toFixed(2)}s</span>}
+                              {cell.score !== null && (
+                                <span
+                                  className={`px-1.5 rounded-full font-semibold text-white ${cell.score === 1 ? 'bg-green-600' : cell.score === 0 ? 'bg-red-600' : 'bg-amber-600'}`}
+                                  title="Average share of assertions passed"
+                                >
+                                  {Math.round(cell.score * 100)}%
+                                </span>
+                              )}
+                              {cell.failed > 0 && (
+                                <span className={darkMode ? 'text-red-300' : 'text-red-700'}>{cell.failed} failed</span>
+                              )}
+                              <button
+                                onClick={() => onApply(values)}
+                                className={`ml-auto flex items-center gap-1 px-1.5 py-0.5 rounded ${theme.secondaryButton}`}
+                                title="Load these parameter values into the playground"
+                              >
+                                <Upload className="w-3 h-3" />
+                                Use
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SweepPanel;
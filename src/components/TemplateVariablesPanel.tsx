@@ -0,0 +1,83 @@
+import { Braces, Eye } from 'lucide-react';
+import type { ThemeClasses } from '../theme';
+
+interface TemplateVariablesPanelProps {
+  // Variable names detected in the prompts, in order of first appearance
+  variables: string[];
+  values: Record<string, string>;
+  onChange: (name: string, value: string) => void;
+  renderedSystemPrompt: string;
+  renderedUserPrompt: string;
+  darkMode: boolean;
+  theme: ThemeClasses;
+}
+
+function TemplateVariablesPanel({
+  variables,
+  values,
+  onChange,
+  renderedSystemPrompt,
+  renderedUserPrompt,
+  darkMode,
+  theme,
+}: TemplateVariablesPanelProps) {
+  const unboundCount = variables.filter((name) => !values[name]?.trim()).length;
+
+  return (
+    <div className={`${theme.card} rounded-2xl p-6 shadow-lg border`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Braces className="w-5 h-5 text-fuchsia-600" />
+          <h2 className={`text-xl font-semibold ${theme.text}`}>Template Variables</h2>
+        </div>
+        {unboundCount > 0 && (
+          <span className={`text-xs ${darkMode ? 'text-amber-300' : 'text-amber-700'}`}>
+            {unboundCount} unfilled
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {variables.map((name) => {
+          const unbound = !values[name]?.trim();
+          return (
+            <div key={name}>
+              <label htmlFor={`variable-${name}`} className={`block text-sm font-mono ${theme.textSecondary} mb-1`}>
+                {`{{${name}}}`}
+              </label>
+              <input
+                id={`variable-${name}`}
+                type="text"
+                value={values[name] ?? ''}
+                onChange={(e) => onChange(name, e.target.value)}
+                className={`w-full px-3 py-2 ${theme.input} rounded-lg transition-colors ${unbound ? 'ring-1 ring-amber-400' : ''}`}
+                placeholder={`Value for ${name}`}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4">
+        <div className={`flex items-center gap-1 text-sm font-medium ${theme.textSecondary} mb-2`}>
+          <Eye className="w-4 h-4" />
+          Preview
+        </div>
+        <div className={`${theme.outputBg} rounded-xl p-3 space-y-2 max-h-64 overflow-y-auto`}>
+          {renderedSystemPrompt.trim() && (
+            <div>
+              <div className={`text-xs font-semibold uppercase tracking-wide ${theme.textMuted}`}>system</div>
+              <pre className={`text-sm ${theme.outputText} whitespace-pre-wrap leading-relaxed`}>{renderedSystemPrompt}</pre>
+            </div>
+          )}
+          <div>
+            <div className={`text-xs font-semibold uppercase tracking-wide ${theme.textMuted}`}>user</div>
+            <pre className={`text-sm ${theme.outputText} whitespace-pre-wrap leading-relaxed`}>{renderedUserPrompt}</pre>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TemplateVariablesPanel;
@@ -0,0 +1,39 @@
+import { Wrench } from 'lucide-react';
+import JsonTree from './JsonTree';
+import { parseJsonOutput } from '../lib/structured';
+import type { ThemeClasses } from '../theme';
+import type { ToolCall } from '../types';
+
+interface ToolCallListProps {
+  toolCalls: ToolCall[];
+  darkMode: boolean;
+  theme: ThemeClasses;
+}
+
+function ToolCallList({ toolCalls, darkMode, theme }: ToolCallListProps) {
+  return (
+    <div className="space-y-3">
+      {toolCalls.map((call, index) => {
+        const args = parseJsonOutput(call.arguments || '{}');
+        return (
+          <div key={call.id || index} className={`p-3 rounded-xl border ${darkMode ? 'border-gray-600' : 'border-gray-200'}`}>
+            <div className={`flex items-center gap-2 mb-2 text-sm font-semibold ${theme.text}`}>
+              <Wrench className="w-4 h-4 text-sky-600" />
+              <span className="font-mono">{call.name}()</span>
+              {call.id && <span className={`text-xs font-normal font-mono ${theme.textMuted}`}>{call.id}</span>}
+            </div>
+            <div className={`text-sm font-mono ${theme.outputText}`}>
+              {args ? (
+                <JsonTree value={args.value} darkMode={darkMode} />
+              ) : (
+                <pre className="whitespace-pre-wrap">{call.arguments}</pre>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default ToolCallList;
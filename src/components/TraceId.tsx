@@ -0,0 +1,16 @@
+interface TraceIdProps {
+  traceId: string | null | undefined;
+}
+
+// The server's trace ID for a failed request, for finding it in the server logs
+function TraceId({ traceId }: TraceIdProps) {
+  if (!traceId) return null;
+
+  return (
+    <div className="mt-1 text-xs opacity-75">
+      Trace ID: <code className="font-mono select-all">{traceId}</code>
+    </div>
+  );
+}
+
+export default TraceId;
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from 'react';
+import { API_BASE_URL, apiFetch, loadApiToken, storeApiToken } from '../lib/api';
+import type { AuthResponse } from '../types';
+
+/**
+ * The signed-in user from `/api/auth`, refetched whenever `refreshKey` changes.
+ * `version` bumps on sign-in and sign-out so data loaded under the previous
+ * token can be reloaded.
+ */
+export function useAccount(refreshKey: number) {
+  const [account, setAccount] = useState<AuthResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const response = await apiFetch('/api/auth', { signal: controller.signal });
+        const data: AuthResponse = await response.json();
+        if (data.success) {
+          setAccount(data);
+          setError(null);
+        } else {
+          setAccount(null);
+          setError(data.error || 'Failed to load the account');
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load the account:', err);
+        setError('Failed to connect to the server. Make sure the backend is running.');
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [refreshKey, version]);
+
+  // Resolves with an error message, or null once signed in
+  const signIn = useCallback(async (token: string): Promise<string | null> => {
+    try {
+      // Checked before storing, so a mistyped token never replaces a working one
+      const response = await fetch(`${API_BASE_URL}/api/auth`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: AuthResponse = await response.json();
+      if (!data.success || data.user?.role === 'anonymous') {
+        return data.error || 'Invalid API token';
+      }
+    } catch (err) {
+      console.error('Failed to sign in:', err);
+      return 'Failed to connect to the server. Make sure the backend is running.';
+    }
+
+    storeApiToken(token);
+    setVersion((prev) => prev + 1);
+    return null;
+  }, []);
+
+  const signOut = useCallback(() => {
+    storeApiToken(null);
+    setVersion((prev) => prev + 1);
+  }, []);
+
+  // Stores the user's own key for a provider, or removes it when `apiKey` is null
+  const setProviderKey = useCallback(async (providerId: string, apiKey: string | null): Promise<string | null> => {
+    try {
+      const response = await apiFetch(`/api/auth/keys/${encodeURIComponent(providerId)}`, {
+        method: apiKey ? 'PUT' : 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        ...(apiKey && { body: JSON.stringify({ apiKey }) }),
+      });
+      const data: AuthResponse = await response.json();
+      if (!data.success || !data.user) {
+        return data.error || 'Failed to update the key';
+      }
+      const user = data.user;
+      setAccount((prev) => prev && { ...prev, user });
+      return null;
+    } catch (err) {
+      console.error('Failed to update the provider key:', err);
+      return 'Failed to connect to the server. Make sure the backend is running.';
+    }
+  }, []);
+
+  return { account, error, version, signedIn: !!loadApiToken(), signIn, signOut, setProviderKey };
+}
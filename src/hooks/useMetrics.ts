@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import type { MetricsSummary } from '../types';
+
+const POLL_INTERVAL_MS = 15000;
+
+/** Polls the server's metrics summary at `/api/metrics` for as long as the caller is mounted. */
+export function useMetrics() {
+  const [metrics, setMetrics] = useState<MetricsSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const response = await apiFetch('/api/metrics', { signal: controller.signal });
+        const data: MetricsSummary = await response.json();
+        if (data.success) {
+          setMetrics(data);
+          setError(null);
+        } else {
+          setMetrics(null);
+          setError(data.error || 'Failed to load metrics');
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load metrics:', err);
+        setError('Failed to connect to the server. Make sure the backend is running.');
+      }
+    };
+
+    load();
+    const timer = window.setInterval(load, POLL_INTERVAL_MS);
+    return () => {
+      window.clearInterval(timer);
+      controller.abort();
+    };
+  }, []);
+
+  return { metrics, error };
+}
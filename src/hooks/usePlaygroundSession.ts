@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from 'react';
+import { decodeSessionFragment, loadStoredSession, storeSession, validateSession } from '../lib/session';
+import type { PlaygroundSession } from '../lib/session';
+
+/**
+ * Restores the playground once on load, from a `#session=` link or else the
+ * copy saved by the last visit, then keeps that local copy up to date.
+ * Returns an error message when a shared link could not be loaded.
+ */
+export function usePlaygroundSession(session: PlaygroundSession, apply: (session: PlaygroundSession) => void) {
+  const [restored, setRestored] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const applyRef = useRef(apply);
+
+  useEffect(() => {
+    applyRef.current = apply;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      let shared: unknown = null;
+      let linkError: string | null = null;
+      try {
+        shared = await decodeSessionFragment(window.location.hash);
+      } catch {
+        linkError = 'The shared link is damaged or incomplete';
+      }
+
+      const result = shared ? await validateSession(shared) : null;
+      if (cancelled) return;
+
+      if (shared || linkError) {
+        // Drop the fragment so a reload restores later edits rather than the link
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      }
+
+      const restoredSession = result?.session ?? loadStoredSession();
+      if (restoredSession) {
+        applyRef.current(restoredSession);
+      }
+      setError(linkError ?? result?.error ?? null);
+      setRestored(true);
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Only start saving once restored, so the defaults never overwrite the saved session
+  const serialized = JSON.stringify(session);
+  useEffect(() => {
+    if (restored) {
+      storeSession(serialized);
+    }
+  }, [restored, serialized]);
+
+  return { error };
+}
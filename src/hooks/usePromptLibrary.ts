@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import type { LibraryPrompt, PromptSummary, PromptsResponse, RunSettings } from '../types';
+
+const toSummary = (prompt: LibraryPrompt): PromptSummary => ({
+  id: prompt.id,
+  name: prompt.name,
+  createdAt: prompt.createdAt,
+  updatedAt: prompt.versions[prompt.versions.length - 1].createdAt,
+  latestVersion: prompt.versions[prompt.versions.length - 1].version,
+  productionVersion: prompt.productionVersion,
+});
+
+/**
+ * The versioned prompt library from `/api/prompts`, refetched whenever
+ * `refreshKey` changes. Actions resolve with the updated prompt, or null on
+ * failure with `error` set.
+ */
+export function usePromptLibrary(refreshKey: number) {
+  const [prompts, setPrompts] = useState<PromptSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const response = await apiFetch('/api/prompts', { signal: controller.signal });
+        const data: PromptsResponse = await response.json();
+        if (data.success && data.prompts) {
+          setPrompts(data.prompts);
+          setError(null);
+        } else {
+          setError(data.error || 'Failed to load the prompt library');
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load the prompt library:', err);
+        setError('Failed to connect to the server. Make sure the backend is running.');
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [refreshKey]);
+
+  // Sends a request that answers with a prompt and keeps the summaries in step with it
+  const promptRequest = useCallback(async (path: string, init: RequestInit, failure: string): Promise<LibraryPrompt | null> => {
+    try {
+      const response = await apiFetch(path, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+      const data: PromptsResponse = await response.json();
+      if (!data.success || !data.prompt) {
+        setError(data.error || failure);
+        return null;
+      }
+      const summary = toSummary(data.prompt);
+      // Most recently updated first, as the server lists them
+      setPrompts((prev) =>
+        [summary, ...prev.filter((prompt) => prompt.id !== summary.id)].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      );
+      setError(null);
+      return data.prompt;
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError('Failed to connect to the server. Make sure the backend is running.');
+      return null;
+    }
+  }, []);
+
+  const loadPrompt = useCallback(async (id: string): Promise<LibraryPrompt | null> => {
+    try {
+      const response = await apiFetch(`/api/prompts/${encodeURIComponent(id)}`);
+      const data: PromptsResponse = await response.json();
+      if (!data.success || !data.prompt) {
+        setError(data.error || 'Failed to load the prompt');
+        return null;
+      }
+      setError(null);
+      return data.prompt;
+    } catch (err) {
+      console.error('Failed to load the prompt:', err);
+      setError('Failed to connect to the server. Make sure the backend is running.');
+      return null;
+    }
+  }, []);
+
+  // Saving under an existing name adds a version to that prompt
+  const savePrompt = useCallback((name: string, note: string, settings: RunSettings) =>
+    promptRequest('/api/prompts', { method: 'POST', body: JSON.stringify({ name, note, settings }) }, 'Failed to save the prompt'),
+  [promptRequest]);
+
+  const rollbackPrompt = useCallback((id: string, version: number) =>
+    promptRequest(
+      `/api/prompts/${encodeURIComponent(id)}/rollback`,
+      { method: 'POST', body: JSON.stringify({ version }) },
+      'Failed to roll back the prompt'
+    ),
+  [promptRequest]);
+
+  const setProductionVersion = useCallback((id: string, version: number | null) =>
+    promptRequest(
+      `/api/prompts/${encodeURIComponent(id)}/production`,
+      { method: 'PUT', body: JSON.stringify({ version }) },
+      'Failed to tag the production version'
+    ),
+  [promptRequest]);
+
+  const deletePrompt = useCallback(async (id: string) => {
+    try {
+      const response = await apiFetch(`/api/prompts/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      const data: PromptsResponse = await response.json();
+      if (!data.success) {
+        setError(data.error || 'Failed to delete the prompt');
+        return;
+      }
+      setPrompts((prev) => prev.filter((prompt) => prompt.id !== id));
+    } catch (err) {
+      console.error('Failed to delete the prompt:', err);
+      setError('Failed to connect to the server. Make sure the backend is running.');
+    }
+  }, []);
+
+  return { prompts, error, loadPrompt, savePrompt, rollbackPrompt, setProductionVersion, deletePrompt };
+}
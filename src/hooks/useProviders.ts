@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import type { ModelsResponse, ProviderInfo } from '../types';
+
+/** Loads the providers and models the server advertises at `/api/models`, again whenever `refreshKey` changes. */
+export function useProviders(refreshKey: number) {
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [defaultProvider, setDefaultProvider] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const response = await apiFetch('/api/models', { signal: controller.signal });
+        const data: ModelsResponse = await response.json();
+        if (data.success && data.providers) {
+          setProviders(data.providers);
+          setDefaultProvider(data.defaultProvider ?? data.providers[0]?.id ?? null);
+          setError(null);
+        } else {
+          setError(data.error || 'Failed to load models');
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load models:', err);
+        setError('Failed to connect to the server. Make sure the backend is running.');
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [refreshKey]);
+
+  return { providers, defaultProvider, error, isLoading };
+}
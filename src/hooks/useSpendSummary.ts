@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import type { SpendSummary } from '../types';
+
+/** Server-side spend for today and this month, refetched whenever `refreshKey` changes. */
+export function useSpendSummary(refreshKey: number) {
+  const [summary, setSummary] = useState<SpendSummary | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const response = await apiFetch('/api/spend', { signal: controller.signal });
+        const data: SpendSummary = await response.json();
+        if (data.success) {
+          setSummary(data);
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load spend summary:', err);
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [refreshKey]);
+
+  return summary;
+}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import type { PromptTemplate, TemplatesResponse } from '../types';
+
+type NewTemplate = Pick<PromptTemplate, 'name' | 'description' | 'systemPrompt' | 'userPrompt' | 'variables' | 'assertions'>;
+
+/** Saved prompt templates from `/api/templates`, refetched whenever `refreshKey` changes, with save and delete helpers. */
+export function useTemplates(refreshKey: number) {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const response = await apiFetch('/api/templates', { signal: controller.signal });
+        const data: TemplatesResponse = await response.json();
+        if (data.success && data.templates) {
+          setTemplates(data.templates);
+          setError(null);
+        } else {
+          setError(data.error || 'Failed to load templates');
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load templates:', err);
+        setError('Failed to connect to the server. Make sure the backend is running.');
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [refreshKey]);
+
+  const saveTemplate = useCallback(async (template: NewTemplate) => {
+    try {
+      const response = await apiFetch('/api/templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(template),
+      });
+      const data: TemplatesResponse = await response.json();
+      if (!data.success || !data.template) {
+        setError(data.error || 'Failed to save template');
+        return;
+      }
+      const saved = data.template;
+      setTemplates((prev) => [saved, ...prev]);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to save template:', err);
+      setError('Failed to connect to the server. Make sure the backend is running.');
+    }
+  }, []);
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    try {
+      const response = await apiFetch(`/api/templates/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      const data: TemplatesResponse = await response.json();
+      if (!data.success) {
+        setError(data.error || 'Failed to delete template');
+        return;
+      }
+      setTemplates((prev) => prev.filter((template) => template.id !== id));
+    } catch (err) {
+      console.error('Failed to delete template:', err);
+      setError('Failed to connect to the server. Make sure the backend is running.');
+    }
+  }, []);
+
+  return { templates, error, saveTemplate, deleteTemplate };
+}
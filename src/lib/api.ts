@@ -0,0 +1,34 @@
+export const API_BASE_URL = 'http://localhost:3001';
+
+const TOKEN_STORAGE_KEY = 'prompt-playground:token';
+
+export function loadApiToken(): string | null {
+  try {
+    return localStorage.getItem(TOKEN_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/** Saves the API token sent with every request, or forgets it when null. */
+export function storeApiToken(token: string | null) {
+  try {
+    if (token) {
+      localStorage.setItem(TOKEN_STORAGE_KEY, token);
+    } else {
+      localStorage.removeItem(TOKEN_STORAGE_KEY);
+    }
+  } catch (err) {
+    console.error('Failed to save the API token:', err);
+  }
+}
+
+/** `fetch` against the playground server, signed with the stored API token when there is one. */
+export function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const token = loadApiToken();
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  return fetch(`${API_BASE_URL}${path}`, { ...init, headers });
+}
@@ -0,0 +1,104 @@
+import type { Attachment, ChatMessage } from '../types';
+
+// Mirrors the limits the server enforces in server/attachments.js
+export const MAX_ATTACHMENTS = 8;
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+const TEXT_MIME_TYPES = ['application/json', 'application/xml', 'application/x-yaml', 'application/yaml'];
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+// The server counts characters; this is a byte bound that keeps plain text under it
+const MAX_FILE_BYTES = 100_000;
+const THUMBNAIL_SIZE = 96;
+
+// Browsers often report no type (or an unrelated one, like video/mp2t for .ts)
+// for text files, so known text extensions decide instead
+const textTypesByExtension: Record<string, string> = {
+  txt: 'text/plain',
+  log: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  html: 'text/html',
+  json: 'application/json',
+  jsonl: 'text/plain',
+  xml: 'application/xml',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+  js: 'text/javascript',
+  ts: 'text/plain',
+  tsx: 'text/plain',
+  py: 'text/x-python',
+};
+
+export const acceptedFileTypes = [...IMAGE_MIME_TYPES, ...Object.keys(textTypesByExtension).map((extension) => `.${extension}`), 'text/*'].join(',');
+
+const isTextMimeType = (mimeType: string) => mimeType.startsWith('text/') || TEXT_MIME_TYPES.includes(mimeType);
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+const readAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    // A data URL with the prefix cut off is plain base64
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// A small JPEG preview, which is all run history keeps of an image
+const createThumbnail = async (file: File): Promise<string | undefined> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (err) {
+    console.error('Failed to create a thumbnail:', err);
+    return undefined;
+  }
+};
+
+/** Reads a dropped, pasted or picked file into an attachment, checking its type and size. */
+export async function readAttachment(file: File): Promise<{ attachment: Attachment | null; error: string | null }> {
+  const name = file.name || 'pasted-image';
+  const extension = name.split('.').pop()?.toLowerCase() ?? '';
+
+  if (IMAGE_MIME_TYPES.includes(file.type)) {
+    if (file.size > MAX_IMAGE_BYTES) {
+      return { attachment: null, error: `${name} is larger than ${formatBytes(MAX_IMAGE_BYTES)}` };
+    }
+
+    const [data, thumbnail] = await Promise.all([readAsBase64(file), createThumbnail(file)]);
+    return {
+      attachment: { type: 'image', name, mimeType: file.type, size: file.size, data, ...(thumbnail && { thumbnail }) },
+      error: null,
+    };
+  }
+
+  const mimeType = textTypesByExtension[extension] ?? (isTextMimeType(file.type) ? file.type : null);
+  if (!mimeType) {
+    return { attachment: null, error: `${name}: only PNG, JPEG, GIF and WebP images or text files can be attached` };
+  }
+
+  if (file.size > MAX_FILE_BYTES) {
+    return { attachment: null, error: `${name} is larger than ${formatBytes(MAX_FILE_BYTES)}` };
+  }
+
+  return { attachment: { type: 'file', name, mimeType, size: file.size, data: await readAsBase64(file) }, error: null };
+}
+
+export const hasImageAttachments = (attachments: Attachment[]) => attachments.some(({ type }) => type === 'image');
+
+/** Drops attachments recorded without their data, as run history keeps them, since they cannot be sent again. */
+export const dropUnsendableAttachments = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.map((message) => {
+    const attachments = message.attachments?.filter(({ data }) => data);
+    return attachments?.length ? { ...message, attachments } : { role: message.role, content: message.content };
+  });
@@ -0,0 +1,104 @@
+export type SnippetLanguage = 'curl' | 'node-sdk' | 'node-fetch' | 'python';
+
+export const snippetLanguages: { value: SnippetLanguage; label: string }[] = [
+  { value: 'curl', label: 'curl' },
+  { value: 'node-sdk', label: 'Node (openai)' },
+  { value: 'node-fetch', label: 'Node (fetch)' },
+  { value: 'python', label: 'Python' },
+];
+
+export const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+// Snippets read the key from the environment rather than embedding it
+const API_KEY_VARIABLE = 'OPENAI_API_KEY';
+
+// POSIX single quoting: close the quote, emit an escaped quote, reopen
+const shellQuote = (text: string) => `'${text.replace(/'/g, `'\\''`)}'`;
+
+// Indents every line after the first, for nesting multi-line literals
+const indentTail = (text: string, indent: string) => text.replace(/\n/g, `\n${indent}`);
+
+// JSON string escapes are valid in Python string literals; only the
+// keyword literals differ
+const toPythonLiteral = (value: unknown, indent = ''): string => {
+  const inner = `${indent}    `;
+
+  if (value === null || value === undefined) return 'None';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (typeof value === 'number' || typeof value === 'string') return JSON.stringify(value);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map((item) => `${inner}${toPythonLiteral(item, inner)}`).join(',\n')},\n${indent}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${toPythonLiteral(item, inner)}`).join(',\n')},\n${indent}}`;
+};
+
+const toCurl = (requestBody: object, baseURL: string) => [
+  `curl ${shellQuote(`${baseURL}/chat/completions`)} \\`,
+  `  -H 'Content-Type: application/json' \\`,
+  `  -H "Authorization: Bearer $${API_KEY_VARIABLE}" \\`,
+  `  -d ${indentTail(shellQuote(JSON.stringify(requestBody, null, 2)), '  ')}`,
+].join('\n');
+
+const toNodeSdk = (requestBody: object, baseURL: string) => [
+  `import OpenAI from 'openai';`,
+  '',
+  baseURL === DEFAULT_BASE_URL
+    ? `const client = new OpenAI({ apiKey: process.env.${API_KEY_VARIABLE} });`
+    : `const client = new OpenAI({\n  apiKey: process.env.${API_KEY_VARIABLE},\n  baseURL: ${JSON.stringify(baseURL)},\n});`,
+  '',
+  `const completion = await client.chat.completions.create(${JSON.stringify(requestBody, null, 2)});`,
+  '',
+  'console.log(completion.choices[0].message.content);',
+].join('\n');
+
+const toNodeFetch = (requestBody: object, baseURL: string) => [
+  `const response = await fetch(${JSON.stringify(`${baseURL}/chat/completions`)}, {`,
+  `  method: 'POST',`,
+  '  headers: {',
+  `    'Content-Type': 'application/json',`,
+  `    Authorization: \`Bearer \${process.env.${API_KEY_VARIABLE}}\`,`,
+  '  },',
+  `  body: JSON.stringify(${indentTail(JSON.stringify(requestBody, null, 2), '  ')}),`,
+  '});',
+  '',
+  'const completion = await response.json();',
+  'console.log(completion.choices[0].message.content);',
+].join('\n');
+
+const toPython = (requestBody: object, baseURL: string) => [
+  'import os',
+  '',
+  'from openai import OpenAI',
+  '',
+  baseURL === DEFAULT_BASE_URL
+    ? `client = OpenAI(api_key=os.environ["${API_KEY_VARIABLE}"])`
+    : `client = OpenAI(\n    api_key=os.environ["${API_KEY_VARIABLE}"],\n    base_url=${JSON.stringify(baseURL)},\n)`,
+  '',
+  'completion = client.chat.completions.create(',
+  ...Object.entries(requestBody).map(([key, value]) => `    ${key}=${toPythonLiteral(value, '    ')},`),
+  ')',
+  '',
+  'print(completion.choices[0].message.content)',
+].join('\n');
+
+/**
+ * Renders an OpenAI chat completions request body as runnable code. The body
+ * is used as is, so the snippet sends exactly what the playground would.
+ */
+export function generateSnippet(language: SnippetLanguage, requestBody: object, baseURL: string = DEFAULT_BASE_URL): string {
+  switch (language) {
+    case 'curl':
+      return toCurl(requestBody, baseURL);
+    case 'node-sdk':
+      return toNodeSdk(requestBody, baseURL);
+    case 'node-fetch':
+      return toNodeFetch(requestBody, baseURL);
+    case 'python':
+      return toPython(requestBody, baseURL);
+  }
+}
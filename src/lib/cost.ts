@@ -0,0 +1,23 @@
+import type { ModelPricing } from '../types';
+
+/**
+ * Rough token count for pre-run estimates: about four characters per token
+ * plus a few tokens of per-message overhead, in line with OpenAI's guidance.
+ */
+export function estimateTokens(messages: string[]): number {
+  return messages
+    .filter((content) => content.trim())
+    .reduce((total, content) => total + Math.ceil(content.length / 4) + 4, 0);
+}
+
+/** Cost in USD for the given token counts at per-1M-token pricing. */
+export function calculateCost(pricing: ModelPricing, promptTokens: number, completionTokens: number): number {
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0.00';
+  if (usd >= 1) return `$${usd.toFixed(2)}`;
+  if (usd >= 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(6)}`;
+}
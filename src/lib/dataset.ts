@@ -0,0 +1,116 @@
+export type DatasetRow = Record<string, string>;
+
+export interface Dataset {
+  columns: string[];
+  rows: DatasetRow[];
+}
+
+/**
+ * Parses RFC 4180 style CSV: the first record is the header, fields may be
+ * quoted, quoted fields may contain commas, newlines and doubled quotes.
+ */
+export function parseCsv(text: string): Dataset {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines carry no data
+  const [header = [], ...body] = records.filter((fields) => fields.some((value) => value.trim()));
+  const columns = header.map((name) => name.trim());
+
+  return {
+    columns,
+    rows: body.map((fields) => Object.fromEntries(columns.map((name, index) => [name, fields[index] ?? '']))),
+  };
+}
+
+/** Parses one JSON object per line; columns are the union of keys in first-seen order. */
+export function parseJsonl(text: string): Dataset {
+  const columns = new Set<string>();
+  const rows = text
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line)
+    .map(({ line, lineNumber }) => {
+      let value: unknown;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${lineNumber} is not valid JSON`);
+      }
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`Line ${lineNumber} must be a JSON object`);
+      }
+
+      const row: DatasetRow = {};
+      for (const [key, field] of Object.entries(value)) {
+        columns.add(key);
+        row[key] = typeof field === 'string' ? field : JSON.stringify(field);
+      }
+      return row;
+    });
+
+  return { columns: [...columns], rows };
+}
+
+/** Picks the parser from the file extension; anything other than CSV is read as JSONL. */
+export function parseDataset(fileName: string, text: string): Dataset {
+  return fileName.toLowerCase().endsWith('.csv') ? parseCsv(text) : parseJsonl(text);
+}
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCsv(columns: string[], rows: DatasetRow[]): string {
+  return [columns, ...rows.map((row) => columns.map((name) => row[name] ?? ''))]
+    .map((fields) => fields.map(escapeCsvField).join(','))
+    .join('\n');
+}
+
+export function toJsonl(rows: object[]): string {
+  return rows.map((row) => JSON.stringify(row)).join('\n');
+}
+
+/** Offers `contents` to the user as a file download. */
+export function downloadFile(fileName: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
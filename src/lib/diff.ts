@@ -0,0 +1,119 @@
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOp;
+  value: string;
+}
+
+// Above this many LCS cells the texts are treated as fully replaced rather
+// than risking a multi-hundred-megabyte table in the browser.
+const MAX_DIFF_CELLS = 10_000_000;
+
+/**
+ * Diffs two token sequences with a longest-common-subsequence table after
+ * trimming their shared prefix and suffix. Adjacent parts with the same op
+ * are merged.
+ */
+export function diffSequences(a: string[], b: string[]): DiffPart[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const parts: DiffPart[] = [];
+
+  const push = (op: DiffOp, value: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) {
+      last.value += value;
+    } else {
+      parts.push({ op, value });
+    }
+  };
+
+  a.slice(0, prefix).forEach((token) => push('equal', token));
+
+  const n = midA.length;
+  const m = midB.length;
+
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    midA.forEach((token) => push('delete', token));
+    midB.forEach((token) => push('insert', token));
+  } else {
+    // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        push('equal', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        push('delete', midA[i]);
+        i++;
+      } else {
+        push('insert', midB[j]);
+        j++;
+      }
+    }
+    midA.slice(i).forEach((token) => push('delete', token));
+    midB.slice(j).forEach((token) => push('insert', token));
+  }
+
+  a.slice(a.length - suffix).forEach((token) => push('equal', token));
+
+  return parts;
+}
+
+/** Splits text into words, each keeping its trailing whitespace. */
+export function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|\S+\s*/g) ?? [];
+}
+
+/** Splits text into lines, each keeping its trailing newline. */
+export function tokenizeLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+export function diffWords(a: string, b: string): DiffPart[] {
+  return diffSequences(tokenizeWords(a), tokenizeWords(b));
+}
+
+export function diffLines(a: string, b: string): DiffPart[] {
+  return diffSequences(tokenizeLines(a), tokenizeLines(b));
+}
+
+/** Share of tokens the two sides have in common, from 0 to 1. */
+export function similarity(parts: DiffPart[], tokenize: (text: string) => string[] = tokenizeWords): number {
+  let equal = 0;
+  let total = 0;
+  for (const part of parts) {
+    const count = tokenize(part.value).length;
+    total += part.op === 'equal' ? count * 2 : count;
+    if (part.op === 'equal') {
+      equal += count * 2;
+    }
+  }
+  return total === 0 ? 1 : equal / total;
+}
@@ -0,0 +1,53 @@
+import { apiFetch } from './api';
+import type { Assertion, AssertionType, EvaluationResponse } from '../types';
+
+export const assertionLabels: Record<AssertionType, string> = {
+  contains: 'Contains',
+  not_contains: 'Does not contain',
+  regex: 'Matches regex',
+  json_schema: 'Valid JSON schema',
+  max_length: 'Max length',
+  equals: 'Equals expected',
+  llm_judge: 'LLM judge',
+};
+
+export const assertionPlaceholders: Record<AssertionType, string> = {
+  contains: 'Text the output must include',
+  not_contains: 'Text the output must not include',
+  regex: 'Pattern, e.g. ^\\d{3}-\\d{4}$',
+  json_schema: '{"type": "object", "required": ["answer"]}',
+  max_length: 'Maximum characters, e.g. 280',
+  equals: 'Expected output',
+  llm_judge: 'Rubric, e.g. "Answers politely and cites the refund policy"',
+};
+
+let nextAssertionId = 0;
+export const createAssertionId = () => `assertion-${Date.now()}-${nextAssertionId++}`;
+
+interface EvaluationRequest {
+  output: string;
+  assertions: Assertion[];
+  provider: string;
+  model: string;
+  // The user prompt, given to LLM judges as context
+  prompt: string;
+}
+
+/** Scores an output against the assertions via `/api/evaluate`. */
+export async function evaluateOutput(request: EvaluationRequest, signal?: AbortSignal): Promise<EvaluationResponse> {
+  try {
+    const response = await apiFetch('/api/evaluate', {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+    return await response.json();
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.error('Evaluation request failed:', err);
+    return { success: false, error: 'Failed to connect to the server. Make sure the backend is running.' };
+  }
+}
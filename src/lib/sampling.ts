@@ -0,0 +1,82 @@
+import type { RunSettings } from '../types';
+
+export type SamplingSettings = Pick<RunSettings, 'topP' | 'seed' | 'n' | 'logitBias' | 'logprobs' | 'topLogprobs'>;
+
+export interface LogitBiasRow {
+  token: string;
+  bias: number;
+}
+
+/** The extra sampling controls as the user edits them. */
+export interface SamplingForm {
+  topP: number;
+  // Kept as text so the field can be empty
+  seed: string;
+  n: number;
+  logitBias: LogitBiasRow[];
+  logprobs: boolean;
+  topLogprobs: number;
+}
+
+export const emptySamplingForm: SamplingForm = {
+  topP: 1,
+  seed: '',
+  n: 1,
+  logitBias: [],
+  logprobs: false,
+  topLogprobs: 0,
+};
+
+/**
+ * Turns the form into request settings, leaving out anything at the API
+ * default. Returns an error message for a malformed seed or token ID.
+ */
+export function parseSamplingForm(form: SamplingForm): { settings: SamplingSettings; error: string | null } {
+  const settings: SamplingSettings = {};
+
+  if (form.topP !== 1) {
+    settings.topP = form.topP;
+  }
+
+  if (form.seed.trim()) {
+    const seed = Number(form.seed);
+    if (!Number.isSafeInteger(seed)) {
+      return { settings, error: 'The seed must be a whole number' };
+    }
+    settings.seed = seed;
+  }
+
+  if (form.n > 1) {
+    settings.n = form.n;
+  }
+
+  const biasRows = form.logitBias.filter((row) => row.token.trim());
+  if (biasRows.length > 0) {
+    const invalid = biasRows.find((row) => !/^\d+$/.test(row.token.trim()));
+    if (invalid) {
+      return { settings, error: `Logit bias keys must be token IDs (got "${invalid.token.trim()}")` };
+    }
+    settings.logitBias = Object.fromEntries(biasRows.map((row) => [row.token.trim(), row.bias]));
+  }
+
+  if (form.logprobs) {
+    settings.logprobs = true;
+    if (form.topLogprobs > 0) {
+      settings.topLogprobs = form.topLogprobs;
+    }
+  }
+
+  return { settings, error: null };
+}
+
+/** The inverse of `parseSamplingForm`, for loading recorded runs back into the controls. */
+export function toSamplingForm(settings: SamplingSettings): SamplingForm {
+  return {
+    topP: settings.topP ?? 1,
+    seed: settings.seed !== undefined ? String(settings.seed) : '',
+    n: settings.n ?? 1,
+    logitBias: Object.entries(settings.logitBias ?? {}).map(([token, bias]) => ({ token, bias })),
+    logprobs: settings.logprobs ?? false,
+    topLogprobs: settings.topLogprobs ?? 0,
+  };
+}
@@ -0,0 +1,98 @@
+import { apiFetch } from './api';
+import type { Assertion, ChatMessage, RunSettings, SessionValidationResponse, ToolCall } from '../types';
+
+export const SESSION_VERSION = 1;
+const STORAGE_KEY = 'prompt-playground:session';
+const FRAGMENT_PREFIX = '#session=';
+
+/** Everything needed to reproduce the playground, as shared, exported and persisted. */
+export interface PlaygroundSession {
+  version: typeof SESSION_VERSION;
+  // Prompts are kept unrendered so their {{variables}} survive
+  settings: RunSettings;
+  streamResponse: boolean;
+  // Present when the session is in conversation mode
+  conversation?: ChatMessage[];
+  templateValues: Record<string, string>;
+  assertions: Assertion[];
+  output?: {
+    content: string;
+    toolCalls?: ToolCall[];
+  };
+}
+
+const isSession = (value: unknown): value is PlaygroundSession =>
+  !!value && typeof value === 'object' &&
+  (value as PlaygroundSession).version === SESSION_VERSION &&
+  !!(value as PlaygroundSession).settings && typeof (value as PlaygroundSession).settings === 'object';
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0));
+
+const pipeBytes = (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer();
+
+/** Deflates the session into a URL fragment such as `#session=…`. */
+export async function encodeSessionFragment(session: PlaygroundSession): Promise<string> {
+  const compressed = await pipeBytes(new TextEncoder().encode(JSON.stringify(session)), new CompressionStream('deflate-raw'));
+  return `${FRAGMENT_PREFIX}${toBase64Url(new Uint8Array(compressed))}`;
+}
+
+/**
+ * Reads a session back out of a URL fragment. Returns null when the fragment
+ * is not a session link; throws when it is one but cannot be decoded.
+ */
+export async function decodeSessionFragment(hash: string): Promise<unknown> {
+  if (!hash.startsWith(FRAGMENT_PREFIX)) return null;
+  const inflated = await pipeBytes(fromBase64Url(hash.slice(FRAGMENT_PREFIX.length)), new DecompressionStream('deflate-raw'));
+  return JSON.parse(new TextDecoder().decode(inflated));
+}
+
+/**
+ * Checks a shared or imported session against the limits `/api/chat`
+ * enforces. Resolves with the session, or an error message to show.
+ */
+export async function validateSession(value: unknown): Promise<{ session: PlaygroundSession | null; error: string | null }> {
+  try {
+    const response = await apiFetch('/api/sessions/validate', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(value),
+    });
+    const data: SessionValidationResponse = await response.json();
+    if (!data.success || !isSession(value)) {
+      return { session: null, error: `Invalid session: ${data.error || 'unrecognised format'}` };
+    }
+    return { session: value, error: null };
+  } catch (err) {
+    console.error('Failed to validate session:', err);
+    return { session: null, error: 'Failed to connect to the server. Make sure the backend is running.' };
+  }
+}
+
+/** The session saved by the last visit, if any. */
+export function loadStoredSession(): PlaygroundSession | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return isSession(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeSession(serialized: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY, serialized);
+  } catch (err) {
+    // Quota exceeded or storage disabled; the session just won't survive a reload
+    console.error('Failed to save session:', err);
+  }
+}
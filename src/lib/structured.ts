@@ -0,0 +1,90 @@
+import type { JsonSchemaFormat, ResponseFormat, RunSettings, ToolChoice, ToolDefinition } from '../types';
+
+export type StructuredSettings = Pick<RunSettings, 'responseFormat' | 'jsonSchema' | 'tools' | 'toolChoice'>;
+
+/** The structured output controls as the user edits them. */
+export interface StructuredForm {
+  responseFormat: ResponseFormat;
+  schemaText: string;
+  toolsText: string;
+  toolChoice: ToolChoice;
+}
+
+export const emptyStructuredForm: StructuredForm = {
+  responseFormat: 'text',
+  schemaText: '',
+  toolsText: '',
+  toolChoice: 'auto',
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Turns the form into request settings. The schema box takes either a bare
+ * JSON Schema or `{name, schema, strict}`; the tools box takes an array of
+ * `{name, description, parameters}`. Returns an error message for malformed JSON.
+ */
+export function parseStructuredForm(form: StructuredForm): { settings: StructuredSettings; error: string | null } {
+  const settings: StructuredSettings = {};
+
+  if (form.responseFormat !== 'text') {
+    settings.responseFormat = form.responseFormat;
+  }
+
+  if (form.responseFormat === 'json_schema') {
+    if (!form.schemaText.trim()) {
+      return { settings, error: 'Enter a JSON schema for the response' };
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(form.schemaText);
+    } catch {
+      return { settings, error: 'The JSON schema is not valid JSON' };
+    }
+    if (!isObject(parsed)) {
+      return { settings, error: 'The JSON schema must be an object' };
+    }
+    settings.jsonSchema = isObject(parsed.schema)
+      ? (parsed as unknown as JsonSchemaFormat)
+      : { name: 'response', schema: parsed };
+  }
+
+  if (form.toolsText.trim()) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(form.toolsText);
+    } catch {
+      return { settings, error: 'The tool definitions are not valid JSON' };
+    }
+    if (!Array.isArray(parsed) || !parsed.every((tool) => isObject(tool) && typeof tool.name === 'string')) {
+      return { settings, error: 'Tools must be a JSON array of objects with a name' };
+    }
+    if (parsed.length > 0) {
+      settings.tools = parsed as ToolDefinition[];
+      settings.toolChoice = form.toolChoice;
+    }
+  }
+
+  return { settings, error: null };
+}
+
+/** The inverse of `parseStructuredForm`, for loading recorded runs back into the controls. */
+export function toStructuredForm(settings: StructuredSettings): StructuredForm {
+  return {
+    responseFormat: settings.responseFormat ?? 'text',
+    schemaText: settings.jsonSchema ? JSON.stringify(settings.jsonSchema, null, 2) : '',
+    toolsText: settings.tools ? JSON.stringify(settings.tools, null, 2) : '',
+    toolChoice: settings.toolChoice ?? 'auto',
+  };
+}
+
+/** Parses model output as JSON, tolerating a surrounding Markdown code fence. */
+export function parseJsonOutput(text: string): { value: unknown } | null {
+  const fenced = text.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/);
+  try {
+    return { value: JSON.parse(fenced ? fenced[1] : text) };
+  } catch {
+    return null;
+  }
+}
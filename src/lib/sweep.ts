@@ -0,0 +1,100 @@
+import type { SweepParameter, SweepRunResult } from '../types';
+
+// Mirror the limits the server enforces in server/sweep.js
+export const MAX_AXIS_VALUES = 10;
+export const MAX_REPEATS = 5;
+export const MAX_SWEEP_RUNS = 100;
+
+interface SweepParameterInfo {
+  label: string;
+  min: number;
+  max: number;
+  // The range offered when the parameter is picked
+  from: number;
+  to: number;
+  step: number;
+  integer?: boolean;
+}
+
+export const sweepParameterInfo: Record<SweepParameter, SweepParameterInfo> = {
+  temperature: { label: 'Temperature', min: 0, max: 2, from: 0, to: 1.5, step: 0.3 },
+  maxTokens: { label: 'Max Tokens', min: 1, max: 128000, from: 100, to: 500, step: 200, integer: true },
+  presencePenalty: { label: 'Presence Penalty', min: -2, max: 2, from: 0, to: 2, step: 1 },
+  frequencyPenalty: { label: 'Frequency Penalty', min: -2, max: 2, from: 0, to: 2, step: 1 },
+  topP: { label: 'Top P', min: 0, max: 1, from: 0.5, to: 1, step: 0.25 },
+};
+
+/** One swept parameter as the user edits it: an inclusive range and a step. */
+export interface SweepAxisForm {
+  parameter: SweepParameter;
+  from: number;
+  to: number;
+  step: number;
+}
+
+export const toAxisForm = (parameter: SweepParameter): SweepAxisForm => {
+  const { from, to, step } = sweepParameterInfo[parameter];
+  return { parameter, from, to, step };
+};
+
+/**
+ * Expands a range into the values to run, `from` and `to` included. Floating
+ * point drift is rounded away so 0.1 steps give 0.3, not 0.30000000000000004.
+ * Returns an error message for an empty, reversed or oversized range.
+ */
+export function expandAxis({ parameter, from, to, step }: SweepAxisForm): { values: number[]; error: string | null } {
+  const { label, min, max, integer } = sweepParameterInfo[parameter];
+
+  if ([from, to, step].some((value) => !Number.isFinite(value))) {
+    return { values: [], error: `${label}: enter a number for from, to and step` };
+  }
+  if (from < min || to > max) {
+    return { values: [], error: `${label} must stay between ${min} and ${max}` };
+  }
+  if (to < from) {
+    return { values: [], error: `${label}: "to" must not be below "from"` };
+  }
+  if (to > from && step <= 0) {
+    return { values: [], error: `${label}: the step must be greater than 0` };
+  }
+  if (integer && ![from, to, step].every(Number.isInteger)) {
+    return { values: [], error: `${label} takes whole numbers` };
+  }
+
+  const count = to > from ? Math.floor((to - from) / step + 1e-9) + 1 : 1;
+  if (count > MAX_AXIS_VALUES) {
+    return { values: [], error: `${label}: at most ${MAX_AXIS_VALUES} values per parameter (this range has ${count})` };
+  }
+
+  return {
+    values: Array.from({ length: count }, (_, index) => Number((from + index * step).toFixed(6))),
+    error: null,
+  };
+}
+
+export interface SweepCellSummary {
+  runs: SweepRunResult[];
+  failed: number;
+  // Averages over the successful runs, null when none succeeded
+  length: number | null;
+  tokens: number | null;
+  latencyMs: number | null;
+  // Mean share of assertions passed, null without assertions
+  score: number | null;
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+
+/** Aggregates the repeats of one combination for its grid cell. */
+export function summarizeCell(runs: SweepRunResult[]): SweepCellSummary {
+  const succeeded = runs.filter((run) => run.success);
+  return {
+    runs,
+    failed: runs.length - succeeded.length,
+    length: average(succeeded.map((run) => run.length)),
+    tokens: average(succeeded.flatMap((run) => (run.usage ? [run.usage.total_tokens] : []))),
+    latencyMs: average(succeeded.map((run) => run.latencyMs)),
+    score: average(runs.flatMap((run) => (run.evaluation?.score != null ? [run.evaluation.score] : []))),
+  };
+}
@@ -0,0 +1,25 @@
+// `{{name}}` placeholders; whitespace inside the braces is ignored
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+/** Variable names used across the given texts, in order of first appearance. */
+export function extractVariables(texts: string[]): string[] {
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return [...names];
+}
+
+/** Variables that appear in the texts but have no non-empty value yet. */
+export function findUnboundVariables(texts: string[], values: Record<string, string>): string[] {
+  return extractVariables(texts).filter((name) => !values[name]?.trim());
+}
+
+/** Substitutes bound variables; placeholders without a value are left as written. */
+export function renderTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    values[name]?.trim() ? values[name] : placeholder
+  );
+}
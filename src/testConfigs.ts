@@ -0,0 +1,28 @@
+import type { TestConfig } from './types';
+
+export const testConfigs: TestConfig[] = [
+  {
+    name: 'Precise & Focused',
+    description: 'Low temperature, short responses',
+    temperature: 0.0,
+    maxTokens: 50,
+    presencePenalty: 0.0,
+    frequencyPenalty: 0.0,
+  },
+  {
+    name: 'Balanced & Diverse',
+    description: 'Moderate creativity, varied vocabulary',
+    temperature: 0.7,
+    maxTokens: 150,
+    presencePenalty: 1.5,
+    frequencyPenalty: 1.5,
+  },
+  {
+    name: 'Creative & Expansive',
+    description: 'High creativity, longer responses',
+    temperature: 1.2,
+    maxTokens: 300,
+    presencePenalty: 0.0,
+    frequencyPenalty: 1.5,
+  },
+];
@@ -0,0 +1,14 @@
+export const getThemeClasses = (darkMode: boolean) => ({
+  bg: darkMode ? 'bg-gradient-to-br from-gray-900 via-blue-900 to-indigo-900' : 'bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100',
+  card: darkMode ? 'bg-gray-800/70 backdrop-blur-sm border-gray-700/20' : 'bg-white/70 backdrop-blur-sm border-white/20',
+  text: darkMode ? 'text-gray-100' : 'text-gray-800',
+  textSecondary: darkMode ? 'text-gray-300' : 'text-gray-600',
+  textMuted: darkMode ? 'text-gray-400' : 'text-gray-500',
+  input: darkMode ? 'bg-gray-700 border-gray-600 text-gray-100 focus:ring-blue-400 focus:border-blue-400' : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500',
+  configCard: darkMode ? 'bg-gray-700/50 hover:bg-gray-600/50 border-gray-600 hover:border-blue-400' : 'bg-gradient-to-br from-white to-gray-50 hover:from-amber-50 hover:to-orange-50 border-gray-200 hover:border-amber-300',
+  outputBg: darkMode ? 'bg-gray-700' : 'bg-gray-50',
+  outputText: darkMode ? 'text-gray-200' : 'text-gray-700',
+  secondaryButton: darkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-300' : 'bg-gray-200 hover:bg-gray-300 text-gray-700',
+});
+
+export type ThemeClasses = ReturnType<typeof getThemeClasses>;
@@ -0,0 +1,461 @@
+export interface Usage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ApiResponse {
+  success: boolean;
+  content?: string;
+  usage?: Usage;
+  // USD, null when the model has no catalog pricing
+  cost?: number | null;
+  model?: string;
+  finishReason?: string | null;
+  toolCalls?: ToolCall[];
+  // Every choice, first one included, when more than one was requested
+  choices?: Choice[];
+  // Present when logprobs were requested
+  logprobs?: TokenLogprob[];
+  // Replayed from the server's response cache, so nothing was billed
+  cached?: boolean;
+  runId?: string;
+  // Upstream calls made, retries and fallbacks included
+  attempts?: number;
+  // The requested model, when a fallback model answered instead
+  fallbackFrom?: string;
+  // Guardrail rules that redacted, blocked or flagged the prompt or reply
+  guardrails?: GuardrailFinding[];
+  // A stream was requested but output guardrails had the reply sent whole
+  streamDisabled?: boolean;
+  error?: string;
+  type?: string;
+  // Set on errors; matches the server's log lines for the request
+  traceId?: string;
+}
+
+export interface GuardrailFinding {
+  rule: string;
+  name: string;
+  stage: 'input' | 'output';
+  action: 'redact' | 'block' | 'flag';
+  // Matches of a pattern rule; absent for moderation
+  count?: number;
+  // Moderation only
+  categories?: string[];
+}
+
+export interface Choice {
+  content: string;
+  toolCalls?: ToolCall[];
+  finishReason: string | null;
+  logprobs?: TokenLogprob[] | null;
+}
+
+export interface TokenLogprob {
+  token: string;
+  logprob: number;
+  // The most likely alternatives at this position, chosen token included
+  topLogprobs: { token: string; logprob: number }[];
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // JSON text exactly as the model produced it
+  arguments: string;
+}
+
+export type ResponseFormat = 'text' | 'json_object' | 'json_schema';
+
+export type ToolChoice = 'auto' | 'none' | 'required';
+
+export interface JsonSchemaFormat {
+  name?: string;
+  schema: object;
+  strict?: boolean;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  // JSON Schema for the function's arguments
+  parameters?: object;
+}
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  // User messages only
+  attachments?: Attachment[];
+}
+
+export interface Attachment {
+  type: 'image' | 'file';
+  name: string;
+  mimeType: string;
+  // Bytes
+  size: number;
+  // Base64; absent on attachments recorded in run history, which keeps only the thumbnail
+  data?: string;
+  // Small JPEG data URL, for images
+  thumbnail?: string;
+}
+
+export interface StreamDelta {
+  content: string;
+}
+
+export interface TestConfig {
+  name: string;
+  description: string;
+  temperature: number;
+  maxTokens: number;
+  presencePenalty: number;
+  frequencyPenalty: number;
+}
+
+export interface BatchRun {
+  label: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  presencePenalty: number;
+  frequencyPenalty: number;
+}
+
+export interface BatchResult extends ApiResponse {
+  label: string;
+  latencyMs: number;
+}
+
+export interface BatchResponse {
+  success: boolean;
+  results?: BatchResult[];
+  error?: string;
+  type?: string;
+  traceId?: string;
+}
+
+export interface RunSettings {
+  systemPrompt: string;
+  userPrompt: string;
+  provider: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  presencePenalty: number;
+  frequencyPenalty: number;
+  stopSequence: string;
+  // Structured output; omitted for plain text runs
+  responseFormat?: ResponseFormat;
+  jsonSchema?: JsonSchemaFormat;
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  // Sampling extras; omitted when left at the API default
+  topP?: number;
+  seed?: number;
+  n?: number;
+  // Token ID to bias, -100 to 100
+  logitBias?: Record<string, number>;
+  logprobs?: boolean;
+  topLogprobs?: number;
+  // Same-provider models tried in order when `model` is unavailable
+  fallbackModels?: string[];
+}
+
+export interface HistoryRun extends RunSettings {
+  id: string;
+  timestamp: string;
+  source: 'single' | 'compare';
+  label?: string;
+  // Present for conversation-mode runs; excludes the system message
+  messages?: ChatMessage[];
+  // Attached to the user prompt
+  attachments?: Attachment[];
+  output: string;
+  toolCalls?: ToolCall[];
+  // Present when n > 1; `output` holds the first choice
+  choices?: Pick<Choice, 'content' | 'finishReason'>[];
+  usage: Usage | null;
+  cost?: number | null;
+  responseModel: string | null;
+  finishReason: string | null;
+  latencyMs: number;
+  cached?: boolean;
+  attempts?: number;
+  fallbackFrom?: string;
+  guardrails?: GuardrailFinding[];
+  error?: string;
+  errorType?: string;
+  traceId?: string;
+}
+
+export interface PromptVersion {
+  version: number;
+  createdAt: string;
+  author: string;
+  note: string;
+  settings: RunSettings;
+}
+
+export interface LibraryPrompt {
+  id: string;
+  name: string;
+  createdAt: string;
+  // The version served by name to applications, if any
+  productionVersion: number | null;
+  // Oldest first
+  versions: PromptVersion[];
+}
+
+export interface PromptSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  latestVersion: number;
+  productionVersion: number | null;
+}
+
+export interface PromptsResponse {
+  success: boolean;
+  prompts?: PromptSummary[];
+  prompt?: LibraryPrompt;
+  error?: string;
+  type?: string;
+}
+
+export interface HistoryResponse {
+  success: boolean;
+  runs?: HistoryRun[];
+  total?: number;
+  error?: string;
+  type?: string;
+}
+
+export interface ModelPricing {
+  // USD per 1M tokens
+  input: number;
+  output: number;
+}
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  provider: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  // Accepts image attachments
+  vision?: boolean;
+  pricing: ModelPricing;
+}
+
+export interface ProviderInfo {
+  id: string;
+  name: string;
+  models: ModelInfo[];
+  // Whether signed-in users can run this provider on their own API key
+  userKeys?: boolean;
+}
+
+export interface ModelsResponse {
+  success: boolean;
+  providers?: ProviderInfo[];
+  defaultProvider?: string | null;
+  error?: string;
+  type?: string;
+}
+
+export interface SpendSummary {
+  success: boolean;
+  today: number;
+  month: number;
+  limits: {
+    daily: number | null;
+    monthly: number | null;
+  };
+}
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  role: 'admin' | 'user' | 'anonymous';
+  createdAt?: string;
+  limits: {
+    // Requests per 15 minutes
+    rateLimit: number;
+    dailyTokens: number | null;
+  };
+  // Providers the user has stored their own key for
+  keys: string[];
+}
+
+export interface UserUsage {
+  today: {
+    cost: number;
+    tokens: number;
+    requests: number;
+  };
+  monthCost: number;
+}
+
+export interface AuthResponse {
+  success: boolean;
+  authRequired?: boolean;
+  byokEnabled?: boolean;
+  user?: AuthUser;
+  usage?: UserUsage;
+  error?: string;
+  type?: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  timestamp: string;
+  name: string;
+  description: string;
+  systemPrompt: string;
+  userPrompt: string;
+  // Default values for the template's {{variables}}
+  variables: Record<string, string>;
+  // Missing on templates saved before assertions existed
+  assertions?: Assertion[];
+}
+
+export interface TemplatesResponse {
+  success: boolean;
+  templates?: PromptTemplate[];
+  template?: PromptTemplate;
+  error?: string;
+  type?: string;
+}
+
+export interface DatasetRowResult extends ApiResponse {
+  index: number;
+  attempts: number;
+  latencyMs: number;
+  completed: number;
+  total: number;
+}
+
+export interface DatasetSummary {
+  success: boolean;
+  total: number;
+  succeeded: number;
+  failed: number;
+  cost: number;
+  latencyMs: number;
+}
+
+export type SweepParameter = 'temperature' | 'maxTokens' | 'presencePenalty' | 'frequencyPenalty' | 'topP';
+
+export interface SweepAxis {
+  parameter: SweepParameter;
+  values: number[];
+}
+
+export type SweepValues = Partial<Record<SweepParameter, number>>;
+
+export interface SweepRunResult extends ApiResponse {
+  index: number;
+  // Which combination of axis values this run used, and which repeat of it
+  cell: number;
+  repeat: number;
+  values: SweepValues;
+  // Characters in the reply
+  length: number;
+  attempts: number;
+  latencyMs: number;
+  // Present when assertions were given and the run succeeded
+  evaluation?: EvaluationResponse;
+  completed: number;
+  total: number;
+}
+
+export type SweepSummary = DatasetSummary;
+
+export type AssertionType = 'contains' | 'not_contains' | 'regex' | 'json_schema' | 'max_length' | 'equals' | 'llm_judge';
+
+export interface Assertion {
+  id: string;
+  type: AssertionType;
+  // Substring, pattern, schema, length limit, expected output or judge rubric
+  value: string;
+  // LLM judge only: grading model (defaults to the run's model) and passing score out of 10
+  model?: string;
+  threshold?: number;
+}
+
+export interface AssertionResult {
+  id?: string;
+  type: AssertionType;
+  passed: boolean;
+  message: string;
+  score?: number;
+}
+
+export interface EvaluationResponse {
+  success: boolean;
+  results?: AssertionResult[];
+  passed?: number;
+  total?: number;
+  score?: number | null;
+  cost?: number | null;
+  error?: string;
+  type?: string;
+}
+
+export interface SessionValidationResponse {
+  success: boolean;
+  error?: string;
+  type?: string;
+}
+
+export interface ChatRequestPreview {
+  success: boolean;
+  provider?: string;
+  // Null for providers without an upstream API, such as the mock
+  baseURL?: string | null;
+  // OpenAI chat completions body, exactly as /api/chat would send it
+  requestBody?: Record<string, unknown>;
+  error?: string;
+  type?: string;
+}
+
+export interface ModelMetrics {
+  provider: string;
+  model: string;
+  completions: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  averageLatencyMs: number | null;
+}
+
+export interface MetricsPoint {
+  // Start of the minute
+  time: string;
+  completions: number;
+  errors: number;
+  tokens: number;
+  // Null for minutes without completions
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+}
+
+export interface MetricsSummary {
+  success: boolean;
+  // Metrics are kept in memory and reset when the server restarts
+  startedAt?: string;
+  httpRequests?: number;
+  models?: ModelMetrics[];
+  // Failed completions by error type
+  errorTypes?: Record<string, number>;
+  // The last hour, oldest minute first
+  series?: MetricsPoint[];
+  error?: string;
+  type?: string;
+}